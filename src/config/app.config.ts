@@ -2,8 +2,10 @@
  * @file Konfigurasi aplikasi inti
  * @description
  * Menyediakan nilai konfigurasi yang digunakan di seluruh aplikasi:
- * - Direktori upload
+ * - Direktori upload (publik) dan direktori dokumen (privat, di luar static)
  * - Batas ukuran file (default 2MB)
+ * - Pemrosesan gambar upload: format output (WebP/AVIF), kualitas,
+ *   dimensi maksimal, dan varian ukuran (thumb, card, full)
  *
  * @usage
  * import { appConfig } from '@/config/app.config';
@@ -12,17 +14,66 @@
 
 import path from "path";
 
+export type ImageFormat = "webp" | "avif";
+
+export interface ImageProcessingConfig {
+    formats: ImageFormat[]; // format pertama dipakai untuk file utama
+    quality: number; // 1-100
+    maxDimension: number; // sisi terpanjang file utama (px)
+    variants: Record<string, number>; // nama varian → lebar maksimal (px)
+}
+
 export interface AppConfig {
     uploadDir: string;
+    documentDir: string; // Tidak di-serve statis, akses lewat endpoint download
     maxFileSize: number; // dalam byte
     defaultAvatar: string;
+    imageProcessing: ImageProcessingConfig;
+}
+
+/**
+ * Parse daftar format, e.g. "webp,avif" (format tidak dikenal diabaikan)
+ */
+function parseImageFormats(value: string | undefined): ImageFormat[] {
+    const formats = (value || "webp,avif")
+        .split(",")
+        .map((format) => format.trim().toLowerCase())
+        .filter(
+            (format): format is ImageFormat =>
+                format === "webp" || format === "avif"
+        );
+    return formats.length > 0 ? Array.from(new Set(formats)) : ["webp"];
+}
+
+/**
+ * Parse varian gambar, e.g. "thumb:200,card:600,full:1600"
+ */
+function parseImageVariants(value: string | undefined): Record<string, number> {
+    const variants: Record<string, number> = {};
+    for (const entry of (value || "thumb:200,card:600,full:1600").split(",")) {
+        const [name, width] = entry.split(":").map((part) => part.trim());
+        const parsedWidth = parseInt(width, 10);
+        if (/^[a-z0-9]+$/i.test(name) && parsedWidth > 0) {
+            variants[name.toLowerCase()] = parsedWidth;
+        }
+    }
+    return variants;
 }
 
 export const appConfig: AppConfig = {
     uploadDir: process.env.UPLOAD_DIR
         ? path.resolve(process.env.UPLOAD_DIR)
         : path.resolve(__dirname, "../../public/uploads"),
+    documentDir: process.env.DOCUMENT_DIR
+        ? path.resolve(process.env.DOCUMENT_DIR)
+        : path.resolve(__dirname, "../../storage/documents"),
 
     maxFileSize: parseInt(process.env.MAX_FILE_SIZE || "2097152", 10), // 2MB default
     defaultAvatar: process.env.DEFAULT_AVATAR ?? "/uploads/avatars/default-avatar.png",
+    imageProcessing: {
+        formats: parseImageFormats(process.env.IMAGE_FORMATS),
+        quality: parseInt(process.env.IMAGE_QUALITY || "80", 10),
+        maxDimension: parseInt(process.env.IMAGE_MAX_DIMENSION || "2560", 10),
+        variants: parseImageVariants(process.env.IMAGE_VARIANTS),
+    },
 };
@@ -0,0 +1,186 @@
+/**
+ * @file Daftar password umum (blocklist)
+ * @description
+ * Daftar password yang paling sering dipakai/bocor, disimpan lokal (tanpa API eksternal).
+ * Dipakai `PasswordPolicyService` untuk menolak password yang mudah ditebak.
+ * Perbandingan dilakukan case-insensitive.
+ *
+ * @usage
+ * import { COMMON_PASSWORDS } from '@/config/common-passwords';
+ * COMMON_PASSWORDS.has('password123'); // → true
+ */
+
+const passwords = [
+    // Urutan angka & keyboard
+    "123456",
+    "1234567",
+    "12345678",
+    "123456789",
+    "1234567890",
+    "0123456789",
+    "111111",
+    "11111111",
+    "000000",
+    "00000000",
+    "121212",
+    "123123",
+    "123123123",
+    "112233",
+    "654321",
+    "666666",
+    "696969",
+    "777777",
+    "888888",
+    "987654321",
+    "1q2w3e4r",
+    "1q2w3e4r5t",
+    "1qaz2wsx",
+    "qwerty",
+    "qwerty123",
+    "qwertyuiop",
+    "qwe123",
+    "asdfgh",
+    "asdfghjkl",
+    "zxcvbnm",
+    "zaq12wsx",
+    "abc123",
+    "abcd1234",
+    "abcdef",
+    "a1b2c3d4",
+    "aa123456",
+    "q1w2e3r4",
+    "passw0rd",
+
+    // Variasi "password"
+    "password",
+    "password1",
+    "password12",
+    "password123",
+    "password1234",
+    "p@ssw0rd",
+    "p@ssword",
+    "pass1234",
+    "passpass",
+
+    // Kata umum (Inggris)
+    "admin",
+    "admin123",
+    "admin1234",
+    "administrator",
+    "root",
+    "toor",
+    "letmein",
+    "welcome",
+    "welcome1",
+    "welcome123",
+    "login",
+    "master",
+    "monkey",
+    "dragon",
+    "football",
+    "baseball",
+    "basketball",
+    "soccer",
+    "superman",
+    "batman",
+    "shadow",
+    "sunshine",
+    "princess",
+    "starwars",
+    "trustno1",
+    "iloveyou",
+    "iloveyou1",
+    "freedom",
+    "whatever",
+    "secret",
+    "changeme",
+    "default",
+    "guest",
+    "test",
+    "test123",
+    "test1234",
+    "testing",
+    "hello",
+    "hello123",
+    "charlie",
+    "michael",
+    "jennifer",
+    "jordan",
+    "hunter",
+    "ranger",
+    "mustang",
+    "access",
+    "flower",
+    "cheese",
+    "computer",
+    "internet",
+    "killer",
+    "pepper",
+    "ginger",
+    "summer",
+    "winter",
+    "spring",
+    "autumn",
+    "google",
+    "facebook",
+    "samsung",
+    "qazwsx",
+    "lovely",
+    "loveme",
+    "blink182",
+    "matrix",
+    "maverick",
+    "pokemon",
+    "naruto",
+    "liverpool",
+    "chelsea",
+    "arsenal",
+    "manchester",
+    "barcelona",
+
+    // Kata umum (Indonesia)
+    "indonesia",
+    "indonesia1",
+    "indonesia123",
+    "jakarta",
+    "jakarta123",
+    "bandung",
+    "surabaya",
+    "merdeka",
+    "merdeka45",
+    "bismillah",
+    "bismillah123",
+    "alhamdulillah",
+    "sayang",
+    "sayangku",
+    "cintaku",
+    "kucing",
+    "rahasia",
+    "rahasia123",
+    "katasandi",
+    "sandiku",
+    "garuda",
+    "persija",
+    "persib",
+    "bonek",
+    "anjing",
+    "kampret",
+
+    // Terkait perusahaan / aplikasi
+    "enerkomp",
+    "enerkomp1",
+    "enerkomp123",
+    "enerkomp2024",
+    "enerkomp2025",
+    "persadaraya",
+    "dashboard",
+    "company",
+    "office",
+    "staff",
+    "user123",
+    "user1234",
+    "qwerty1",
+    "asdf1234",
+];
+
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set(passwords);
@@ -2,22 +2,47 @@
  * @file Konfigurasi jwt
  * @description
  * Menyediakan nilai konfigurasi yang digunakan untuk jwt:
- * - Secret JWT untuk access dan refresh
+ * - Secret JWT legacy untuk access dan refresh (tanpa `kid`, lihat `JwtKeyringService`)
+ * - Lokasi file keyring JWT (signing key aktif + key lama untuk verifikasi)
+ * - Secret HMAC untuk hashing token yang disimpan di database
  * - Waktu Expires JWT
  *
+ * @security
+ * - Di production, secret default TIDAK pernah dipakai (fallback dikosongkan)
+ * - `assertProductionReady()` dipanggil saat startup agar server gagal start
+ *   jika secret default/placeholder masih digunakan
+ *
  * @usage
  * import { jwtConfig } from '@/config/app.config';
  * const accessTokenSecret: jwtConfig.accessSecret,
+ * jwtConfig.assertProductionReady();
  */
 
+import fs from "fs";
+import path from "path";
 import { parseTime } from "../utils/parseTime";
 import dotenv from "dotenv";
 
 dotenv.config();
 
+const isProduction = process.env.NODE_ENV === "production";
+
+// Secret bawaan kode dan placeholder dari .env.example – ditolak di production
+const DEFAULT_SECRETS = new Set([
+    "enerkomp_access_secret",
+    "enerkomp_refresh_secret",
+    "enerkomp_token_hash_secret",
+    "your_jwt_secret",
+    "yout_jwt_refresh_secret",
+    "your_jwt_refresh_secret",
+    "your_token_hash_secret",
+]);
+
 export interface JwtConfigOptions {
     accessTokenSecret: string;
     refreshTokenSecret: string;
+    tokenHashSecret: string;
+    keyringPath: string;
     accessTokenExpiresIn: number;
     refreshTokenExpiresIn: number;
     resetTokenExpiresIn: number;
@@ -29,9 +54,21 @@ export class JwtConfig {
 
     constructor() {
         this.config = {
-            accessTokenSecret: process.env.JWT_SECRET ?? "enerkomp_access_secret",
+            accessTokenSecret:
+                process.env.JWT_SECRET ??
+                (isProduction ? "" : "enerkomp_access_secret"),
+
+            refreshTokenSecret:
+                process.env.JWT_REFRESH_SECRET ??
+                (isProduction ? "" : "enerkomp_refresh_secret"),
 
-            refreshTokenSecret: process.env.JWT_REFRESH_SECRET ?? "enerkomp_refresh_secret",
+            tokenHashSecret:
+                process.env.TOKEN_HASH_SECRET ??
+                (isProduction ? "" : "enerkomp_token_hash_secret"),
+
+            keyringPath: path.resolve(
+                process.env.JWT_KEYRING_PATH ?? "keys/jwt-keyring.json"
+            ),
 
             accessTokenExpiresIn: parseTime(
                 process.env.ACCESS_TOKEN_EXPIRES_IN,
@@ -65,6 +102,14 @@ export class JwtConfig {
         return this.config.refreshTokenSecret;
     }
 
+    get tokenHashSecret(): string {
+        return this.config.tokenHashSecret;
+    }
+
+    get keyringPath(): string {
+        return this.config.keyringPath;
+    }
+
     get accessTokenExpiresIn(): number {
         return this.config.accessTokenExpiresIn;
     }
@@ -80,6 +125,47 @@ export class JwtConfig {
     get forgotPasswordCooldown(): number {
         return this.config.forgotPasswordCooldown;
     }
+
+    // ===== Validasi =====
+
+    /**
+     * Pastikan tidak ada secret default/placeholder yang dipakai di production
+     * @throws Error berisi daftar masalah konfigurasi (server tidak boleh start)
+     */
+    assertProductionReady(): void {
+        if (!isProduction) return;
+
+        const problems: string[] = [];
+        const hasKeyring = fs.existsSync(this.config.keyringPath);
+
+        if (this.isMissingOrDefault(process.env.TOKEN_HASH_SECRET)) {
+            problems.push(
+                "TOKEN_HASH_SECRET is missing or uses a default value"
+            );
+        }
+
+        for (const name of ["JWT_SECRET", "JWT_REFRESH_SECRET"]) {
+            const value = process.env[name];
+            if (value !== undefined && this.isMissingOrDefault(value)) {
+                problems.push(`${name} uses a default value`);
+            } else if (value === undefined && !hasKeyring) {
+                problems.push(
+                    `${name} is missing and no JWT keyring was found at ${this.config.keyringPath}`
+                );
+            }
+        }
+
+        if (problems.length > 0) {
+            throw new Error(
+                `Insecure JWT configuration for production:\n- ${problems.join("\n- ")}`
+            );
+        }
+    }
+
+    // Helper methods
+    private isMissingOrDefault(value: string | undefined): boolean {
+        return !value || DEFAULT_SECRETS.has(value);
+    }
 }
 
 /**
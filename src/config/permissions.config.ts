@@ -0,0 +1,124 @@
+/**
+ * @file Registry permission RBAC
+ * @description
+ * Daftar tunggal semua resource dan action yang diperiksa oleh route
+ * (`RequirePermissionMiddleware.require(resource, action)`):
+ * - Dipakai untuk type-check pemanggilan `require()` di file route (typo = compile error)
+ * - Dipakai untuk validasi `PermissionInput` saat create/update role dan scope API key
+ * - Ditampilkan sebagai katalog di `GET /api/roles/permissions`
+ *
+ * Action "manage" selalu valid untuk setiap resource dan mencakup semua action lain.
+ * Action ber-scope `<action>:own` (misal `update:own`) hanya mengizinkan record milik
+ * user sendiri; action tanpa scope (`update`) berlaku untuk semua record (any).
+ * Saat menambah `require()` baru di route, daftarkan resource/action-nya di sini.
+ *
+ * @usage
+ * import { isRegisteredPermission } from '@/config/permissions.config';
+ * isRegisteredPermission('product', 'manage'); // → true
+ */
+
+export const MANAGE_ACTION = "manage";
+export const OWN_SCOPE_SUFFIX = ":own";
+
+export interface PermissionDefinition {
+    description: string;
+    actions: readonly string[];
+}
+
+export const PERMISSION_REGISTRY = {
+    analytics: {
+        description: "Analytics dashboard and reports",
+        actions: ["read", MANAGE_ACTION],
+    },
+    api_key: {
+        description: "API keys for machine clients",
+        actions: ["read", "create", "update", "delete", MANAGE_ACTION],
+    },
+    audit_log: {
+        description: "Audit log",
+        actions: ["read", MANAGE_ACTION],
+    },
+    blog: {
+        description: "Blog posts",
+        actions: [
+            "create",
+            "update",
+            "update:own",
+            "delete",
+            "delete:own",
+            MANAGE_ACTION,
+        ],
+    },
+    brand: {
+        description: "Brands",
+        actions: [MANAGE_ACTION],
+    },
+    catalog: {
+        description: "Catalogs",
+        actions: [MANAGE_ACTION],
+    },
+    category: {
+        description: "Product categories",
+        actions: [MANAGE_ACTION],
+    },
+    client: {
+        description: "Clients and contact submissions",
+        actions: [
+            "read",
+            "update",
+            "update:own",
+            "delete",
+            "delete:own",
+            MANAGE_ACTION,
+        ],
+    },
+    gallery: {
+        description: "Gallery",
+        actions: [MANAGE_ACTION],
+    },
+    product: {
+        description: "Products",
+        actions: [MANAGE_ACTION],
+    },
+    user: {
+        description: "Users, invitations and impersonation",
+        actions: ["read", "create", "update", "delete", MANAGE_ACTION],
+    },
+} as const satisfies Record<string, PermissionDefinition>;
+
+export type PermissionResource = keyof typeof PERMISSION_REGISTRY;
+
+export type PermissionAction<
+    R extends PermissionResource = PermissionResource
+> = (typeof PERMISSION_REGISTRY)[R]["actions"][number];
+
+/**
+ * Cek apakah pasangan resource + action terdaftar di registry
+ */
+export const isRegisteredPermission = (
+    resource: string,
+    action: string
+): boolean => {
+    if (!Object.prototype.hasOwnProperty.call(PERMISSION_REGISTRY, resource)) {
+        return false;
+    }
+    const definition: PermissionDefinition =
+        PERMISSION_REGISTRY[resource as PermissionResource];
+    return definition.actions.includes(action);
+};
+
+/**
+ * Nama action ber-scope "own" untuk sebuah action (misal: update → update:own)
+ */
+export const toOwnAction = (action: string): string =>
+    `${action}${OWN_SCOPE_SUFFIX}`;
+
+/**
+ * Ambil semua action terdaftar untuk resource (kosong jika tidak terdaftar)
+ */
+export const getRegisteredActions = (resource: string): readonly string[] => {
+    if (!Object.prototype.hasOwnProperty.call(PERMISSION_REGISTRY, resource)) {
+        return [];
+    }
+    return PERMISSION_REGISTRY[resource as PermissionResource].actions;
+};
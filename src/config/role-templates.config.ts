@@ -0,0 +1,98 @@
+/**
+ * @file Template role bawaan
+ * @description
+ * Kumpulan permission siap pakai untuk membuat role baru tanpa mengisi
+ * pasangan resource/action satu per satu (`POST /api/roles/templates/:key`):
+ * - Admin: "manage" untuk semua resource di registry
+ * - Editor: pengelolaan konten (blog, produk, kategori, brand, katalog, galeri)
+ * - Sales: pengelolaan klien/formulir kontak + analitik
+ * - Viewer: hanya baca untuk semua resource yang memiliki action "read"
+ *
+ * Template diturunkan dari registry permission sehingga resource baru
+ * otomatis ikut pada template Admin/Viewer.
+ *
+ * @usage
+ * import { ROLE_TEMPLATES } from '@/config/role-templates.config';
+ * const editor = ROLE_TEMPLATES.find((t) => t.key === 'editor');
+ */
+
+import {
+    MANAGE_ACTION,
+    PERMISSION_REGISTRY,
+    PermissionAction,
+    PermissionResource,
+    isRegisteredPermission,
+} from "./permissions.config";
+
+export type TemplatePermission = {
+    [R in PermissionResource]: { resource: R; action: PermissionAction<R> };
+}[PermissionResource];
+
+export interface RoleTemplate {
+    key: string;
+    name: string;
+    description: string;
+    requireTwoFactor: boolean;
+    permissions: TemplatePermission[];
+}
+
+const resources = Object.keys(PERMISSION_REGISTRY) as PermissionResource[];
+
+export const ROLE_TEMPLATES: readonly RoleTemplate[] = [
+    {
+        key: "admin",
+        name: "Admin",
+        description: "Full access to every resource",
+        requireTwoFactor: true,
+        permissions: resources.map(
+            (resource) =>
+                ({ resource, action: MANAGE_ACTION } as TemplatePermission)
+        ),
+    },
+    {
+        key: "editor",
+        name: "Editor",
+        description: "Manages website content: blog, products and media",
+        requireTwoFactor: false,
+        permissions: [
+            { resource: "blog", action: "create" },
+            { resource: "blog", action: "update" },
+            { resource: "blog", action: "delete" },
+            { resource: "product", action: "manage" },
+            { resource: "category", action: "manage" },
+            { resource: "brand", action: "manage" },
+            { resource: "catalog", action: "manage" },
+            { resource: "gallery", action: "manage" },
+        ],
+    },
+    {
+        key: "sales",
+        name: "Sales",
+        description: "Handles client inquiries and follows up on leads",
+        requireTwoFactor: false,
+        permissions: [
+            { resource: "client", action: "read" },
+            { resource: "client", action: "update" },
+            { resource: "client", action: "delete:own" },
+            { resource: "analytics", action: "read" },
+        ],
+    },
+    {
+        key: "viewer",
+        name: "Viewer",
+        description: "Read-only access",
+        requireTwoFactor: false,
+        permissions: resources
+            .filter((resource) => isRegisteredPermission(resource, "read"))
+            .map(
+                (resource) =>
+                    ({ resource, action: "read" } as TemplatePermission)
+            ),
+    },
+];
+
+/**
+ * Cari template role berdasarkan key
+ */
+export const findRoleTemplate = (key: string): RoleTemplate | undefined =>
+    ROLE_TEMPLATES.find((template) => template.key === key);
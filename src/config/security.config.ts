@@ -0,0 +1,94 @@
+/**
+ * @file Konfigurasi keamanan akun
+ * @description
+ * Menyediakan nilai konfigurasi untuk fitur keamanan akun:
+ * - Two-factor authentication (TOTP): issuer, kunci enkripsi, masa berlaku
+ *   & batas percobaan challenge
+ * - Proteksi brute-force login: batas percobaan per akun/IP, delay progresif, durasi lockout
+ * - Undangan pengguna: masa berlaku link undangan
+ * - Kebijakan password: panjang minimal, kelas karakter, jumlah riwayat password
+ * - Impersonation: masa berlaku token "log in as"
+ * - Cache permission: TTL cache permission per role (lintas request)
+ *
+ * @usage
+ * import { securityConfig } from '@/config/security.config';
+ * const issuer = securityConfig.twoFactorIssuer;
+ */
+
+import { parseTime } from "../utils/parseTime";
+
+export interface SecurityConfig {
+    twoFactorIssuer: string;
+    twoFactorEncryptionKey: string;
+    twoFactorChallengeExpiresIn: number; // dalam milidetik
+    twoFactorChallengeMaxAttempts: number; // kode salah sebelum challenge dicabut
+    twoFactorRecoveryCodeCount: number;
+    loginMaxAttempts: number; // gagal berturut-turut per akun sebelum lockout
+    loginIpMaxAttempts: number; // gagal per IP dalam satu window
+    loginAttemptWindow: number; // dalam milidetik
+    loginLockoutDuration: number; // dalam milidetik
+    loginDelayAfter: number; // mulai delay progresif setelah N kegagalan
+    loginDelayBase: number; // dalam milidetik
+    loginDelayMax: number; // dalam milidetik
+    invitationExpiresIn: number; // dalam milidetik
+    passwordMinLength: number;
+    passwordRequireUppercase: boolean;
+    passwordRequireLowercase: boolean;
+    passwordRequireNumber: boolean;
+    passwordRequireSymbol: boolean;
+    passwordHistorySize: number; // tolak reuse N password terakhir
+    impersonationExpiresIn: number; // dalam milidetik
+    permissionCacheTtl: number; // dalam milidetik
+}
+
+export const securityConfig: SecurityConfig = {
+    twoFactorIssuer: process.env.TWO_FACTOR_ISSUER ?? "Enerkomp",
+    twoFactorEncryptionKey:
+        process.env.TWO_FACTOR_ENCRYPTION_KEY ?? "enerkomp_two_factor_key",
+    twoFactorChallengeExpiresIn: parseTime(
+        process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN,
+        5 * 60 * 1000 // 5 menit
+    ),
+    twoFactorChallengeMaxAttempts: parseInt(
+        process.env.TWO_FACTOR_CHALLENGE_MAX_ATTEMPTS || "5",
+        10
+    ),
+    twoFactorRecoveryCodeCount: parseInt(
+        process.env.TWO_FACTOR_RECOVERY_CODE_COUNT || "10",
+        10
+    ),
+    loginMaxAttempts: parseInt(process.env.LOGIN_MAX_ATTEMPTS || "5", 10),
+    loginIpMaxAttempts: parseInt(
+        process.env.LOGIN_IP_MAX_ATTEMPTS || "20",
+        10
+    ),
+    loginAttemptWindow: parseTime(
+        process.env.LOGIN_ATTEMPT_WINDOW,
+        15 * 60 * 1000 // 15 menit
+    ),
+    loginLockoutDuration: parseTime(
+        process.env.LOGIN_LOCKOUT_DURATION,
+        15 * 60 * 1000 // 15 menit
+    ),
+    loginDelayAfter: parseInt(process.env.LOGIN_DELAY_AFTER || "3", 10),
+    loginDelayBase: parseTime(process.env.LOGIN_DELAY_BASE, 1000), // 1 detik
+    loginDelayMax: parseTime(process.env.LOGIN_DELAY_MAX, 30 * 1000), // 30 detik
+    invitationExpiresIn: parseTime(
+        process.env.INVITATION_EXPIRES_IN,
+        3 * 24 * 60 * 60 * 1000 // 3 hari
+    ),
+    passwordMinLength: parseInt(process.env.PASSWORD_MIN_LENGTH || "8", 10),
+    passwordRequireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE !== "false",
+    passwordRequireLowercase: process.env.PASSWORD_REQUIRE_LOWERCASE !== "false",
+    passwordRequireNumber: process.env.PASSWORD_REQUIRE_NUMBER !== "false",
+    passwordRequireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL === "true",
+    passwordHistorySize: parseInt(process.env.PASSWORD_HISTORY_SIZE || "5", 10),
+    impersonationExpiresIn: parseTime(
+        process.env.IMPERSONATION_EXPIRES_IN,
+        15 * 60 * 1000 // 15 menit
+    ),
+    permissionCacheTtl: parseTime(
+        process.env.PERMISSION_CACHE_TTL,
+        5 * 60 * 1000 // 5 menit
+    ),
+};
@@ -0,0 +1,209 @@
+/**
+ * @file ApiKeyController – Antarmuka HTTP untuk manajemen API key
+ * @description
+ * Controller class-based untuk mengelola API key machine client:
+ * - List, detail, create, update, revoke, hard delete
+ * - Key mentah hanya dikembalikan sekali pada response create
+ *
+ * @security
+ * - Semua endpoint memerlukan autentikasi sesi (bukan API key)
+ * - Pemilik key selalu pengguna yang membuatnya
+ * - IP address dan user agent otomatis dilog untuk audit
+ *
+ * @usage
+ * const apiKeyController = new ApiKeyController(apiKeyService);
+ * router.post('/api-keys', apiKeyController.createApiKey);
+ *
+ * @dependencies
+ * - `ApiKeyService`
+ * - Express Request/Response
+ */
+
+import { Request, Response } from "express";
+import { ApiKeyService } from "../services/api-key.service";
+import { handleError } from "../utils/http-helper";
+
+export class ApiKeyController {
+    constructor(private apiKeyService: ApiKeyService) {}
+
+    /**
+     * Endpoint: GET /api-keys
+     * Ambil daftar API key dengan pagination dan pencarian
+     */
+    getApiKeys = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const {
+                revoked,
+                page = "1",
+                limit = "10",
+                search,
+                ownerId,
+            } = req.query;
+
+            const result = await this.apiKeyService.list({
+                revoked: revoked === "true",
+                page: parseInt(page as string, 10),
+                limit: parseInt(limit as string, 10),
+                search: search ? String(search) : undefined,
+                ownerId: ownerId ? String(ownerId) : undefined,
+            });
+
+            res.status(200).json(result);
+        } catch (error) {
+            handleError(res, error, "Failed to fetch API keys");
+        }
+    };
+
+    /**
+     * Endpoint: GET /api-keys/:id
+     * Ambil detail API key berdasarkan ID
+     */
+    getApiKey = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const apiKey = await this.apiKeyService.findById(id);
+
+            if (!apiKey) {
+                res.status(404).json({ error: "API key not found" });
+                return;
+            }
+
+            res.status(200).json(apiKey);
+        } catch (error) {
+            handleError(res, error, "Failed to fetch API key");
+        }
+    };
+
+    /**
+     * Endpoint: POST /api-keys
+     * Buat API key baru (key mentah hanya ditampilkan sekali)
+     */
+    createApiKey = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { name, scopes, expiresAt } = req.body;
+
+            if (!name || typeof name !== "string" || name.trim().length === 0) {
+                res.status(400).json({
+                    error: "API key name is required and must be a non-empty string",
+                });
+                return;
+            }
+
+            const parsedExpiresAt = this.parseExpiresAt(expiresAt);
+            if (parsedExpiresAt === undefined && expiresAt) {
+                res.status(400).json({ error: "Invalid expiration date" });
+                return;
+            }
+
+            const result = await this.apiKeyService.create({
+                name: name.trim(),
+                scopes: scopes || [],
+                ownerId: req.user!.id,
+                expiresAt: parsedExpiresAt ?? null,
+                createdBy: req.user!.id,
+                ipAddress: req.ip || "",
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(201).json(result);
+        } catch (error) {
+            handleError(res, error, "Failed to create API key", 400);
+        }
+    };
+
+    /**
+     * Endpoint: PUT /api-keys/:id
+     * Update nama, scope, atau masa berlaku API key
+     */
+    updateApiKey = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const { name, scopes, expiresAt } = req.body;
+
+            if (
+                name !== undefined &&
+                (typeof name !== "string" || name.trim().length === 0)
+            ) {
+                res.status(400).json({
+                    error: "API key name must be a non-empty string",
+                });
+                return;
+            }
+
+            const parsedExpiresAt = this.parseExpiresAt(expiresAt);
+            if (parsedExpiresAt === undefined && expiresAt) {
+                res.status(400).json({ error: "Invalid expiration date" });
+                return;
+            }
+
+            const updated = await this.apiKeyService.update({
+                id,
+                name: name?.trim(),
+                scopes,
+                expiresAt: parsedExpiresAt,
+                updatedBy: req.user!.id,
+                ipAddress: req.ip || "",
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(200).json(updated);
+        } catch (error) {
+            handleError(res, error, "Failed to update API key", 400);
+        }
+    };
+
+    /**
+     * Endpoint: DELETE /api-keys/:id
+     * Revoke API key
+     */
+    revokeApiKey = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+
+            await this.apiKeyService.revoke({
+                id,
+                deletedBy: req.user!.id,
+                ipAddress: req.ip || "",
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(200).json({ message: "API key revoked successfully" });
+        } catch (error) {
+            handleError(res, error, "Failed to revoke API key", 400);
+        }
+    };
+
+    /**
+     * Endpoint: DELETE /api-keys/:id/hard
+     * Hard delete API key (permanen)
+     */
+    hardDeleteApiKey = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+
+            await this.apiKeyService.hardDelete({
+                id,
+                deletedBy: req.user!.id,
+                ipAddress: req.ip || "",
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(204).end();
+        } catch (error) {
+            handleError(res, error, "Failed to hard delete API key", 400);
+        }
+    };
+
+    // Helper methods
+    /**
+     * Parse `expiresAt` dari body
+     * @returns Date, null (tanpa kadaluarsa), atau undefined jika tidak dikirim/tidak valid
+     */
+    private parseExpiresAt(value: unknown): Date | null | undefined {
+        if (value === null) return null;
+        if (value === undefined || value === "") return undefined;
+
+        const date = new Date(value as string);
+        return isNaN(date.getTime()) ? undefined : date;
+    }
+}
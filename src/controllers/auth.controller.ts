@@ -2,32 +2,44 @@
  * @file AuthController – Antarmuka HTTP untuk operasi autentikasi dan manajemen sesi
  * @description
  * Controller class-based untuk mengelola:
- * - Login, refresh token, logout
+ * - Login, refresh token (rotasi), logout
  * - Forgot & reset password
- * - Profile management (getMe)
+ * - Profile management (getMe) dan permission efektif (getMyPermissions)
+ * - Manajemen sesi perangkat (list & revoke)
+ * - Two-factor authentication (enrollment, login dua langkah, recovery codes)
  *
  * @security
  * - Cookie HttpOnly untuk tokens (hindari XSS)
  * - SameSite=none + Secure di production (dukung cross-origin SPA)
  * - Tidak ada kebocoran informasi user existence di forgot password
  * - Throttling 2 menit untuk forgot password
+ * - Login yang di-throttle (brute-force) dijawab 429 + header Retry-After
  *
  * @usage
- * const authController = new AuthController(authService);
+ * const authController = new AuthController(authService, sessionService, twoFactorService, roleService);
  * router.post('/login', authController.login);
  *
  * @dependencies
- * - `AuthService`
+ * - `AuthService`, `SessionService`, `TwoFactorService`, `RoleService`
  * - Express Request/Response
  */
 
 import { Request, Response } from "express";
 import { AuthService } from "../services/auth.service";
+import { SessionService } from "../services/session.service";
+import { TwoFactorService } from "../services/two-factor.service";
+import { RoleService } from "../services/role.service";
 import { jwtConfig } from "../config/jwt.config";
+import { TooManyLoginAttemptsError } from "../services/login-attempt.service";
 import { getClientIp, handleError } from "../utils/http-helper";
 
 export class AuthController {
-    constructor(private authService: AuthService) {}
+    constructor(
+        private authService: AuthService,
+        private sessionService: SessionService,
+        private twoFactorService: TwoFactorService,
+        private roleService: RoleService
+    ) {}
 
     /**
      * Endpoint: POST /login
@@ -54,22 +66,81 @@ export class AuthController {
                 userAgent
             );
 
+            // 2FA diperlukan → belum ada token, klien lanjut ke POST /login/2fa
+            if ("challengeToken" in result) {
+                res.status(200).json({
+                    message: "Two-factor authentication required",
+                    ...result,
+                });
+                return;
+            }
+
             this.setAuthCookies(res, result.accessToken, result.refreshToken);
 
             res.status(200).json({
                 message: "Login successful",
                 accessToken: result.accessToken,
                 refreshToken: result.refreshToken,
+                sessionId: result.sessionId,
                 user: result.user,
             });
         } catch (error) {
+            if (error instanceof TooManyLoginAttemptsError) {
+                res.set("Retry-After", String(error.retryAfterSeconds));
+                handleError(res, error, "Too many login attempts", 429);
+                return;
+            }
             handleError(res, error, "Authentication failed", 401);
         }
     };
 
+    /**
+     * Endpoint: POST /login/2fa
+     * Langkah kedua login: verifikasi kode TOTP atau recovery code
+     */
+    loginTwoFactor = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { challengeToken, code } = req.body;
+
+            if (!challengeToken || !code) {
+                res.status(400).json({
+                    error: "Challenge token and code are required",
+                });
+                return;
+            }
+
+            const result = await this.authService.completeTwoFactorLogin(
+                String(challengeToken),
+                String(code),
+                getClientIp(req),
+                req.get("User-Agent") || ""
+            );
+
+            this.setAuthCookies(res, result.accessToken, result.refreshToken);
+
+            res.status(200).json({
+                message: "Login successful",
+                accessToken: result.accessToken,
+                refreshToken: result.refreshToken,
+                sessionId: result.sessionId,
+                user: result.user,
+                ...(result.recoveryCodes
+                    ? { recoveryCodes: result.recoveryCodes }
+                    : {}),
+            });
+        } catch (error) {
+            if (error instanceof TooManyLoginAttemptsError) {
+                res.set("Retry-After", String(error.retryAfterSeconds));
+                handleError(res, error, "Too many login attempts", 429);
+                return;
+            }
+            handleError(res, error, "Two-factor authentication failed", 401);
+        }
+    };
+
     /**
      * Endpoint: POST /refresh
-     * Generate access token baru menggunakan refresh token
+     * Rotasi token: generate access token dan refresh token baru
      */
     refresh = async (req: Request, res: Response): Promise<void> => {
         try {
@@ -84,21 +155,20 @@ export class AuthController {
             const ipAddress = getClientIp(req);
             const userAgent = req.get("User-Agent") || "";
 
-            const newAccessToken = await this.authService.refreshAccessToken(
+            const result = await this.authService.refreshAccessToken(
                 refreshToken,
                 ipAddress,
                 userAgent
             );
 
-            res.cookie("access_token", newAccessToken, {
-                httpOnly: true,
-                secure: process.env.NODE_ENV === "production",
-                sameSite: "none",
-                maxAge: jwtConfig.accessTokenExpiresIn, // 15 menit
-            });
+            this.setAuthCookies(res, result.accessToken, result.refreshToken);
 
-            res.status(200).json({ accessToken: newAccessToken });
+            res.status(200).json({
+                accessToken: result.accessToken,
+                refreshToken: result.refreshToken,
+            });
         } catch (error) {
+            this.clearAuthCookies(res);
             handleError(res, error, "Invalid refresh token", 401);
         }
     };
@@ -181,13 +251,6 @@ export class AuthController {
                 });
                 return;
             }
-            if (password.length < 6) {
-                res.status(400).json({
-                    error: "Password must be at least 6 characters",
-                });
-                return;
-            }
-
             const ipAddress = getClientIp(req);
             const userAgent = req.get("User-Agent") || "";
 
@@ -206,6 +269,52 @@ export class AuthController {
         }
     };
 
+    /**
+     * Endpoint: GET /password-policy
+     * Ambil kebijakan password aktif
+     */
+    getPasswordPolicy = async (req: Request, res: Response): Promise<void> => {
+        try {
+            res.status(200).json(this.authService.getPasswordPolicy());
+        } catch (error) {
+            handleError(res, error, "Failed to fetch password policy");
+        }
+    };
+
+    /**
+     * Endpoint: PUT /me/password
+     * Ganti password pengguna saat ini
+     */
+    changePassword = async (req: Request, res: Response): Promise<void> => {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: "Unauthorized" });
+                return;
+            }
+
+            const { currentPassword, newPassword } = req.body;
+            if (!currentPassword || !newPassword) {
+                res.status(400).json({
+                    error: "Current password and new password are required",
+                });
+                return;
+            }
+
+            await this.authService.changePassword(
+                req.user.id,
+                currentPassword,
+                newPassword,
+                req.user.sessionId,
+                getClientIp(req),
+                req.get("User-Agent") || ""
+            );
+
+            res.status(200).json({ message: "Password changed successfully" });
+        } catch (error) {
+            handleError(res, error, "Failed to change password", 400);
+        }
+    };
+
     /**
      * Endpoint: GET /me
      * Ambil profil pengguna saat ini
@@ -218,12 +327,49 @@ export class AuthController {
             }
 
             const user = await this.authService.getMe(req.user.id);
+
+            // Flag impersonation agar frontend bisa menampilkan banner "log in as"
+            if (req.user.impersonator) {
+                res.status(200).json({
+                    ...user,
+                    impersonation: true,
+                    impersonator: req.user.impersonator,
+                });
+                return;
+            }
+
             res.status(200).json(user);
         } catch (error) {
             handleError(res, error, "Failed to fetch user profile", 400);
         }
     };
 
+    /**
+     * Endpoint: GET /me/permissions
+     * Ambil permission efektif pengguna saat ini (untuk menyembunyikan tombol di dashboard)
+     */
+    getMyPermissions = async (req: Request, res: Response): Promise<void> => {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: "Unauthorized" });
+                return;
+            }
+
+            const permissions = await this.roleService.getEffectivePermissions(
+                req.user.roleId,
+                req.user.apiKeyScopes
+            );
+
+            res.status(200).json({
+                roleId: req.user.roleId,
+                role: req.user.role?.name ?? null,
+                permissions,
+            });
+        } catch (error) {
+            handleError(res, error, "Failed to fetch permissions");
+        }
+    };
+
     /**
      * Endpoint: PATCH /me
      * Update profil pengguna saat ini
@@ -314,6 +460,225 @@ export class AuthController {
         }
     };
 
+    /**
+     * Endpoint: GET /sessions
+     * Ambil daftar sesi aktif (perangkat) milik pengguna saat ini
+     */
+    getSessions = async (req: Request, res: Response): Promise<void> => {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: "Unauthorized" });
+                return;
+            }
+
+            const sessions = await this.sessionService.listActive(
+                req.user.id,
+                req.user.sessionId
+            );
+
+            res.status(200).json({ data: sessions });
+        } catch (error) {
+            handleError(res, error, "Failed to fetch sessions", 400);
+        }
+    };
+
+    /**
+     * Endpoint: DELETE /sessions/:id
+     * Revoke satu sesi (misal: laptop yang hilang)
+     */
+    revokeSession = async (req: Request, res: Response): Promise<void> => {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: "Unauthorized" });
+                return;
+            }
+
+            const { id } = req.params;
+
+            await this.sessionService.revoke(
+                req.user.id,
+                id,
+                getClientIp(req),
+                req.get("User-Agent") || ""
+            );
+
+            // Jika sesi saat ini yang direvoke, bersihkan cookie juga
+            if (id === req.user.sessionId) {
+                this.clearAuthCookies(res);
+            }
+
+            res.status(200).json({ message: "Session revoked successfully" });
+        } catch (error) {
+            handleError(res, error, "Failed to revoke session", 400);
+        }
+    };
+
+    /**
+     * Endpoint: DELETE /sessions
+     * Revoke semua sesi lain selain sesi saat ini
+     */
+    revokeOtherSessions = async (
+        req: Request,
+        res: Response
+    ): Promise<void> => {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: "Unauthorized" });
+                return;
+            }
+
+            const revoked = await this.sessionService.revokeOthers(
+                req.user.id,
+                req.user.sessionId,
+                getClientIp(req),
+                req.get("User-Agent") || ""
+            );
+
+            res.status(200).json({
+                message: "Other sessions revoked successfully",
+                revoked,
+            });
+        } catch (error) {
+            handleError(res, error, "Failed to revoke sessions", 400);
+        }
+    };
+
+    /**
+     * Endpoint: GET /me/2fa
+     * Ambil status 2FA pengguna saat ini
+     */
+    getTwoFactorStatus = async (req: Request, res: Response): Promise<void> => {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: "Unauthorized" });
+                return;
+            }
+
+            const status = await this.twoFactorService.getStatus(req.user.id);
+            res.status(200).json(status);
+        } catch (error) {
+            handleError(res, error, "Failed to fetch two-factor status", 400);
+        }
+    };
+
+    /**
+     * Endpoint: POST /me/2fa/setup
+     * Mulai enrollment 2FA: generate secret & otpauth URI
+     */
+    setupTwoFactor = async (req: Request, res: Response): Promise<void> => {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: "Unauthorized" });
+                return;
+            }
+
+            const enrollment = await this.twoFactorService.beginEnrollment(
+                req.user.id
+            );
+            res.status(200).json(enrollment);
+        } catch (error) {
+            handleError(res, error, "Failed to start two-factor setup", 400);
+        }
+    };
+
+    /**
+     * Endpoint: POST /me/2fa/verify
+     * Konfirmasi enrollment 2FA dengan kode pertama
+     */
+    verifyTwoFactor = async (req: Request, res: Response): Promise<void> => {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: "Unauthorized" });
+                return;
+            }
+
+            const { code } = req.body;
+            if (!code) {
+                res.status(400).json({ error: "Code is required" });
+                return;
+            }
+
+            const result = await this.twoFactorService.confirmEnrollment(
+                req.user.id,
+                String(code),
+                getClientIp(req),
+                req.get("User-Agent") || ""
+            );
+
+            res.status(200).json({
+                message: "Two-factor authentication enabled",
+                ...result,
+            });
+        } catch (error) {
+            handleError(res, error, "Failed to verify two-factor code", 400);
+        }
+    };
+
+    /**
+     * Endpoint: POST /me/2fa/recovery-codes
+     * Generate ulang recovery codes
+     */
+    regenerateRecoveryCodes = async (
+        req: Request,
+        res: Response
+    ): Promise<void> => {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: "Unauthorized" });
+                return;
+            }
+
+            const { code } = req.body;
+            if (!code) {
+                res.status(400).json({ error: "Code is required" });
+                return;
+            }
+
+            const result = await this.twoFactorService.regenerateRecoveryCodes(
+                req.user.id,
+                String(code),
+                getClientIp(req),
+                req.get("User-Agent") || ""
+            );
+
+            res.status(200).json(result);
+        } catch (error) {
+            handleError(res, error, "Failed to regenerate recovery codes", 400);
+        }
+    };
+
+    /**
+     * Endpoint: DELETE /me/2fa
+     * Nonaktifkan 2FA (tidak diizinkan jika role mewajibkan 2FA)
+     */
+    disableTwoFactor = async (req: Request, res: Response): Promise<void> => {
+        try {
+            if (!req.user) {
+                res.status(401).json({ error: "Unauthorized" });
+                return;
+            }
+
+            const { code } = req.body;
+            if (!code) {
+                res.status(400).json({ error: "Code is required" });
+                return;
+            }
+
+            await this.twoFactorService.disable(
+                req.user.id,
+                String(code),
+                getClientIp(req),
+                req.get("User-Agent") || ""
+            );
+
+            res.status(200).json({
+                message: "Two-factor authentication disabled",
+            });
+        } catch (error) {
+            handleError(res, error, "Failed to disable two-factor", 400);
+        }
+    };
+
     // Helper methods
     private setAuthCookies(
         res: Response,
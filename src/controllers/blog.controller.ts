@@ -261,7 +261,6 @@ export class BlogController {
                     isFeatured: parsedIsFeatured,
                 },
                 translations: parsedTranslations,
-                authorId: req.user!.id,
                 updatedBy: req.user!.id,
                 ipAddress: getClientIp(req),
                 userAgent: req.get("User-Agent") || "",
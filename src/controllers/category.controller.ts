@@ -3,6 +3,8 @@
  * @description
  * Controller class-based untuk mengelola operasi kategori:
  * - CRUD kategori (termasuk soft/hard delete dan restore)
+ * - Upload gambar, sortOrder, dan terjemahan kategori (multi-bahasa)
+ * - Hierarki kategori: full tree dan breadcrumb
  * - Integrasi dengan sistem slug generation
  *
  * @security
@@ -11,23 +13,29 @@
  * - Validasi input dasar di level controller
  *
  * @usage
- * const categoryController = new CategoryController(categoryService, slugService);
+ * const categoryController = new CategoryController(categoryService, slugService, sortOrderService);
  * router.get('/categories', categoryController.getCategories);
  *
  * @dependencies
- * - `CategoryService`, `SlugService`
+ * - `CategoryService`, `SlugService`, `SortOrderService`
  * - Express Request/Response
  */
 
 import { Request, Response } from "express";
-import { CategoryService } from "../services/category.service";
+import { Language } from "@prisma/client";
+import {
+    CategoryService,
+    CategoryTranslationInput,
+} from "../services/category.service";
 import { SlugService } from "../services/slug.service";
+import { SortOrderService } from "../services/sort-order.service";
 import { getClientIp, handleError } from "../utils/http-helper";
 
 export class CategoryController {
     constructor(
         private categoryService: CategoryService,
-        private slugService: SlugService
+        private slugService: SlugService,
+        private sortOrderService: SortOrderService
     ) {}
 
     /**
@@ -51,6 +59,40 @@ export class CategoryController {
         }
     };
 
+    /**
+     * Endpoint: GET /categories/tree
+     * Ambil seluruh kategori dalam bentuk tree
+     */
+    getCategoryTree = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const tree = await this.categoryService.getTree({
+                activeOnly: req.query.active === "true",
+            });
+
+            res.status(200).json({ data: tree });
+        } catch (error) {
+            handleError(res, error, "Failed to fetch category tree");
+        }
+    };
+
+    /**
+     * Endpoint: GET /categories/:id/breadcrumb
+     * Ambil breadcrumb kategori (root → kategori ini)
+     */
+    getCategoryBreadcrumb = async (
+        req: Request,
+        res: Response
+    ): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const breadcrumb = await this.categoryService.getBreadcrumb(id);
+
+            res.status(200).json({ data: breadcrumb });
+        } catch (error) {
+            handleError(res, error, "Failed to fetch category breadcrumb", 404);
+        }
+    };
+
     /**
      * Endpoint: GET /categories/:id
      * Ambil detail kategori berdasarkan ID
@@ -77,21 +119,44 @@ export class CategoryController {
      */
     createCategory = async (req: Request, res: Response): Promise<void> => {
         try {
-            const { name, description, isActive = true } = req.body;
+            const {
+                name,
+                description,
+                isActive: isActiveRaw = true,
+                parentId,
+                sortOrder: sortOrderRaw,
+                translations: translationsRaw,
+            } = req.body;
 
             if (!name) {
                 res.status(400).json({ error: "Name is required" });
                 return;
             }
 
+            // Parse terjemahan
+            const translations = this.parseTranslations(translationsRaw);
+            if (translations === null) {
+                res.status(400).json({ error: "Invalid translations" });
+                return;
+            }
+
             // Generate slug
             const slug = req.body.slug || this.slugService.generate(name);
 
+            // Ambil URL gambar dari upload
+            const imageUrl = req.file
+                ? `/uploads/categories/${req.file.filename}`
+                : null;
+
             const category = await this.categoryService.create({
                 slug,
                 name,
                 description: description || null,
-                isActive,
+                image: imageUrl,
+                isActive: this.parseBoolean(isActiveRaw),
+                sortOrder: this.sortOrderService.parse(sortOrderRaw),
+                parentId: parentId || null,
+                translations: translations ?? [],
                 createdBy: req.user!.id,
                 ipAddress: getClientIp(req),
                 userAgent: req.get("User-Agent") || "",
@@ -110,22 +175,48 @@ export class CategoryController {
     updateCategory = async (req: Request, res: Response): Promise<void> => {
         try {
             const { id } = req.params;
-            const { name, description, isActive } = req.body;
+            const {
+                name,
+                description,
+                isActive: isActiveRaw,
+                parentId,
+                sortOrder: sortOrderRaw,
+                translations: translationsRaw,
+            } = req.body;
 
             if (!name) {
                 res.status(400).json({ error: "Name is required" });
                 return;
             }
 
+            // Parse terjemahan
+            const translations = this.parseTranslations(translationsRaw);
+            if (translations === null) {
+                res.status(400).json({ error: "Invalid translations" });
+                return;
+            }
+
             // Generate slug
             const slug = req.body.slug || this.slugService.generate(name);
 
+            // Ambil URL gambar dari upload atau existing
+            const imageUrl = req.file
+                ? `/uploads/categories/${req.file.filename}`
+                : req.body.image;
+
             const category = await this.categoryService.update({
                 id,
                 slug,
                 name,
                 description: description || null,
-                isActive,
+                image: imageUrl === "" ? null : imageUrl,
+                isActive:
+                    isActiveRaw === undefined
+                        ? undefined
+                        : this.parseBoolean(isActiveRaw),
+                sortOrder: this.sortOrderService.parse(sortOrderRaw),
+                parentId: parentId === undefined ? undefined : parentId || null,
+                translations,
                 updatedBy: req.user!.id,
                 ipAddress: getClientIp(req),
                 userAgent: req.get("User-Agent") || "",
@@ -178,4 +269,49 @@ export class CategoryController {
             handleError(res, error, "Failed to hard delete category", 400);
         }
     };
+
+    // Helper methods
+    /**
+     * Konversi boolean dari JSON atau form-data ("true"/"1")
+     */
+    private parseBoolean(value: unknown): boolean {
+        return value === true || value === "true" || value === "1";
+    }
+
+    /**
+     * Parse `translations` dari body (array JSON atau string JSON form-data)
+     * @returns Daftar terjemahan, undefined jika tidak dikirim, null jika tidak valid
+     */
+    private parseTranslations(
+        value: unknown
+    ): CategoryTranslationInput[] | null | undefined {
+        if (value === undefined || value === "") return undefined;
+
+        let parsed: unknown;
+        try {
+            parsed = typeof value === "string" ? JSON.parse(value) : value;
+        } catch {
+            return null;
+        }
+
+        if (!Array.isArray(parsed)) return null;
+
+        const languages = new Set<Language>();
+        for (const t of parsed) {
+            if (!t || !Object.values(Language).includes(t.language)) {
+                return null;
+            }
+            if (languages.has(t.language)) return null;
+            languages.add(t.language);
+        }
+
+        return parsed.map((t) => ({
+            language: t.language,
+            name: t.name || null,
+            description: t.description || null,
+            metaTitle: t.metaTitle || null,
+            metaDescription: t.metaDescription || null,
+            metaKeywords: t.metaKeywords || null,
+        }));
+    }
 }
@@ -0,0 +1,172 @@
+/**
+ * @file InvitationController – Antarmuka HTTP untuk undangan pengguna
+ * @description
+ * Controller class-based untuk alur undangan pengguna:
+ * - Admin: daftar undangan pending, undang, kirim ulang, batalkan
+ * - Publik: cek link undangan dan terima undangan (set password)
+ *
+ * @security
+ * - Endpoint admin memerlukan autentikasi & permission (di router)
+ * - Endpoint publik hanya bisa dipakai dengan token undangan yang valid
+ * - IP address dan user agent otomatis dilog untuk audit
+ *
+ * @usage
+ * const invitationController = new InvitationController(invitationService);
+ * router.post('/invitations', invitationController.createInvitation);
+ *
+ * @dependencies
+ * - `InvitationService`
+ * - Express Request/Response
+ */
+
+import { Request, Response } from "express";
+import { InvitationService } from "../services/invitation.service";
+import { getClientIp, handleError } from "../utils/http-helper";
+
+export class InvitationController {
+    constructor(private invitationService: InvitationService) {}
+
+    /**
+     * Endpoint: GET /invitations
+     * Ambil daftar undangan yang masih pending
+     */
+    getInvitations = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { page = "1", limit = "10", search } = req.query;
+
+            const result = await this.invitationService.listPending({
+                page: parseInt(page as string, 10),
+                limit: parseInt(limit as string, 10),
+                search: search ? String(search) : undefined,
+            });
+
+            res.status(200).json(result);
+        } catch (error) {
+            handleError(res, error, "Failed to fetch invitations");
+        }
+    };
+
+    /**
+     * Endpoint: POST /invitations
+     * Undang pengguna baru (user PENDING + email link undangan)
+     */
+    createInvitation = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { name, email, phone, roleId } = req.body;
+
+            if (!name || !email || !roleId) {
+                res.status(400).json({
+                    error: "Name, email, and role are required",
+                });
+                return;
+            }
+
+            const user = await this.invitationService.invite({
+                name,
+                email,
+                phone,
+                roleId,
+                invitedBy: req.user!.id,
+                ipAddress: getClientIp(req),
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(201).json(user);
+        } catch (error) {
+            handleError(res, error, "Failed to invite user", 400);
+        }
+    };
+
+    /**
+     * Endpoint: POST /invitations/:id/resend
+     * Kirim ulang undangan dengan link baru
+     */
+    resendInvitation = async (req: Request, res: Response): Promise<void> => {
+        try {
+            await this.invitationService.resend({
+                id: req.params.id,
+                actorId: req.user!.id,
+                ipAddress: getClientIp(req),
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(200).json({ message: "Invitation resent successfully" });
+        } catch (error) {
+            handleError(res, error, "Failed to resend invitation", 400);
+        }
+    };
+
+    /**
+     * Endpoint: DELETE /invitations/:id
+     * Batalkan undangan
+     */
+    revokeInvitation = async (req: Request, res: Response): Promise<void> => {
+        try {
+            await this.invitationService.revoke({
+                id: req.params.id,
+                actorId: req.user!.id,
+                ipAddress: getClientIp(req),
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(200).json({
+                message: "Invitation revoked successfully",
+            });
+        } catch (error) {
+            handleError(res, error, "Failed to revoke invitation", 400);
+        }
+    };
+
+    /**
+     * Endpoint: GET /invitations/verify?token=...
+     * Cek validitas link undangan
+     */
+    verifyInvitation = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { token } = req.query;
+
+            if (!token) {
+                res.status(400).json({ error: "Token is required" });
+                return;
+            }
+
+            const invitation = await this.invitationService.verify(
+                String(token)
+            );
+
+            res.status(200).json(invitation);
+        } catch (error) {
+            handleError(res, error, "Failed to verify invitation", 400);
+        }
+    };
+
+    /**
+     * Endpoint: POST /invitations/accept
+     * Terima undangan dan set password
+     */
+    acceptInvitation = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { token, password } = req.body;
+
+            if (!token || !password) {
+                res.status(400).json({
+                    error: "Token and password are required",
+                });
+                return;
+            }
+
+            await this.invitationService.accept(
+                token,
+                password,
+                getClientIp(req),
+                req.get("User-Agent") || ""
+            );
+
+            res.status(200).json({
+                message: "Invitation accepted. You can now log in.",
+            });
+        } catch (error) {
+            handleError(res, error, "Failed to accept invitation", 400);
+        }
+    };
+}
@@ -0,0 +1,254 @@
+/**
+ * @file ProductDocumentController – Antarmuka HTTP untuk dokumen produk
+ * @description
+ * Controller class-based untuk lampiran dokumen produk (PDF/DOCX):
+ * - List dokumen (publik: hanya dokumen aktif, filter `?type=&language=`)
+ * - Download publik (menghitung jumlah download)
+ * - Upload, update (metadata / ganti file), dan hapus dokumen
+ *
+ * @security
+ * - Endpoint yang mengubah data memerlukan autentikasi
+ * - Permission checking dilakukan di middleware
+ * - Validasi tipe file (MIME + magic bytes) dilakukan di middleware upload
+ *
+ * @usage
+ * const productDocumentController = new ProductDocumentController(productDocumentService);
+ * router.get('/products/:productId/documents', productDocumentController.getDocuments);
+ *
+ * @dependencies
+ * - `ProductDocumentService`
+ * - Express Request/Response
+ */
+
+import { Request, Response } from "express";
+import { Language, ProductDocumentType } from "@prisma/client";
+import {
+    DocumentFileInput,
+    ProductDocumentService,
+} from "../services/product-document.service";
+import { deleteUploadedDocument } from "../utils/upload";
+import { getClientIp, handleError } from "../utils/http-helper";
+
+export class ProductDocumentController {
+    constructor(private productDocumentService: ProductDocumentService) {}
+
+    /**
+     * Endpoint: GET /products/:productId/documents
+     * Ambil daftar dokumen aktif produk
+     */
+    getDocuments = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { productId } = req.params;
+            const { type, language } = req.query;
+
+            if (type && !this.isDocumentType(type)) {
+                res.status(400).json({ error: "Invalid document type" });
+                return;
+            }
+            if (language && !this.isLanguage(language)) {
+                res.status(400).json({ error: "Invalid language" });
+                return;
+            }
+
+            const documents = await this.productDocumentService.list(
+                productId,
+                {
+                    type: type as ProductDocumentType | undefined,
+                    language: language as Language | undefined,
+                }
+            );
+
+            res.status(200).json({ data: documents });
+        } catch (error) {
+            handleError(res, error, "Failed to fetch product documents");
+        }
+    };
+
+    /**
+     * Endpoint: GET /products/:productId/documents/all
+     * Ambil semua dokumen produk termasuk yang nonaktif (admin)
+     */
+    getAllDocuments = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { productId } = req.params;
+            const documents = await this.productDocumentService.list(
+                productId,
+                { includeInactive: true }
+            );
+
+            res.status(200).json({ data: documents });
+        } catch (error) {
+            handleError(res, error, "Failed to fetch product documents");
+        }
+    };
+
+    /**
+     * Endpoint: GET /products/:productId/documents/:documentId/download
+     * Download dokumen (jumlah download bertambah)
+     */
+    downloadDocument = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { productId, documentId } = req.params;
+            const result = await this.productDocumentService.registerDownload(
+                productId,
+                documentId
+            );
+
+            if (!result) {
+                res.status(404).json({ error: "Document not found" });
+                return;
+            }
+
+            res.download(result.filePath, result.document.fileName, (err) => {
+                if (err && !res.headersSent) {
+                    res.status(404).json({ error: "Document file not found" });
+                }
+            });
+        } catch (error) {
+            handleError(res, error, "Failed to download document");
+        }
+    };
+
+    /**
+     * Endpoint: POST /products/:productId/documents
+     * Upload dokumen baru (field file: `file`)
+     */
+    createDocument = async (req: Request, res: Response): Promise<void> => {
+        const file = this.getUploadedFile(req);
+        try {
+            const { productId } = req.params;
+            const { type, language, title, version, isActive } = req.body;
+
+            if (!file) {
+                res.status(400).json({ error: "Document file is required" });
+                return;
+            }
+            if (!type || !title) {
+                deleteUploadedDocument(file.storedName);
+                res.status(400).json({ error: "Type and title are required" });
+                return;
+            }
+            if (!this.isDocumentType(type)) {
+                deleteUploadedDocument(file.storedName);
+                res.status(400).json({ error: "Invalid document type" });
+                return;
+            }
+            if (language && !this.isLanguage(language)) {
+                deleteUploadedDocument(file.storedName);
+                res.status(400).json({ error: "Invalid language" });
+                return;
+            }
+
+            const document = await this.productDocumentService.create({
+                productId,
+                type,
+                language: language || null,
+                title,
+                version: version || null,
+                isActive:
+                    isActive === undefined
+                        ? true
+                        : this.parseBoolean(isActive),
+                file,
+                createdBy: req.user!.id,
+                ipAddress: getClientIp(req),
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(201).json(document);
+        } catch (error) {
+            handleError(res, error, "Failed to upload document", 400);
+        }
+    };
+
+    /**
+     * Endpoint: PUT /products/:productId/documents/:documentId
+     * Update metadata dokumen (opsional ganti file)
+     */
+    updateDocument = async (req: Request, res: Response): Promise<void> => {
+        const file = this.getUploadedFile(req);
+        try {
+            const { productId, documentId } = req.params;
+            const { type, language, title, version, isActive } = req.body;
+
+            if (type !== undefined && !this.isDocumentType(type)) {
+                if (file) deleteUploadedDocument(file.storedName);
+                res.status(400).json({ error: "Invalid document type" });
+                return;
+            }
+            if (language && !this.isLanguage(language)) {
+                if (file) deleteUploadedDocument(file.storedName);
+                res.status(400).json({ error: "Invalid language" });
+                return;
+            }
+
+            const document = await this.productDocumentService.update({
+                productId,
+                id: documentId,
+                type,
+                language: language === undefined ? undefined : language || null,
+                title: title || undefined,
+                version: version === undefined ? undefined : version || null,
+                isActive:
+                    isActive === undefined
+                        ? undefined
+                        : this.parseBoolean(isActive),
+                file: file ?? undefined,
+                updatedBy: req.user!.id,
+                ipAddress: getClientIp(req),
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(200).json(document);
+        } catch (error) {
+            handleError(res, error, "Failed to update document", 400);
+        }
+    };
+
+    /**
+     * Endpoint: DELETE /products/:productId/documents/:documentId
+     * Hapus dokumen beserta filenya
+     */
+    deleteDocument = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { productId, documentId } = req.params;
+
+            await this.productDocumentService.delete({
+                productId,
+                id: documentId,
+                deletedBy: req.user!.id,
+                ipAddress: getClientIp(req),
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(204).end();
+        } catch (error) {
+            handleError(res, error, "Failed to delete document", 400);
+        }
+    };
+
+    // Helper methods
+    private getUploadedFile(req: Request): DocumentFileInput | null {
+        if (!req.file) return null;
+        return {
+            storedName: req.file.filename,
+            fileName: req.file.originalname,
+            mimeType: req.file.mimetype,
+            size: req.file.size,
+        };
+    }
+
+    private parseBoolean(value: unknown): boolean {
+        return value === "true" || value === "1" || value === true;
+    }
+
+    private isDocumentType(value: unknown): value is ProductDocumentType {
+        return Object.values(ProductDocumentType).includes(
+            value as ProductDocumentType
+        );
+    }
+
+    private isLanguage(value: unknown): value is Language {
+        return Object.values(Language).includes(value as Language);
+    }
+}
@@ -0,0 +1,154 @@
+/**
+ * @file ProductRelationController – Antarmuka HTTP untuk relasi antar produk
+ * @description
+ * Controller class-based untuk cross-reference produk:
+ * - List relasi produk (opsional filter `?type=ACCESSORY`)
+ * - Tambah relasi (relasi kebalikan dibuat otomatis)
+ * - Ubah urutan dan hapus relasi
+ *
+ * @security
+ * - Endpoint yang mengubah data memerlukan autentikasi
+ * - Permission checking dilakukan di middleware
+ *
+ * @usage
+ * const productRelationController = new ProductRelationController(productRelationService, sortOrderService);
+ * router.get('/products/:productId/relations', productRelationController.getRelations);
+ *
+ * @dependencies
+ * - `ProductRelationService`, `SortOrderService`
+ * - Express Request/Response
+ */
+
+import { Request, Response } from "express";
+import { ProductRelationType } from "@prisma/client";
+import { ProductRelationService } from "../services/product-relation.service";
+import { SortOrderService } from "../services/sort-order.service";
+import { getClientIp, handleError } from "../utils/http-helper";
+
+export class ProductRelationController {
+    constructor(
+        private productRelationService: ProductRelationService,
+        private sortOrderService: SortOrderService
+    ) {}
+
+    /**
+     * Endpoint: GET /products/:productId/relations
+     * Ambil daftar relasi produk
+     */
+    getRelations = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { productId } = req.params;
+            const { type } = req.query;
+
+            if (type && !this.isRelationType(type)) {
+                res.status(400).json({ error: "Invalid relation type" });
+                return;
+            }
+
+            const relations = await this.productRelationService.list(
+                productId,
+                type as ProductRelationType | undefined
+            );
+
+            res.status(200).json({ data: relations });
+        } catch (error) {
+            handleError(res, error, "Failed to fetch product relations");
+        }
+    };
+
+    /**
+     * Endpoint: POST /products/:productId/relations
+     * Tambah relasi produk
+     */
+    createRelation = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { productId } = req.params;
+            const { relatedProductId, type, sortOrder } = req.body;
+
+            if (!relatedProductId || !type) {
+                res.status(400).json({
+                    error: "relatedProductId and type are required",
+                });
+                return;
+            }
+            if (!this.isRelationType(type)) {
+                res.status(400).json({ error: "Invalid relation type" });
+                return;
+            }
+
+            const relation = await this.productRelationService.create({
+                productId,
+                relatedProductId,
+                type,
+                sortOrder: this.sortOrderService.parse(sortOrder),
+                createdBy: req.user!.id,
+                ipAddress: getClientIp(req),
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(201).json(relation);
+        } catch (error) {
+            handleError(res, error, "Failed to create product relation", 400);
+        }
+    };
+
+    /**
+     * Endpoint: PUT /products/:productId/relations/:relationId
+     * Ubah urutan relasi
+     */
+    updateRelation = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { productId, relationId } = req.params;
+            const sortOrder = this.sortOrderService.parse(req.body.sortOrder);
+
+            if (sortOrder < 1) {
+                res.status(400).json({
+                    error: "sortOrder must be a positive integer",
+                });
+                return;
+            }
+
+            const relation = await this.productRelationService.update({
+                productId,
+                relationId,
+                sortOrder,
+                updatedBy: req.user!.id,
+                ipAddress: getClientIp(req),
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(200).json(relation);
+        } catch (error) {
+            handleError(res, error, "Failed to update product relation", 400);
+        }
+    };
+
+    /**
+     * Endpoint: DELETE /products/:productId/relations/:relationId
+     * Hapus relasi (beserta relasi kebalikannya)
+     */
+    deleteRelation = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { productId, relationId } = req.params;
+
+            await this.productRelationService.delete({
+                productId,
+                relationId,
+                deletedBy: req.user!.id,
+                ipAddress: getClientIp(req),
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(204).end();
+        } catch (error) {
+            handleError(res, error, "Failed to delete product relation", 400);
+        }
+    };
+
+    // Helper methods
+    private isRelationType(value: unknown): value is ProductRelationType {
+        return Object.values(ProductRelationType).includes(
+            value as ProductRelationType
+        );
+    }
+}
@@ -0,0 +1,275 @@
+/**
+ * @file ProductRevisionController – Antarmuka HTTP untuk revisi & draft produk
+ * @description
+ * Controller class-based untuk riwayat revisi produk:
+ * - List dan detail revisi (snapshot produk + terjemahan + gambar)
+ * - Simpan/buang draft tanpa mengubah versi live
+ * - Publish draft dan rollback ke revisi sebelumnya
+ * - Diff per field antara dua revisi
+ *
+ * @security
+ * - Semua endpoint memerlukan autentikasi
+ * - Permission checking dilakukan di middleware
+ *
+ * @usage
+ * const productRevisionController = new ProductRevisionController(productService, productRevisionService, slugService);
+ * router.get('/products/:productId/revisions', productRevisionController.getRevisions);
+ *
+ * @dependencies
+ * - `ProductService`, `ProductRevisionService`, `SlugService`
+ * - Express Request/Response
+ */
+
+import { Request, Response } from "express";
+import { Language } from "@prisma/client";
+import { ProductService, TranslationInput } from "../services/product.service";
+import { ProductRevisionService } from "../services/product-revision.service";
+import { SlugService } from "../services/slug.service";
+import { getClientIp, handleError } from "../utils/http-helper";
+
+export class ProductRevisionController {
+    constructor(
+        private productService: ProductService,
+        private productRevisionService: ProductRevisionService,
+        private slugService: SlugService
+    ) {}
+
+    /**
+     * Endpoint: GET /products/:productId/revisions
+     * Ambil daftar revisi produk (draft di urutan pertama)
+     */
+    getRevisions = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { productId } = req.params;
+            const revisions = await this.productRevisionService.list(
+                productId
+            );
+
+            res.status(200).json({ data: revisions });
+        } catch (error) {
+            handleError(res, error, "Failed to fetch product revisions");
+        }
+    };
+
+    /**
+     * Endpoint: GET /products/:productId/revisions/diff?base=...&compare=...
+     * Diff per field antara dua revisi
+     */
+    getDiff = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { productId } = req.params;
+            const { base, compare } = req.query;
+
+            if (!base || !compare) {
+                res.status(400).json({
+                    error: "base and compare revision IDs are required",
+                });
+                return;
+            }
+
+            const diff = await this.productRevisionService.diff(
+                productId,
+                String(base),
+                String(compare)
+            );
+
+            res.status(200).json(diff);
+        } catch (error) {
+            handleError(res, error, "Failed to compare revisions", 400);
+        }
+    };
+
+    /**
+     * Endpoint: GET /products/:productId/revisions/:revisionId
+     * Ambil detail revisi beserta snapshot
+     */
+    getRevision = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { productId, revisionId } = req.params;
+            const revision = await this.productRevisionService.findById(
+                productId,
+                revisionId
+            );
+
+            if (!revision) {
+                res.status(404).json({ error: "Revision not found" });
+                return;
+            }
+
+            res.status(200).json(revision);
+        } catch (error) {
+            handleError(res, error, "Failed to fetch product revision");
+        }
+    };
+
+    /**
+     * Endpoint: PUT /products/:productId/draft
+     * Simpan draft (payload sama dengan update produk, + `note`)
+     */
+    saveDraft = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { productId } = req.params;
+            const {
+                sku,
+                name,
+                categoryId,
+                brandId,
+                isActive: isActiveRaw,
+                isFeatured: isFeaturedRaw,
+                translations: translationsRaw,
+                note,
+            } = req.body;
+
+            if (!name || !categoryId || !brandId) {
+                res.status(400).json({
+                    error: "Name, category, and brand are required",
+                });
+                return;
+            }
+
+            // Gambar: existing di body + upload baru
+            let imageUrls: string[] = [];
+            if (req.body.images) {
+                try {
+                    imageUrls =
+                        typeof req.body.images === "string"
+                            ? JSON.parse(req.body.images)
+                            : Array.isArray(req.body.images)
+                            ? req.body.images
+                            : [];
+                } catch (e) {
+                    // Ignore parsing error, use empty array
+                }
+            }
+            const uploadedImages = Array.isArray(req.files)
+                ? req.files.map((file) => `/uploads/products/${file.filename}`)
+                : [];
+            imageUrls = [...imageUrls, ...uploadedImages];
+
+            const translations = this.parseTranslations(translationsRaw);
+            if (translations === null) {
+                res.status(400).json({
+                    error: "Invalid translations: each item needs a valid language",
+                });
+                return;
+            }
+
+            const draft = await this.productRevisionService.saveDraft({
+                productId,
+                snapshot: {
+                    slug: req.body.slug || this.slugService.generate(name),
+                    sku: sku || null,
+                    name,
+                    categoryId,
+                    brandId,
+                    images: imageUrls,
+                    isActive: this.parseBoolean(isActiveRaw),
+                    isFeatured: this.parseBoolean(isFeaturedRaw),
+                    translations,
+                },
+                uploadedImages,
+                note: note || null,
+                savedBy: req.user!.id,
+                ipAddress: getClientIp(req),
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(200).json(draft);
+        } catch (error) {
+            handleError(res, error, "Failed to save product draft", 400);
+        }
+    };
+
+    /**
+     * Endpoint: DELETE /products/:productId/draft
+     * Buang draft produk
+     */
+    discardDraft = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { productId } = req.params;
+
+            await this.productRevisionService.discardDraft({
+                productId,
+                deletedBy: req.user!.id,
+                ipAddress: getClientIp(req),
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(204).end();
+        } catch (error) {
+            handleError(res, error, "Failed to discard product draft", 400);
+        }
+    };
+
+    /**
+     * Endpoint: POST /products/:productId/draft/publish
+     * Publish draft menjadi versi live
+     */
+    publishDraft = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { productId } = req.params;
+
+            const product = await this.productService.publishDraft({
+                productId,
+                publishedBy: req.user!.id,
+                ipAddress: getClientIp(req),
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(200).json(product);
+        } catch (error) {
+            handleError(res, error, "Failed to publish product draft", 400);
+        }
+    };
+
+    /**
+     * Endpoint: POST /products/:productId/revisions/:revisionId/rollback
+     * Kembalikan produk ke revisi yang pernah tayang
+     */
+    rollback = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { productId, revisionId } = req.params;
+
+            const product = await this.productService.rollback({
+                productId,
+                revisionId,
+                rolledBackBy: req.user!.id,
+                ipAddress: getClientIp(req),
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(200).json(product);
+        } catch (error) {
+            handleError(res, error, "Failed to roll back product", 400);
+        }
+    };
+
+    // Helper methods
+    private parseBoolean(value: unknown): boolean {
+        return value === "true" || value === "1" || value === true;
+    }
+
+    /**
+     * Parse `translations` (array JSON atau string JSON form-data)
+     * @returns Daftar terjemahan, null jika tidak valid
+     */
+    private parseTranslations(value: unknown): TranslationInput[] | null {
+        if (value === undefined || value === "") return [];
+
+        let parsed: unknown;
+        try {
+            parsed = typeof value === "string" ? JSON.parse(value) : value;
+        } catch {
+            return null;
+        }
+
+        if (!Array.isArray(parsed)) return null;
+        const valid = parsed.every(
+            (t) =>
+                t &&
+                typeof t === "object" &&
+                Object.values(Language).includes(t.language)
+        );
+        return valid ? (parsed as TranslationInput[]) : null;
+    }
+}
@@ -5,7 +5,11 @@
  * - CRUD produk (termasuk soft/hard delete dan restore)
  * - Manajemen gambar produk (multi-upload)
  * - Manajemen terjemahan produk (multi-bahasa)
+ * - Nilai spesifikasi terstruktur, filter `spec.<key>`, facet, dan sorting atribut
+ * - Varian produk (SKU/part number per varian) pada create/update
  * - Ekspor data ke Excel dan PDF
+ * - Import produk massal dari Excel/CSV (dengan dry-run)
+ * - Datasheet PDF per produk per bahasa (cache + ETag)
  *
  * @security
  * - Semua endpoint yang mengubah data memerlukan autentikasi
@@ -13,20 +17,31 @@
  * - Validasi input ketat untuk SKU, slug, dan terjemahan
  *
  * @usage
- * const productController = new ProductController(productService, slugService, sortOrderService, exportService);
+ * const productController = new ProductController(productService, slugService, sortOrderService, exportService, productImportService, datasheetService);
  * router.get('/products', productController.getProducts);
  *
  * @dependencies
  * - `ProductService`, `SlugService`, `SortOrderService`, `ExportService`
+ * - `ProductImportService`, `DatasheetService`
  * - Express Request/Response
  */
 
 import { Request, Response } from "express";
 import { Language } from "@prisma/client";
-import { ProductService } from "../services/product.service";
+import {
+    ProductService,
+    VariantInput,
+} from "../services/product.service";
+import {
+    SPEC_QUERY_PREFIX,
+    SpecQueryError,
+    SpecValuesInput,
+} from "../services/spec-attribute.service";
 import { SlugService } from "../services/slug.service";
 import { SortOrderService } from "../services/sort-order.service";
 import { ExportService } from "../services/reporting/export.service";
+import { ProductImportService } from "../services/product-import.service";
+import { DatasheetService } from "../services/reporting/datasheet.service";
 import { getClientIp, handleError } from "../utils/http-helper";
 
 export interface ProductTranslationInput {
@@ -45,7 +60,9 @@ export class ProductController {
         private productService: ProductService,
         private slugService: SlugService,
         private sortOrderService: SortOrderService,
-        private exportService: ExportService
+        private exportService: ExportService,
+        private productImportService: ProductImportService,
+        private datasheetService: DatasheetService
     ) {}
 
     /**
@@ -57,6 +74,8 @@ export class ProductController {
             const {
                 brands,
                 categories,
+                sort,
+                facets,
                 deleted,
                 active,
                 page = "1",
@@ -67,6 +86,9 @@ export class ProductController {
             const result = await this.productService.list({
                 brands: brands ? String(brands) : undefined,
                 categories: categories ? String(categories) : undefined,
+                specs: this.extractSpecFilters(req.query),
+                sort: sort ? String(sort) : undefined,
+                facets: facets === "true",
                 deleted: deleted === "true",
                 active: active === "true",
                 page: parseInt(page as string, 10),
@@ -76,6 +98,10 @@ export class ProductController {
 
             res.status(200).json(result);
         } catch (error) {
+            if (error instanceof SpecQueryError) {
+                handleError(res, error, "Invalid product filter", 400);
+                return;
+            }
             handleError(res, error, "Failed to fetch products");
         }
     };
@@ -100,6 +126,51 @@ export class ProductController {
         }
     };
 
+    /**
+     * Endpoint: GET /products/:id/datasheet.pdf?lang=EN
+     * Datasheet PDF produk (default bahasa ID)
+     */
+    getDatasheet = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const lang = String(req.query.lang || "ID").toUpperCase();
+
+            if (!Object.values(Language).includes(lang as Language)) {
+                res.status(400).json({ error: "Invalid language" });
+                return;
+            }
+
+            const datasheet = await this.datasheetService.getDatasheet(
+                id,
+                lang as Language
+            );
+            if (!datasheet) {
+                res.status(404).json({ error: "Product not found" });
+                return;
+            }
+
+            const etag = `"${datasheet.etag}"`;
+            res.setHeader("ETag", etag);
+            res.setHeader(
+                "Cache-Control",
+                "public, max-age=0, must-revalidate"
+            );
+            if (req.get("If-None-Match") === etag) {
+                res.status(304).end();
+                return;
+            }
+
+            res.setHeader("Content-Type", "application/pdf");
+            res.setHeader(
+                "Content-Disposition",
+                `inline; filename="${datasheet.filename}"`
+            );
+            res.status(200).send(datasheet.pdf);
+        } catch (error) {
+            handleError(res, error, "Failed to generate datasheet");
+        }
+    };
+
     /**
      * Endpoint: POST /products
      * Buat produk baru
@@ -116,6 +187,8 @@ export class ProductController {
                 isFeatured: isFeaturedRaw = "false",
                 translations: translationsString,
                 sortOrder: sortOrderRaw,
+                specs: specsRaw,
+                variants: variantsRaw,
             } = req.body;
 
             if (!name || !categoryId || !brandId) {
@@ -167,6 +240,24 @@ export class ProductController {
                 }
             }
 
+            // Parse nilai spesifikasi
+            const specs = this.parseSpecs(specsRaw);
+            if (specs === null) {
+                res.status(400).json({
+                    error: "Invalid JSON format for specs",
+                });
+                return;
+            }
+
+            // Parse varian
+            const variants = this.parseVariants(variantsRaw);
+            if (variants === null) {
+                res.status(400).json({
+                    error: "Invalid JSON format for variants",
+                });
+                return;
+            }
+
             // Generate slug
             const slug = providedSlug || this.slugService.generate(name);
 
@@ -183,6 +274,9 @@ export class ProductController {
                     sortOrder,
                 },
                 translations,
+                specs,
+                variants,
+                uploadedImages: imageUrls,
                 createdBy: req.user!.id,
                 ipAddress: getClientIp(req),
                 userAgent: req.get("User-Agent") || "",
@@ -210,6 +304,8 @@ export class ProductController {
                 isFeatured: isFeaturedRaw,
                 sortOrder: sortOrderRaw,
                 translations: translationsString,
+                specs: specsRaw,
+                variants: variantsRaw,
             } = req.body;
 
             if (!name || !categoryId || !brandId) {
@@ -250,12 +346,10 @@ export class ProductController {
             }
 
             // Dari upload file
-            if (Array.isArray(req.files) && req.files.length > 0) {
-                const newImageUrls = req.files.map(
-                    (file) => `/uploads/products/${file.filename}`
-                );
-                imageUrls = [...imageUrls, ...newImageUrls];
-            }
+            const newImageUrls = Array.isArray(req.files)
+                ? req.files.map((file) => `/uploads/products/${file.filename}`)
+                : [];
+            imageUrls = [...imageUrls, ...newImageUrls];
 
             // Parse translations
             let translations: ProductTranslationInput[] = [];
@@ -286,6 +380,24 @@ export class ProductController {
                 }
             }
 
+            // Parse nilai spesifikasi
+            const specs = this.parseSpecs(specsRaw);
+            if (specs === null) {
+                res.status(400).json({
+                    error: "Invalid JSON format for specs",
+                });
+                return;
+            }
+
+            // Parse varian
+            const variants = this.parseVariants(variantsRaw);
+            if (variants === null) {
+                res.status(400).json({
+                    error: "Invalid JSON format for variants",
+                });
+                return;
+            }
+
             // Generate slug
             const slug = req.body.slug || this.slugService.generate(name);
 
@@ -303,6 +415,9 @@ export class ProductController {
                     sortOrder,
                 },
                 translations,
+                specs,
+                variants,
+                uploadedImages: newImageUrls,
                 updatedBy: req.user!.id,
                 ipAddress: getClientIp(req),
                 userAgent: req.get("User-Agent") || "",
@@ -379,12 +494,32 @@ export class ProductController {
                     : "",
             }));
 
+            const variantRows = (products.data || []).flatMap((item) =>
+                item.variants.map((variant) => ({
+                    Product: item.name,
+                    SKU: variant.sku,
+                    Variant: variant.name,
+                    Specifications: variant.specifications
+                        ? JSON.stringify(variant.specifications)
+                        : "",
+                    "Is Active": variant.isActive,
+                }))
+            );
+
             const sheets = [
                 {
                     name: "Products",
                     headers: rows.length > 0 ? Object.keys(rows[0]) : [],
                     rows,
                 },
+                {
+                    name: "Variants",
+                    headers:
+                        variantRows.length > 0
+                            ? Object.keys(variantRows[0])
+                            : [],
+                    rows: variantRows,
+                },
             ];
 
             await this.exportService.toExcel(sheets, "products-report", res);
@@ -410,6 +545,7 @@ export class ProductController {
                 SKU: item.sku || "",
                 Category: item.category?.name || "",
                 Brand: item.brand?.name || "",
+                Variants: item.variants.map((v) => v.sku).join(", "),
                 "Is Active": item.isActive,
                 "Created At": item.createdAt
                     ? item.createdAt.toISOString().split("T")[0]
@@ -426,4 +562,107 @@ export class ProductController {
             handleError(res, error, "Export to PDF failed");
         }
     };
+
+    /**
+     * Endpoint: POST /products/import
+     * Import produk dari file .xlsx/.csv (field `file`)
+     * - `?dryRun=true` → hanya validasi, tidak ada data yang disimpan
+     * - Commit ditolak (422) jika ada baris yang tidak valid
+     */
+    importProducts = async (req: Request, res: Response): Promise<void> => {
+        try {
+            if (!req.file) {
+                res.status(400).json({ error: "Import file is required" });
+                return;
+            }
+
+            const dryRunRaw = req.query.dryRun ?? req.body.dryRun;
+            const dryRun = dryRunRaw === "true" || dryRunRaw === "1";
+
+            const result = await this.productImportService.import({
+                file: req.file.buffer,
+                filename: req.file.originalname,
+                dryRun,
+                createdBy: req.user!.id,
+                ipAddress: getClientIp(req),
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            if (!dryRun && !result.committed) {
+                res.status(422).json({
+                    error: "Import contains invalid rows, nothing was saved",
+                    ...result,
+                });
+                return;
+            }
+
+            res.status(result.committed ? 201 : 200).json(result);
+        } catch (error) {
+            handleError(res, error, "Failed to import products", 400);
+        }
+    };
+
+    // Helper methods
+    /**
+     * Ambil filter spesifikasi dari query `spec.<key>=...`
+     * (parameter berulang digabung sebagai multi-value)
+     */
+    private extractSpecFilters(
+        query: Request["query"]
+    ): Record<string, string> {
+        const specs: Record<string, string> = {};
+        for (const [key, value] of Object.entries(query)) {
+            if (!key.startsWith(SPEC_QUERY_PREFIX) || value === undefined) {
+                continue;
+            }
+            specs[key.slice(SPEC_QUERY_PREFIX.length)] = Array.isArray(value)
+                ? value.map(String).join(",")
+                : String(value);
+        }
+        return specs;
+    }
+
+    /**
+     * Parse `specs` dari body (objek JSON atau string JSON form-data)
+     * @returns Nilai per key atribut, undefined jika tidak dikirim, null jika tidak valid
+     */
+    private parseSpecs(value: unknown): SpecValuesInput | null | undefined {
+        if (value === undefined || value === "") return undefined;
+
+        let parsed: unknown;
+        try {
+            parsed = typeof value === "string" ? JSON.parse(value) : value;
+        } catch {
+            return null;
+        }
+
+        return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+            ? (parsed as SpecValuesInput)
+            : null;
+    }
+
+    /**
+     * Parse `variants` dari body (array JSON atau string JSON form-data)
+     * @returns Daftar varian, undefined jika tidak dikirim, null jika tidak valid
+     */
+    private parseVariants(value: unknown): VariantInput[] | null | undefined {
+        if (value === undefined || value === "") return undefined;
+
+        let parsed: unknown;
+        try {
+            parsed = typeof value === "string" ? JSON.parse(value) : value;
+        } catch {
+            return null;
+        }
+
+        if (!Array.isArray(parsed)) return null;
+        const valid = parsed.every(
+            (item) =>
+                item &&
+                typeof item === "object" &&
+                typeof item.sku === "string" &&
+                typeof item.name === "string"
+        );
+        return valid ? (parsed as VariantInput[]) : null;
+    }
 }
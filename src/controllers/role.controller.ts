@@ -3,6 +3,8 @@
  * @description
  * Controller class-based untuk mengelola operasi role melalui API:
  * - List, detail, create, update, delete (soft & hard)
+ * - Katalog permission yang valid (registry) dan metrik cache permission
+ * - Template role bawaan, clone role, dan diff permission antar role
  * - Integrasi otomatis dengan RoleService dan AuditService
  *
  * @security
@@ -47,6 +49,38 @@ export class RoleController {
         }
     };
 
+    /**
+     * Endpoint: GET /roles/permissions
+     * Ambil katalog permission yang valid, dikelompokkan per resource
+     */
+    getPermissionCatalog = async (
+        req: Request,
+        res: Response
+    ): Promise<void> => {
+        try {
+            res.status(200).json({
+                data: this.roleService.getPermissionCatalog(),
+            });
+        } catch (error) {
+            handleError(res, error, "Failed to fetch permission catalog");
+        }
+    };
+
+    /**
+     * Endpoint: GET /roles/permissions/cache
+     * Ambil metrik cache permission (monitoring)
+     */
+    getPermissionCacheMetrics = async (
+        req: Request,
+        res: Response
+    ): Promise<void> => {
+        try {
+            res.status(200).json(this.roleService.getPermissionCacheMetrics());
+        } catch (error) {
+            handleError(res, error, "Failed to fetch permission cache metrics");
+        }
+    };
+
     /**
      * Endpoint: GET /roles/:id
      * Ambil detail role berdasarkan ID
@@ -73,7 +107,8 @@ export class RoleController {
      */
     createRole = async (req: Request, res: Response): Promise<void> => {
         try {
-            const { name, description, permissions } = req.body;
+            const { name, description, permissions, requireTwoFactor } =
+                req.body;
 
             if (!name || typeof name !== "string" || name.trim().length === 0) {
                 res.status(400).json({
@@ -86,6 +121,7 @@ export class RoleController {
                 name: name.trim(),
                 description: description || null,
                 permissions: permissions || [],
+                requireTwoFactor: requireTwoFactor === true,
                 createdBy: req.user!.id,
                 ipAddress: req.ip || "",
                 userAgent: req.get("User-Agent") || "",
@@ -104,7 +140,8 @@ export class RoleController {
     updateRole = async (req: Request, res: Response): Promise<void> => {
         try {
             const { id } = req.params;
-            const { name, description, permissions } = req.body;
+            const { name, description, permissions, requireTwoFactor } =
+                req.body;
 
             if (!name || typeof name !== "string" || name.trim().length === 0) {
                 res.status(400).json({
@@ -118,6 +155,10 @@ export class RoleController {
                 name: name.trim(),
                 description: description || null,
                 permissions: permissions || [],
+                requireTwoFactor:
+                    typeof requireTwoFactor === "boolean"
+                        ? requireTwoFactor
+                        : undefined,
                 updatedBy: req.user!.id,
                 ipAddress: req.ip || "",
                 userAgent: req.get("User-Agent") || "",
@@ -129,6 +170,96 @@ export class RoleController {
         }
     };
 
+    /**
+     * Endpoint: GET /roles/templates
+     * Ambil daftar template role bawaan
+     */
+    getTemplates = async (req: Request, res: Response): Promise<void> => {
+        try {
+            res.status(200).json({ data: this.roleService.getTemplates() });
+        } catch (error) {
+            handleError(res, error, "Failed to fetch role templates");
+        }
+    };
+
+    /**
+     * Endpoint: POST /roles/templates/:key
+     * Buat role baru dari template bawaan
+     */
+    createRoleFromTemplate = async (
+        req: Request,
+        res: Response
+    ): Promise<void> => {
+        try {
+            const { key } = req.params;
+            const { name, description } = req.body ?? {};
+
+            if (name !== undefined && typeof name !== "string") {
+                res.status(400).json({ error: "Role name must be a string" });
+                return;
+            }
+
+            const role = await this.roleService.createFromTemplate({
+                templateKey: key,
+                name,
+                description,
+                createdBy: req.user!.id,
+                ipAddress: req.ip || "",
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(201).json(role);
+        } catch (error) {
+            handleError(res, error, "Failed to create role from template", 400);
+        }
+    };
+
+    /**
+     * Endpoint: POST /roles/:id/clone
+     * Clone role (termasuk role sistem) dengan nama baru
+     */
+    cloneRole = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const { name, description } = req.body ?? {};
+
+            if (!name || typeof name !== "string" || name.trim().length === 0) {
+                res.status(400).json({
+                    error: "Role name is required and must be a non-empty string",
+                });
+                return;
+            }
+
+            const role = await this.roleService.clone({
+                id,
+                name: name.trim(),
+                description,
+                createdBy: req.user!.id,
+                ipAddress: req.ip || "",
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(201).json(role);
+        } catch (error) {
+            handleError(res, error, "Failed to clone role", 400);
+        }
+    };
+
+    /**
+     * Endpoint: GET /roles/:id/diff/:otherId
+     * Bandingkan permission dua role
+     */
+    diffRoles = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { id, otherId } = req.params;
+            const diff = await this.roleService.diff(id, otherId);
+
+            res.status(200).json(diff);
+        } catch (error) {
+            handleError(res, error, "Failed to compare roles", 404);
+        }
+    };
+
     /**
      * Endpoint: DELETE /roles/:id
      * Soft delete role
@@ -0,0 +1,87 @@
+/**
+ * @file SearchController – Antarmuka HTTP untuk pencarian terpadu
+ * @description
+ * Controller class-based untuk pencarian full-text lintas konten:
+ * - Produk, blog, dan brand dalam satu hasil terurut relevansi
+ * - Filter tipe konten (`types`) dan bahasa terjemahan (`lang`)
+ *
+ * @security
+ * - Endpoint publik, hanya mengembalikan konten yang dipublikasikan
+ * - Validasi query (panjang, bahasa, tipe) di level controller/service
+ *
+ * @usage
+ * const searchController = new SearchController(searchService);
+ * router.get('/search', searchController.search);
+ *
+ * @dependencies
+ * - `SearchService`
+ * - Express Request/Response
+ */
+
+import { Request, Response } from "express";
+import { Language } from "@prisma/client";
+import {
+    SEARCH_TYPES,
+    SearchQueryError,
+    SearchService,
+    SearchType,
+} from "../services/search.service";
+import { handleError } from "../utils/http-helper";
+
+export class SearchController {
+    constructor(private searchService: SearchService) {}
+
+    /**
+     * Endpoint: GET /search?q=&lang=&types=&limit=
+     * Cari produk, blog, dan brand
+     */
+    search = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { q, lang, types, limit = "20" } = req.query;
+
+            if (!q || typeof q !== "string") {
+                res.status(400).json({
+                    error: "Query parameter q is required",
+                });
+                return;
+            }
+
+            const language = lang ? String(lang).toUpperCase() : Language.ID;
+            if (!Object.values(Language).includes(language as Language)) {
+                res.status(400).json({ error: "Invalid language" });
+                return;
+            }
+
+            const typeList = types
+                ? String(types)
+                      .split(",")
+                      .map((type) => type.trim())
+                      .filter(Boolean)
+                : [];
+            const invalidType = typeList.find(
+                (type) => !SEARCH_TYPES.includes(type as SearchType)
+            );
+            if (invalidType) {
+                res.status(400).json({
+                    error: `Invalid type "${invalidType}". Allowed: ${SEARCH_TYPES.join(", ")}`,
+                });
+                return;
+            }
+
+            const result = await this.searchService.search({
+                q,
+                lang: language as Language,
+                types: typeList as SearchType[],
+                limit: parseInt(limit as string, 10) || undefined,
+            });
+
+            res.status(200).json(result);
+        } catch (error) {
+            if (error instanceof SearchQueryError) {
+                handleError(res, error, "Invalid search query", 400);
+                return;
+            }
+            handleError(res, error, "Search failed");
+        }
+    };
+}
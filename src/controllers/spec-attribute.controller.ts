@@ -0,0 +1,205 @@
+/**
+ * @file SpecAttributeController – Antarmuka HTTP untuk atribut spesifikasi produk
+ * @description
+ * Controller class-based untuk mengelola definisi atribut spesifikasi per kategori:
+ * - List atribut (opsional termasuk atribut warisan kategori induk)
+ * - Create, update, delete atribut (tipe, satuan, pilihan nilai, filterable)
+ *
+ * @security
+ * - Semua endpoint yang mengubah data memerlukan autentikasi
+ * - Permission checking dilakukan di middleware
+ * - Validasi key, tipe, dan pilihan nilai dilakukan di `SpecAttributeService`
+ *
+ * @usage
+ * const specAttributeController = new SpecAttributeController(specAttributeService, sortOrderService);
+ * router.get('/spec-attributes', specAttributeController.getAttributes);
+ *
+ * @dependencies
+ * - `SpecAttributeService`, `SortOrderService`
+ * - Express Request/Response
+ */
+
+import { Request, Response } from "express";
+import { SpecAttributeService } from "../services/spec-attribute.service";
+import { SortOrderService } from "../services/sort-order.service";
+import { getClientIp, handleError } from "../utils/http-helper";
+
+export class SpecAttributeController {
+    constructor(
+        private specAttributeService: SpecAttributeService,
+        private sortOrderService: SortOrderService
+    ) {}
+
+    /**
+     * Endpoint: GET /spec-attributes
+     * Ambil daftar atribut (`?categoryId=...&inherited=true`)
+     */
+    getAttributes = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { categoryId, inherited } = req.query;
+
+            const attributes = await this.specAttributeService.list({
+                categoryId: categoryId ? String(categoryId) : undefined,
+                inherited: inherited === "true",
+            });
+
+            res.status(200).json({ data: attributes });
+        } catch (error) {
+            handleError(res, error, "Failed to fetch specification attributes");
+        }
+    };
+
+    /**
+     * Endpoint: GET /spec-attributes/:id
+     * Ambil detail atribut berdasarkan ID
+     */
+    getAttribute = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const attribute = await this.specAttributeService.findById(id);
+
+            if (!attribute) {
+                res.status(404).json({
+                    error: "Specification attribute not found",
+                });
+                return;
+            }
+
+            res.status(200).json(attribute);
+        } catch (error) {
+            handleError(res, error, "Failed to fetch specification attribute");
+        }
+    };
+
+    /**
+     * Endpoint: POST /spec-attributes
+     * Buat atribut spesifikasi baru untuk kategori
+     */
+    createAttribute = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const {
+                categoryId,
+                key,
+                label,
+                type,
+                unit,
+                options,
+                isFilterable = true,
+                sortOrder,
+            } = req.body;
+
+            if (!categoryId || !key || !label || !type) {
+                res.status(400).json({
+                    error: "categoryId, key, label, and type are required",
+                });
+                return;
+            }
+
+            if (options !== undefined && options !== null) {
+                if (!Array.isArray(options)) {
+                    res.status(400).json({ error: "options must be an array" });
+                    return;
+                }
+            }
+
+            const attribute = await this.specAttributeService.create({
+                categoryId,
+                key,
+                label,
+                type,
+                unit: unit || null,
+                options: options ?? null,
+                isFilterable: Boolean(isFilterable),
+                sortOrder: this.sortOrderService.parse(sortOrder),
+                createdBy: req.user!.id,
+                ipAddress: getClientIp(req),
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(201).json(attribute);
+        } catch (error) {
+            handleError(
+                res,
+                error,
+                "Failed to create specification attribute",
+                400
+            );
+        }
+    };
+
+    /**
+     * Endpoint: PUT /spec-attributes/:id
+     * Update atribut spesifikasi (key & tipe tidak bisa diubah)
+     */
+    updateAttribute = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+            const { label, unit, options, isFilterable, sortOrder } = req.body;
+
+            if (!label) {
+                res.status(400).json({ error: "Label is required" });
+                return;
+            }
+
+            if (options !== undefined && options !== null) {
+                if (!Array.isArray(options)) {
+                    res.status(400).json({ error: "options must be an array" });
+                    return;
+                }
+            }
+
+            const attribute = await this.specAttributeService.update({
+                id,
+                label,
+                unit: unit === undefined ? undefined : unit || null,
+                options,
+                isFilterable:
+                    isFilterable === undefined
+                        ? undefined
+                        : Boolean(isFilterable),
+                sortOrder:
+                    sortOrder === undefined
+                        ? undefined
+                        : this.sortOrderService.parse(sortOrder),
+                updatedBy: req.user!.id,
+                ipAddress: getClientIp(req),
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(200).json(attribute);
+        } catch (error) {
+            handleError(
+                res,
+                error,
+                "Failed to update specification attribute",
+                400
+            );
+        }
+    };
+
+    /**
+     * Endpoint: DELETE /spec-attributes/:id
+     * Hapus atribut spesifikasi beserta nilainya pada produk
+     */
+    deleteAttribute = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { id } = req.params;
+
+            await this.specAttributeService.delete({
+                id,
+                deletedBy: req.user!.id,
+                ipAddress: getClientIp(req),
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(204).end();
+        } catch (error) {
+            handleError(
+                res,
+                error,
+                "Failed to delete specification attribute",
+                400
+            );
+        }
+    };
+}
@@ -5,6 +5,7 @@
  * - CRUD pengguna (termasuk soft/hard delete dan restore)
  * - Manajemen avatar (upload, update)
  * - Ekspor data ke Excel dan PDF
+ * - Impersonation ("log in as") untuk debugging permission
  *
  * @security
  * - Semua endpoint memerlukan autentikasi (req.user tersedia)
@@ -12,11 +13,11 @@
  * - Validasi input dasar di level controller
  *
  * @usage
- * const userController = new UserController(userService, exportService);
+ * const userController = new UserController(userService, exportService, impersonationService);
  * router.get('/users', userController.getUsers);
  *
  * @dependencies
- * - `UserService`, `ExportService`
+ * - `UserService`, `ExportService`, `ImpersonationService`
  * - Express Request/Response
  */
 
@@ -24,12 +25,14 @@ import { Request, Response } from "express";
 import { UserStatus } from "@prisma/client";
 import { UserService } from "../services/user.service";
 import { ExportService } from "../services/reporting/export.service";
+import { ImpersonationService } from "../services/impersonation.service";
 import { getClientIp, handleError } from "../utils/http-helper";
 
 export class UserController {
     constructor(
         private userService: UserService,
-        private exportService: ExportService
+        private exportService: ExportService,
+        private impersonationService: ImpersonationService
     ) {}
 
     /**
@@ -184,6 +187,25 @@ export class UserController {
         }
     };
 
+    /**
+     * Endpoint: POST /users/:id/impersonate
+     * Terbitkan access token impersonation (berumur pendek, tanpa refresh token)
+     */
+    impersonateUser = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const result = await this.impersonationService.start({
+                impersonatorId: req.user!.id,
+                targetUserId: req.params.id,
+                ipAddress: getClientIp(req),
+                userAgent: req.get("User-Agent") || "",
+            });
+
+            res.status(201).json(result);
+        } catch (error) {
+            handleError(res, error, "Failed to impersonate user", 400);
+        }
+    };
+
     /**
      * Endpoint: PATCH /users/:id/avatar
      * Update avatar pengguna lain
@@ -25,6 +25,11 @@ export const cleanupExpiredTokens = async (): Promise<void> => {
                     type: "refresh_token",
                     expiresAt: { lt: now },
                 },
+                // Challenge 2FA: kadaluarsa 5 menit
+                {
+                    type: "two_factor_challenge",
+                    expiresAt: { lt: now },
+                },
             ],
         },
     });
@@ -42,4 +47,23 @@ export const cleanupExpiredTokens = async (): Promise<void> => {
             unusedCount.count
         } unused = ${expiredCount.count + unusedCount.count} total`
     );
+
+    // 3. Hapus sesi yang sudah kadaluarsa atau sudah lama direvoke
+    const sessionCount = await prisma.session.deleteMany({
+        where: {
+            OR: [
+                { expiresAt: { lt: now } },
+                { revokedAt: { lt: thirtyDaysAgo } },
+            ],
+        },
+    });
+
+    console.log(`✅ Cleanup sessions: ${sessionCount.count} removed`);
+
+    // 4. Hapus riwayat percobaan login lebih dari 30 hari
+    const attemptCount = await prisma.loginAttempt.deleteMany({
+        where: { createdAt: { lt: thirtyDaysAgo } },
+    });
+
+    console.log(`✅ Cleanup login attempts: ${attemptCount.count} removed`);
 };
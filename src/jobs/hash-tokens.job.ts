@@ -0,0 +1,73 @@
+// src/jobs/hash-tokens.job.ts
+import { prisma } from "../prisma/client";
+import { jwtConfig } from "../config/jwt.config";
+import { TokenService } from "../services/token.service";
+import { JwtKeyringService } from "../services/jwt-keyring.service";
+
+const BATCH_SIZE = 500;
+
+const jwtKeyringService = new JwtKeyringService({
+    keyringPath: jwtConfig.keyringPath,
+    legacyAccessSecret: jwtConfig.accessTokenSecret,
+    legacyRefreshSecret: jwtConfig.refreshTokenSecret,
+    retention: {
+        access: jwtConfig.accessTokenExpiresIn,
+        refresh: jwtConfig.refreshTokenExpiresIn,
+    },
+});
+const tokenService = new TokenService({
+    keyring: jwtKeyringService,
+    tokenHashSecret: jwtConfig.tokenHashSecret,
+    accessTokenExpiresIn: jwtConfig.accessTokenExpiresIn,
+    refreshTokenExpiresIn: jwtConfig.refreshTokenExpiresIn,
+});
+
+/**
+ * Migrasi satu kali: ubah token mentah (JWT/UUID) di tabel `tokens` menjadi keyed hash.
+ * - Aman dijalankan berulang: baris yang sudah berupa hash dilewati
+ * - Diproses per batch berdasarkan cursor ID agar tidak memuat seluruh tabel
+ * - Jalankan SETELAH deploy kode baru dan dengan TOKEN_HASH_SECRET yang sama dengan server
+ */
+export const hashExistingTokens = async (): Promise<void> => {
+    let cursor: string | undefined;
+    let migrated = 0;
+    let skipped = 0;
+
+    while (true) {
+        const rows = await prisma.token.findMany({
+            select: { id: true, tokenHash: true },
+            orderBy: { id: "asc" },
+            take: BATCH_SIZE,
+            ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+        });
+
+        if (rows.length === 0) break;
+        cursor = rows[rows.length - 1].id;
+
+        for (const row of rows) {
+            if (tokenService.isHash(row.tokenHash)) {
+                skipped++;
+                continue;
+            }
+
+            await prisma.token.update({
+                where: { id: row.id },
+                data: { tokenHash: tokenService.hash(row.tokenHash) },
+            });
+            migrated++;
+        }
+    }
+
+    console.log(
+        `✅ Hash tokens: ${migrated} migrated + ${skipped} already hashed`
+    );
+};
+
+if (require.main === module) {
+    hashExistingTokens()
+        .catch((error) => {
+            console.error("❌ Hash tokens failed:", error);
+            process.exitCode = 1;
+        })
+        .finally(() => prisma.$disconnect());
+}
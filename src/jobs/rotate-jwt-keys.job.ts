@@ -0,0 +1,78 @@
+// src/jobs/rotate-jwt-keys.job.ts
+import { jwtConfig } from "../config/jwt.config";
+import {
+    JWT_ALGORITHMS,
+    JWT_KEY_USES,
+    JwtAlgorithm,
+    JwtKeyringService,
+    JwtKeyUse,
+} from "../services/jwt-keyring.service";
+
+/**
+ * Rotasi signing key JWT tanpa me-logout pengguna:
+ * - Key baru menjadi key aktif untuk sign, key lama tetap dipakai untuk verifikasi
+ * - Key pensiun yang umurnya melewati masa berlaku token dihapus dari keyring
+ * - Instance server yang sedang berjalan mendeteksi perubahan file keyring (mtime)
+ *   sebelum sign token berikutnya, lalu memakai key aktif baru
+ *
+ * Penggunaan:
+ *   npm run rotate:jwt-keys
+ *   npm run rotate:jwt-keys -- --use access --alg EdDSA
+ */
+export const rotateJwtKeys = (
+    uses: JwtKeyUse[] = JWT_KEY_USES,
+    alg?: JwtAlgorithm
+): void => {
+    const jwtKeyringService = new JwtKeyringService({
+        keyringPath: jwtConfig.keyringPath,
+        legacyAccessSecret: jwtConfig.accessTokenSecret,
+        legacyRefreshSecret: jwtConfig.refreshTokenSecret,
+        retention: {
+            access: jwtConfig.accessTokenExpiresIn,
+            refresh: jwtConfig.refreshTokenExpiresIn,
+        },
+    });
+
+    for (const use of uses) {
+        const result = jwtKeyringService.rotate(use, alg);
+        console.log(
+            `✅ JWT ${use} key rotated: ${result.previousKid ?? "-"} → ${result.kid} (${result.alg})`
+        );
+        if (result.prunedKids.length > 0) {
+            console.log(
+                `   Pruned expired keys: ${result.prunedKids.join(", ")}`
+            );
+        }
+    }
+
+    console.log(`🔑 Keyring saved to ${jwtConfig.keyringPath}`);
+};
+
+const readArg = (name: string): string | undefined => {
+    const index = process.argv.indexOf(`--${name}`);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+if (require.main === module) {
+    try {
+        const use = readArg("use");
+        const alg = readArg("alg");
+
+        if (use && !JWT_KEY_USES.includes(use as JwtKeyUse)) {
+            throw new Error(`--use must be one of: ${JWT_KEY_USES.join(", ")}`);
+        }
+        if (alg && !JWT_ALGORITHMS.includes(alg as JwtAlgorithm)) {
+            throw new Error(
+                `--alg must be one of: ${JWT_ALGORITHMS.join(", ")}`
+            );
+        }
+
+        rotateJwtKeys(
+            use ? [use as JwtKeyUse] : JWT_KEY_USES,
+            alg as JwtAlgorithm | undefined
+        );
+    } catch (error) {
+        console.error("❌ Rotate JWT keys failed:", error);
+        process.exitCode = 1;
+    }
+}
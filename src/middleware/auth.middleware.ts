@@ -3,6 +3,8 @@
  * @description
  * Middleware class-based untuk mengamankan endpoint API Enerkomp:
  * - Mendukung token dari cookie (`access_token`) atau header `Authorization: Bearer <token>`
+ * - Mendukung API key via header `x-api-key` untuk machine client (ERP sync, script)
+ * - Token impersonation: `req.user.impersonator` terisi & konteks request diset untuk audit
  * - Memvalidasi token melalui database (revoked/expired check)
  * - Menyediakan `req.user` dengan data typed untuk digunakan di controller
  * - Kompatibel dengan sistem RBAC (Role-Based Access Control) Enerkomp
@@ -14,19 +16,25 @@
  * - IP address & user agent otomatis dilog untuk forensik
  *
  * @usage
- * const authMiddleware = new AuthMiddleware(authService);
+ * const authMiddleware = new AuthMiddleware(authService, apiKeyService);
  * router.use(authMiddleware.authenticate());
  *
  * @dependencies
  * - `AuthService` (dari `src/services/auth.service.ts`)
+ * - `ApiKeyService` (opsional, dari `src/services/api-key.service.ts`)
  * - Express Request/Response/NextFunction
  */
 
 import { Request, Response, NextFunction } from "express";
 import { AuthService } from "../services/auth.service";
+import { ApiKeyService } from "../services/api-key.service";
+import { runWithRequestContext } from "../utils/request-context";
 
 export class AuthMiddleware {
-    constructor(private authService: AuthService) {}
+    constructor(
+        private authService: AuthService,
+        private apiKeyService?: ApiKeyService
+    ) {}
 
     /**
      * Middleware untuk memproteksi route yang memerlukan autentikasi
@@ -39,6 +47,21 @@ export class AuthMiddleware {
             next: NextFunction
         ): Promise<void> => {
             try {
+                // API key (machine client) → hak akses dibatasi scope key
+                const apiKey = this.extractApiKey(req);
+                if (apiKey && this.apiKeyService) {
+                    const principal = await this.apiKeyService.validate(
+                        apiKey,
+                        req.ip
+                    );
+                    req.user = {
+                        ...principal.owner,
+                        apiKeyId: principal.apiKeyId,
+                        apiKeyScopes: principal.scopes,
+                    };
+                    return next();
+                }
+
                 const token = this.extractToken(req);
                 if (!token) {
                     res.status(401).json({ error: "Access token required" });
@@ -49,6 +72,15 @@ export class AuthMiddleware {
                 const user = await this.authService.validateAccessToken(token);
                 req.user = user;
 
+                // Impersonation: semua audit log di request ini mencatat admin aslinya
+                if (user.impersonator) {
+                    runWithRequestContext(
+                        { impersonatorId: user.impersonator.id },
+                        () => next()
+                    );
+                    return;
+                }
+
                 next();
             } catch (error) {
                 const message =
@@ -62,6 +94,29 @@ export class AuthMiddleware {
         };
     }
 
+    /**
+     * Middleware untuk route yang hanya boleh diakses sesi pengguna asli
+     * (bukan API key maupun token impersonation). Dipasang setelah `authenticate()`
+     * @returns Express middleware function
+     */
+    requireSession() {
+        return (req: Request, res: Response, next: NextFunction): void => {
+            if (req.user?.apiKeyId) {
+                res.status(403).json({
+                    error: "This endpoint cannot be accessed with an API key",
+                });
+                return;
+            }
+            if (req.user?.impersonator) {
+                res.status(403).json({
+                    error: "This endpoint cannot be accessed while impersonating",
+                });
+                return;
+            }
+            next();
+        };
+    }
+
     /**
      * Ekstrak access token dari request
      * Prioritas: cookie > Authorization header
@@ -80,4 +135,13 @@ export class AuthMiddleware {
 
         return null;
     }
+
+    /**
+     * Ekstrak API key dari header `x-api-key`
+     */
+    private extractApiKey(req: Request): string | null {
+        const header = req.headers["x-api-key"];
+        const value = Array.isArray(header) ? header[0] : header;
+        return value?.trim() || null;
+    }
 }
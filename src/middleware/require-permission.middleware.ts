@@ -4,7 +4,11 @@
  * Middleware class-based untuk mengamankan endpoint berdasarkan permission user:
  * - Izinkan akses jika user memiliki permission eksplisit (action + resource)
  * - Izinkan akses jika user memiliki permission "manage" untuk resource tersebut
- * - Mendukung caching permission di memori untuk optimasi performa
+ * - Request via API key juga harus lolos scope key (irisan permission role pemilik & scope)
+ * - Permission ber-scope `<action>:own`: izinkan jika pemilik record (resolver `owner`) = req.user.id
+ * - Permission role diambil dari cache lintas request (`PermissionCacheService` via `RoleService`)
+ * - Hasil pengecekan juga di-cache per request
+ * - Resource/action di-type-check terhadap registry (`config/permissions.config.ts`)
  *
  * @security
  * - Tidak ada query DB berulang untuk permission yang sama dalam satu request
@@ -17,6 +21,12 @@
  *   permissionMiddleware.require('user', 'read'),
  *   userController.getUsers
  * );
+ * router.put('/api/blogs/:id',
+ *   permissionMiddleware.require('blog', 'update', {
+ *     owner: (req) => blogService.findOwnerId(req.params.id)
+ *   }),
+ *   blogController.updateBlog
+ * );
  *
  * @dependencies
  * - `RoleService` (dari `src/services/role.service.ts`)
@@ -25,6 +35,23 @@
 
 import { Request, Response, NextFunction } from "express";
 import { RoleService } from "../services/role.service";
+import {
+    MANAGE_ACTION,
+    PermissionAction,
+    PermissionResource,
+    isRegisteredPermission,
+    toOwnAction,
+} from "../config/permissions.config";
+
+/**
+ * Resolver ID pemilik record yang diakses (misal: `Blog.authorId`)
+ * Kembalikan null jika record tidak ditemukan / tidak memiliki pemilik
+ */
+export type OwnerResolver = (req: Request) => Promise<string | null>;
+
+export interface RequirePermissionOptions {
+    owner?: OwnerResolver;
+}
 
 export class RequirePermissionMiddleware {
     constructor(private roleService: RoleService) {}
@@ -33,9 +60,15 @@ export class RequirePermissionMiddleware {
      * Middleware factory untuk memeriksa permission tertentu
      * @param resource - Nama resource (misal: 'user', 'product', 'brand')
      * @param action - Aksi yang diminta (misal: 'read', 'create', 'delete')
+     * @param options - `owner`: resolver ID pemilik record; jika diisi, user dengan
+     *   permission `<action>:own` diizinkan untuk record miliknya sendiri
      * @returns Express middleware function
      */
-    require(resource: string, action: string) {
+    require<R extends PermissionResource>(
+        resource: R,
+        action: PermissionAction<R>,
+        options: RequirePermissionOptions = {}
+    ) {
         return async (
             req: Request,
             res: Response,
@@ -52,41 +85,26 @@ export class RequirePermissionMiddleware {
                     req._permissionCache = new Map<string, boolean>();
                 }
 
-                const cacheKey = `${resource}:${action}:${req.user.roleId}`;
+                const cacheKey = `${resource}:${action}:${req.user.roleId}:${
+                    req.user.apiKeyId ?? ""
+                }`;
 
                 // Cek cache dulu
-                if (req._permissionCache.has(cacheKey)) {
-                    if (req._permissionCache.get(cacheKey)) {
-                        return next();
-                    }
-                    res.status(403).json({ error: "Insufficient permissions" });
-                    return;
+                let allowed = req._permissionCache.get(cacheKey);
+                if (allowed === undefined) {
+                    allowed = await this.allowsAny(req, resource, action);
+                    req._permissionCache.set(cacheKey, allowed);
                 }
 
-                // Cek permission "manage" (mencakup semua aksi)
-                const hasManagePermission =
-                    await this.roleService.hasPermission(
-                        req.user.roleId,
-                        resource,
-                        "manage"
-                    );
-
-                if (hasManagePermission) {
-                    req._permissionCache.set(cacheKey, true);
+                if (allowed) {
                     return next();
                 }
 
-                // Cek permission eksplisit
-                const hasSpecificPermission =
-                    await this.roleService.hasPermission(
-                        req.user.roleId,
-                        resource,
-                        action
-                    );
-
-                req._permissionCache.set(cacheKey, hasSpecificPermission);
-
-                if (hasSpecificPermission) {
+                // Fallback: permission "own" untuk record milik user sendiri
+                if (
+                    options.owner &&
+                    (await this.allowsOwn(req, resource, action, options.owner))
+                ) {
                     return next();
                 }
 
@@ -100,4 +118,80 @@ export class RequirePermissionMiddleware {
             }
         };
     }
+
+    // Helper methods
+    private async allowsAny(
+        req: Request,
+        resource: string,
+        action: string
+    ): Promise<boolean> {
+        // API key: scope key harus mencakup aksi ini
+        if (
+            req.user!.apiKeyScopes &&
+            !this.scopeAllows(req.user!.apiKeyScopes, resource, action)
+        ) {
+            return false;
+        }
+
+        // Cek permission "manage" (mencakup semua aksi)
+        const hasManagePermission = await this.roleService.hasPermission(
+            req.user!.roleId,
+            resource,
+            MANAGE_ACTION
+        );
+        if (hasManagePermission) {
+            return true;
+        }
+
+        // Cek permission eksplisit
+        return this.roleService.hasPermission(
+            req.user!.roleId,
+            resource,
+            action
+        );
+    }
+
+    private async allowsOwn(
+        req: Request,
+        resource: string,
+        action: string,
+        owner: OwnerResolver
+    ): Promise<boolean> {
+        const ownAction = toOwnAction(action);
+        if (!isRegisteredPermission(resource, ownAction)) {
+            return false;
+        }
+
+        if (
+            req.user!.apiKeyScopes &&
+            !this.scopeAllows(req.user!.apiKeyScopes, resource, ownAction) &&
+            !this.scopeAllows(req.user!.apiKeyScopes, resource, action)
+        ) {
+            return false;
+        }
+
+        const hasOwnPermission = await this.roleService.hasPermission(
+            req.user!.roleId,
+            resource,
+            ownAction
+        );
+        if (!hasOwnPermission) {
+            return false;
+        }
+
+        const ownerId = await owner(req);
+        return !!ownerId && ownerId === req.user!.id;
+    }
+
+    private scopeAllows(
+        scopes: { resource: string; action: string }[],
+        resource: string,
+        action: string
+    ): boolean {
+        return scopes.some(
+            (scope) =>
+                scope.resource === resource &&
+                (scope.action === action || scope.action === MANAGE_ACTION)
+        );
+    }
 }
@@ -42,6 +42,12 @@ export class RequireRoleMiddleware {
                     return;
                 }
 
+                // Route berbasis role hanya untuk pengguna manusia (tanpa scope API key)
+                if (req.user.apiKeyId) {
+                    res.status(403).json({ error: "Insufficient permissions" });
+                    return;
+                }
+
                 if (!req.user.role?.name) {
                     res.status(403).json({ error: "Insufficient permissions" });
                     return;
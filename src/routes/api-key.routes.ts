@@ -0,0 +1,75 @@
+/**
+ * @file API Key Routes – Definisi endpoint API untuk manajemen API key
+ * @description
+ * Routing Express untuk operasi API key machine client:
+ * - Semua endpoint memerlukan autentikasi sesi (API key tidak bisa mengelola API key)
+ * - List & detail: permission 'api_key.read'
+ * - Create, update, revoke, hard delete: permission 'api_key.create/update/delete'
+ *
+ * @security
+ * - Key mentah hanya dikembalikan sekali saat create
+ * - Tidak ada endpoint publik untuk manajemen API key
+ *
+ * @usage
+ * const apiKeyRouter = makeApiKeyRouter(apiKeyService, authMiddleware, permissionMiddleware);
+ * app.use('/api/api-keys', apiKeyRouter);
+ */
+
+import { Router } from "express";
+import { ApiKeyService } from "../services/api-key.service";
+import { ApiKeyController } from "../controllers/api-key.controller";
+import { AuthMiddleware } from "../middleware/auth.middleware";
+import { RequirePermissionMiddleware } from "../middleware/require-permission.middleware";
+
+export function makeApiKeyRouter(
+    apiKeyService: ApiKeyService,
+    authMiddleware: AuthMiddleware,
+    permissionMiddleware: RequirePermissionMiddleware
+): Router {
+    const router = Router();
+    const controller = new ApiKeyController(apiKeyService);
+
+    // Protected endpoints (sesi pengguna saja)
+    router.use(authMiddleware.authenticate());
+    router.use(authMiddleware.requireSession());
+
+    // Read
+    router.get(
+        "/",
+        permissionMiddleware.require("api_key", "read"),
+        controller.getApiKeys
+    );
+    router.get(
+        "/:id",
+        permissionMiddleware.require("api_key", "read"),
+        controller.getApiKey
+    );
+
+    // Create
+    router.post(
+        "/",
+        permissionMiddleware.require("api_key", "create"),
+        controller.createApiKey
+    );
+
+    // Update
+    router.put(
+        "/:id",
+        permissionMiddleware.require("api_key", "update"),
+        controller.updateApiKey
+    );
+
+    // Delete
+    router.delete(
+        "/:id",
+        permissionMiddleware.require("api_key", "delete"),
+        controller.revokeApiKey
+    );
+    router.delete(
+        "/:id/hard",
+        permissionMiddleware.require("api_key", "delete"),
+        controller.hardDeleteApiKey
+    );
+
+    return router;
+}
@@ -2,52 +2,100 @@
  * @file Auth Routes – Definisi endpoint API untuk autentikasi dan manajemen sesi
  * @description
  * Routing Express untuk operasi autentikasi pengguna Enerkomp:
- * - Public endpoints: login, refresh, forgot/reset password
- * - Protected endpoints: get profile (/me), logout
+ * - Public endpoints: login (+ langkah 2FA), refresh, forgot/reset password, kebijakan password
+ * - Protected endpoints: get profile (/me), permission efektif (/me/permissions), ganti password (/me/password), 2FA (/me/2fa), manajemen sesi (/sessions)
  *
  * @security
  * - Hanya endpoint publik yang tidak memerlukan autentikasi
  * - Endpoint /me dan /logout dilindungi oleh middleware authenticate
+ * - Perubahan profil/avatar, ganti password, 2FA, dan manajemen sesi ditolak
+ *   untuk token impersonation maupun API key
  * - Semua endpoint menggunakan AuthController class-based
  *
  * @usage
- * const authRouter = makeAuthRouter(authService);
+ * const authRouter = makeAuthRouter(authService, sessionService, twoFactorService, roleService);
  * app.use('/api/auth', authRouter);
  *
  * @dependencies
- * - `AuthService`
+ * - `AuthService`, `SessionService`, `TwoFactorService`, `RoleService`
  * - `AuthController`
  * - `AuthMiddleware`
  */
 
 import { Router } from "express";
 import { AuthService } from "../services/auth.service";
+import { SessionService } from "../services/session.service";
+import { TwoFactorService } from "../services/two-factor.service";
+import { RoleService } from "../services/role.service";
 import { AuthController } from "../controllers/auth.controller";
 import { AuthMiddleware } from "../middleware/auth.middleware";
 
 /**
  * Factory function untuk membuat router autentikasi
  * @param authService - Instance AuthService yang sudah di-DI
+ * @param sessionService - Instance SessionService yang sudah di-DI
+ * @param twoFactorService - Instance TwoFactorService yang sudah di-DI
  * @returns Express Router dengan semua endpoint autentikasi
  */
-export function makeAuthRouter(authService: AuthService): Router {
+export function makeAuthRouter(
+    authService: AuthService,
+    sessionService: SessionService,
+    twoFactorService: TwoFactorService,
+    roleService: RoleService
+): Router {
     const router = Router();
-    const controller = new AuthController(authService);
+    const controller = new AuthController(
+        authService,
+        sessionService,
+        twoFactorService,
+        roleService
+    );
     const authMiddleware = new AuthMiddleware(authService);
 
     // Public endpoints (tidak perlu autentikasi)
     router.post("/login", controller.login);
+    router.post("/login/2fa", controller.loginTwoFactor);
     router.post("/refresh", controller.refresh);
     router.post("/logout", controller.logout);
     router.post("/forgot-password", controller.forgotPassword);
     router.post("/reset-password", controller.resetPassword);
+    router.get("/password-policy", controller.getPasswordPolicy);
 
     // Protected endpoints (memerlukan autentikasi)
     router.use(authMiddleware.authenticate());
     router.get("/me", controller.getMe);
-    router.patch("/me", controller.updateMe);
-    router.patch("/me/avatar", controller.updateOwnAvatar);
-    router.delete("/me/avatar", controller.deleteOwnAvatar);
+    router.patch("/me", authMiddleware.requireSession(), controller.updateMe);
+    router.get("/me/permissions", controller.getMyPermissions);
+    router.put(
+        "/me/password",
+        authMiddleware.requireSession(),
+        controller.changePassword
+    );
+    router.patch(
+        "/me/avatar",
+        authMiddleware.requireSession(),
+        controller.updateOwnAvatar
+    );
+    router.delete(
+        "/me/avatar",
+        authMiddleware.requireSession(),
+        controller.deleteOwnAvatar
+    );
+
+    // Endpoint keamanan akun tidak boleh diakses saat impersonation
+    router.use(["/me/2fa", "/sessions"], authMiddleware.requireSession());
+
+    // Two-factor authentication (TOTP)
+    router.get("/me/2fa", controller.getTwoFactorStatus);
+    router.post("/me/2fa/setup", controller.setupTwoFactor);
+    router.post("/me/2fa/verify", controller.verifyTwoFactor);
+    router.post("/me/2fa/recovery-codes", controller.regenerateRecoveryCodes);
+    router.delete("/me/2fa", controller.disableTwoFactor);
+
+    // Session management (per perangkat)
+    router.get("/sessions", controller.getSessions);
+    router.delete("/sessions", controller.revokeOtherSessions);
+    router.delete("/sessions/:id", controller.revokeSession);
 
     return router;
 }
@@ -3,7 +3,9 @@
  * @description
  * Routing Express untuk operasi blog dengan proteksi role-based:
  * - List & detail: publik (tanpa autentikasi)
- * - Create, update, delete: memerlukan permission 'blog.manage'
+ * - Create: permission 'blog.create'; update/delete: 'blog.update'/'blog.delete' (semua blog)
+ *   atau 'blog.update:own'/'blog.delete:own' (hanya blog yang ditulis sendiri)
+ * - Hard delete: memerlukan permission 'blog.manage'
  *
  * @security
  * - Endpoint publik: /blogs, /blogs/:id (dengan increment view opsional)
@@ -15,7 +17,7 @@
  * app.use('/api/blogs', blogRouter);
  */
 
-import { Router } from "express";
+import { Request, Router } from "express";
 import { BlogService } from "../services/blog.service";
 import { SlugService } from "../services/slug.service";
 import { BlogController } from "../controllers/blog.controller";
@@ -39,23 +41,26 @@ export function makeBlogRouter(
     // Protected endpoints
     router.use(authMiddleware.authenticate());
 
+    // Penulis dengan permission update:own/delete:own hanya bisa mengubah blog miliknya
+    const blogOwner = (req: Request) => blogService.findOwnerId(req.params.id);
+
     router.post(
         "/",
-        permissionMiddleware.require("blog", "manage"),
+        permissionMiddleware.require("blog", "create"),
         uploadBlogImage,
         controller.createBlog
     );
 
     router.put(
         "/:id",
-        permissionMiddleware.require("blog", "manage"),
+        permissionMiddleware.require("blog", "update", { owner: blogOwner }),
         uploadBlogImage,
         controller.updateBlog
     );
 
     router.delete(
         "/:id",
-        permissionMiddleware.require("blog", "manage"),
+        permissionMiddleware.require("blog", "delete", { owner: blogOwner }),
         controller.deleteBlog
     );
 
@@ -2,37 +2,47 @@
  * @file Category Routes – Definisi endpoint API untuk manajemen kategori
  * @description
  * Routing Express untuk operasi kategori dengan proteksi role-based:
- * - List & detail: publik (tanpa autentikasi)
+ * - List, detail, tree, dan breadcrumb: publik (tanpa autentikasi)
  * - Create, update, delete: memerlukan permission 'category.manage'
+ * - Upload gambar menggunakan middleware uploadCategoryImage
  *
  * @security
- * - Endpoint publik: /categories, /categories/:id
+ * - Endpoint publik: /categories, /categories/tree, /categories/:id, /categories/:id/breadcrumb
  * - Endpoint terproteksi: create, update, delete
  * - Permission checking dilakukan sebelum controller dijalankan
  *
  * @usage
- * const categoryRouter = makeCategoryRouter(categoryService, slugService, authMiddleware, permissionMiddleware);
+ * const categoryRouter = makeCategoryRouter(categoryService, slugService, sortOrderService, authMiddleware, permissionMiddleware);
  * app.use('/api/categories', categoryRouter);
  */
 
 import { Router } from "express";
 import { CategoryService } from "../services/category.service";
 import { SlugService } from "../services/slug.service";
+import { SortOrderService } from "../services/sort-order.service";
 import { CategoryController } from "../controllers/category.controller";
 import { AuthMiddleware } from "../middleware/auth.middleware";
 import { RequirePermissionMiddleware } from "../middleware/require-permission.middleware";
+import { uploadCategoryImage } from "../utils/upload";
 
 export function makeCategoryRouter(
     categoryService: CategoryService,
     slugService: SlugService,
+    sortOrderService: SortOrderService,
     authMiddleware: AuthMiddleware,
     permissionMiddleware: RequirePermissionMiddleware
 ): Router {
     const router = Router();
-    const controller = new CategoryController(categoryService, slugService);
+    const controller = new CategoryController(
+        categoryService,
+        slugService,
+        sortOrderService
+    );
 
     // Public endpoints (tanpa autentikasi)
     router.get("/", controller.getCategories);
+    router.get("/tree", controller.getCategoryTree);
+    router.get("/:id/breadcrumb", controller.getCategoryBreadcrumb);
     router.get("/:id", controller.getCategory);
 
     // Protected endpoints
@@ -41,12 +51,14 @@ export function makeCategoryRouter(
     router.post(
         "/",
         permissionMiddleware.require("category", "manage"),
+        uploadCategoryImage,
         controller.createCategory
     );
 
     router.put(
         "/:id",
         permissionMiddleware.require("category", "manage"),
+        uploadCategoryImage,
         controller.updateCategory
     );
 
@@ -4,6 +4,7 @@
  * Routing Express untuk operasi klien dengan proteksi role-based:
  * - POST /clients: publik (form website)
  * - GET/PUT/DELETE /clients: memerlukan autentikasi dan permission
+ * - PUT/DELETE juga menerima 'client.update:own'/'client.delete:own' (klien yang dibalas sendiri)
  * - Ekspor data: memerlukan permission 'user.read'
  *
  * @security
@@ -16,7 +17,7 @@
  * app.use('/api/clients', clientRouter);
  */
 
-import { Router } from "express";
+import { Request, Router } from "express";
 import { ClientService } from "../services/client.service";
 import { NotificationService } from "../services/notification.service";
 import { ExportService } from "../services/reporting/export.service";
@@ -47,6 +48,10 @@ export function makeClientRouter(
     // Protected endpoints (admin)
     router.use(authMiddleware.authenticate());
 
+    // User dengan permission update:own/delete:own hanya untuk klien yang ia balas
+    const clientOwner = (req: Request) =>
+        clientService.findOwnerId(req.params.id);
+
     router.get(
         "/",
         permissionMiddleware.require("client", "read"),
@@ -64,12 +69,16 @@ export function makeClientRouter(
     );
     router.put(
         "/:id",
-        permissionMiddleware.require("client", "update"),
+        permissionMiddleware.require("client", "update", {
+            owner: clientOwner,
+        }),
         controller.updateClient
     );
     router.delete(
         "/:id",
-        permissionMiddleware.require("client", "delete"),
+        permissionMiddleware.require("client", "delete", {
+            owner: clientOwner,
+        }),
         controller.deleteClient
     );
 
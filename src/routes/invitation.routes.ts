@@ -0,0 +1,67 @@
+/**
+ * @file Invitation Routes – Definisi endpoint API untuk undangan pengguna
+ * @description
+ * Routing Express untuk alur undangan pengguna:
+ * - Verify & accept: publik (memakai token undangan)
+ * - List: memerlukan permission 'user.read'
+ * - Invite & resend: memerlukan permission 'user.create'
+ * - Revoke: memerlukan permission 'user.delete'
+ *
+ * @security
+ * - Endpoint publik: /invitations/verify, /invitations/accept
+ * - Endpoint admin dilindungi oleh middleware authenticate + permission
+ *
+ * @usage
+ * const invitationRouter = makeInvitationRouter(invitationService, authMiddleware, permissionMiddleware);
+ * app.use('/api/invitations', invitationRouter);
+ */
+
+import { Router } from "express";
+import { InvitationService } from "../services/invitation.service";
+import { InvitationController } from "../controllers/invitation.controller";
+import { AuthMiddleware } from "../middleware/auth.middleware";
+import { RequirePermissionMiddleware } from "../middleware/require-permission.middleware";
+
+export function makeInvitationRouter(
+    invitationService: InvitationService,
+    authMiddleware: AuthMiddleware,
+    permissionMiddleware: RequirePermissionMiddleware
+): Router {
+    const router = Router();
+    const controller = new InvitationController(invitationService);
+
+    // Public endpoints (tanpa autentikasi)
+    router.get("/verify", controller.verifyInvitation);
+    router.post("/accept", controller.acceptInvitation);
+
+    // Protected endpoints
+    router.use(authMiddleware.authenticate());
+
+    // List
+    router.get(
+        "/",
+        permissionMiddleware.require("user", "read"),
+        controller.getInvitations
+    );
+
+    // Invite & resend
+    router.post(
+        "/",
+        permissionMiddleware.require("user", "create"),
+        controller.createInvitation
+    );
+    router.post(
+        "/:id/resend",
+        permissionMiddleware.require("user", "create"),
+        controller.resendInvitation
+    );
+
+    // Revoke
+    router.delete(
+        "/:id",
+        permissionMiddleware.require("user", "delete"),
+        controller.revokeInvitation
+    );
+
+    return router;
+}
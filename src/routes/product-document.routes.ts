@@ -0,0 +1,67 @@
+/**
+ * @file Product Document Routes – Definisi endpoint API untuk dokumen produk
+ * @description
+ * Routing Express untuk lampiran dokumen produk (di-mount di `/api/products/:productId/documents`):
+ * - List dokumen aktif & download: publik
+ * - List semua dokumen, upload, update, delete: memerlukan permission 'product.manage'
+ *
+ * @security
+ * - Endpoint publik: GET /, GET /:documentId/download
+ * - Endpoint terproteksi: GET /all, create, update, delete
+ * - Upload menggunakan middleware uploadProductDocument (PDF/DOCX)
+ *
+ * @usage
+ * const productDocumentRouter = makeProductDocumentRouter(productDocumentService, authMiddleware, permissionMiddleware);
+ * app.use('/api/products/:productId/documents', productDocumentRouter);
+ */
+
+import { Router } from "express";
+import { ProductDocumentService } from "../services/product-document.service";
+import { ProductDocumentController } from "../controllers/product-document.controller";
+import { AuthMiddleware } from "../middleware/auth.middleware";
+import { RequirePermissionMiddleware } from "../middleware/require-permission.middleware";
+import { uploadProductDocument } from "../utils/upload";
+
+export function makeProductDocumentRouter(
+    productDocumentService: ProductDocumentService,
+    authMiddleware: AuthMiddleware,
+    permissionMiddleware: RequirePermissionMiddleware
+): Router {
+    const router = Router({ mergeParams: true });
+    const controller = new ProductDocumentController(productDocumentService);
+
+    // Public endpoints (tanpa autentikasi)
+    router.get("/", controller.getDocuments);
+    router.get("/:documentId/download", controller.downloadDocument);
+
+    // Protected endpoints
+    router.use(authMiddleware.authenticate());
+
+    router.get(
+        "/all",
+        permissionMiddleware.require("product", "manage"),
+        controller.getAllDocuments
+    );
+
+    router.post(
+        "/",
+        permissionMiddleware.require("product", "manage"),
+        uploadProductDocument,
+        controller.createDocument
+    );
+
+    router.put(
+        "/:documentId",
+        permissionMiddleware.require("product", "manage"),
+        uploadProductDocument,
+        controller.updateDocument
+    );
+
+    router.delete(
+        "/:documentId",
+        permissionMiddleware.require("product", "manage"),
+        controller.deleteDocument
+    );
+
+    return router;
+}
@@ -0,0 +1,61 @@
+/**
+ * @file Product Relation Routes – Definisi endpoint API untuk relasi antar produk
+ * @description
+ * Routing Express untuk cross-reference produk (di-mount di `/api/products/:productId/relations`):
+ * - List: publik (dipakai halaman produk)
+ * - Create, update urutan, delete: memerlukan permission 'product.manage'
+ *
+ * @security
+ * - Endpoint publik: GET /products/:productId/relations
+ * - Endpoint terproteksi: create, update, delete
+ *
+ * @usage
+ * const productRelationRouter = makeProductRelationRouter(productRelationService, sortOrderService, authMiddleware, permissionMiddleware);
+ * app.use('/api/products/:productId/relations', productRelationRouter);
+ */
+
+import { Router } from "express";
+import { ProductRelationService } from "../services/product-relation.service";
+import { SortOrderService } from "../services/sort-order.service";
+import { ProductRelationController } from "../controllers/product-relation.controller";
+import { AuthMiddleware } from "../middleware/auth.middleware";
+import { RequirePermissionMiddleware } from "../middleware/require-permission.middleware";
+
+export function makeProductRelationRouter(
+    productRelationService: ProductRelationService,
+    sortOrderService: SortOrderService,
+    authMiddleware: AuthMiddleware,
+    permissionMiddleware: RequirePermissionMiddleware
+): Router {
+    const router = Router({ mergeParams: true });
+    const controller = new ProductRelationController(
+        productRelationService,
+        sortOrderService
+    );
+
+    // Public endpoints (tanpa autentikasi)
+    router.get("/", controller.getRelations);
+
+    // Protected endpoints
+    router.use(authMiddleware.authenticate());
+
+    router.post(
+        "/",
+        permissionMiddleware.require("product", "manage"),
+        controller.createRelation
+    );
+
+    router.put(
+        "/:relationId",
+        permissionMiddleware.require("product", "manage"),
+        controller.updateRelation
+    );
+
+    router.delete(
+        "/:relationId",
+        permissionMiddleware.require("product", "manage"),
+        controller.deleteRelation
+    );
+
+    return router;
+}
@@ -0,0 +1,82 @@
+/**
+ * @file Product Revision Routes – Definisi endpoint API untuk revisi & draft produk
+ * @description
+ * Routing Express untuk riwayat revisi produk (di-mount di `/api/products/:productId`):
+ * - List, detail, dan diff revisi
+ * - Draft, publish, rollback
+ * Semua endpoint memerlukan permission 'product.manage'
+ *
+ * @security
+ * - Semua endpoint terproteksi (autentikasi wajib)
+ * - Upload gambar draft menggunakan middleware uploadProductImages
+ *
+ * @usage
+ * const productRevisionRouter = makeProductRevisionRouter(productService, productRevisionService, slugService, authMiddleware, permissionMiddleware);
+ * app.use('/api/products/:productId', productRevisionRouter);
+ */
+
+import { Router } from "express";
+import { ProductService } from "../services/product.service";
+import { ProductRevisionService } from "../services/product-revision.service";
+import { SlugService } from "../services/slug.service";
+import { ProductRevisionController } from "../controllers/product-revision.controller";
+import { AuthMiddleware } from "../middleware/auth.middleware";
+import { RequirePermissionMiddleware } from "../middleware/require-permission.middleware";
+import { uploadProductImages } from "../utils/upload";
+
+export function makeProductRevisionRouter(
+    productService: ProductService,
+    productRevisionService: ProductRevisionService,
+    slugService: SlugService,
+    authMiddleware: AuthMiddleware,
+    permissionMiddleware: RequirePermissionMiddleware
+): Router {
+    const router = Router({ mergeParams: true });
+    const controller = new ProductRevisionController(
+        productService,
+        productRevisionService,
+        slugService
+    );
+
+    router.use(authMiddleware.authenticate());
+
+    router.get(
+        "/revisions",
+        permissionMiddleware.require("product", "manage"),
+        controller.getRevisions
+    );
+    router.get(
+        "/revisions/diff",
+        permissionMiddleware.require("product", "manage"),
+        controller.getDiff
+    );
+    router.get(
+        "/revisions/:revisionId",
+        permissionMiddleware.require("product", "manage"),
+        controller.getRevision
+    );
+    router.post(
+        "/revisions/:revisionId/rollback",
+        permissionMiddleware.require("product", "manage"),
+        controller.rollback
+    );
+
+    router.put(
+        "/draft",
+        permissionMiddleware.require("product", "manage"),
+        uploadProductImages,
+        controller.saveDraft
+    );
+    router.delete(
+        "/draft",
+        permissionMiddleware.require("product", "manage"),
+        controller.discardDraft
+    );
+    router.post(
+        "/draft/publish",
+        permissionMiddleware.require("product", "manage"),
+        controller.publishDraft
+    );
+
+    return router;
+}
@@ -2,17 +2,19 @@
  * @file Product Routes – Definisi endpoint API untuk manajemen produk
  * @description
  * Routing Express untuk operasi produk dengan proteksi role-based:
- * - List & detail: publik (tanpa autentikasi)
+ * - List, detail & datasheet PDF: publik (tanpa autentikasi)
  * - Create, update, delete: memerlukan permission 'product.manage'
+ * - Import Excel/CSV: memerlukan permission 'product.manage'
  * - Export: memerlukan permission 'user.read'
  *
  * @security
- * - Endpoint publik: /products, /products/:id
- * - Endpoint terproteksi: create, update, delete, export
+ * - Endpoint publik: /products, /products/:id, /products/:id/datasheet.pdf
+ * - Endpoint terproteksi: create, update, delete, import, export
  * - Upload gambar menggunakan middleware uploadProductImages
+ * - File import dibaca di memori via uploadProductImportFile
  *
  * @usage
- * const productRouter = makeProductRouter(productService, slugService, sortOrderService, exportService, authMiddleware, permissionMiddleware);
+ * const productRouter = makeProductRouter(productService, slugService, sortOrderService, exportService, productImportService, datasheetService, authMiddleware, permissionMiddleware);
  * app.use('/api/products', productRouter);
  */
 
@@ -21,16 +23,23 @@ import { ProductService } from "../services/product.service";
 import { SlugService } from "../services/slug.service";
 import { SortOrderService } from "../services/sort-order.service";
 import { ExportService } from "../services/reporting/export.service";
+import { ProductImportService } from "../services/product-import.service";
+import { DatasheetService } from "../services/reporting/datasheet.service";
 import { ProductController } from "../controllers/product.controller";
 import { AuthMiddleware } from "../middleware/auth.middleware";
 import { RequirePermissionMiddleware } from "../middleware/require-permission.middleware";
-import { uploadProductImages } from "../utils/upload";
+import {
+    uploadProductImages,
+    uploadProductImportFile,
+} from "../utils/upload";
 
 export function makeProductRouter(
     productService: ProductService,
     slugService: SlugService,
     sortOrderService: SortOrderService,
     exportService: ExportService,
+    productImportService: ProductImportService,
+    datasheetService: DatasheetService,
     authMiddleware: AuthMiddleware,
     permissionMiddleware: RequirePermissionMiddleware
 ): Router {
@@ -39,12 +48,15 @@ export function makeProductRouter(
         productService,
         slugService,
         sortOrderService,
-        exportService
+        exportService,
+        productImportService,
+        datasheetService
     );
 
     // Public endpoints (tanpa autentikasi)
     router.get("/", controller.getProducts);
     router.get("/:id", controller.getProduct);
+    router.get("/:id/datasheet.pdf", controller.getDatasheet);
 
     // Protected endpoints
     router.use(authMiddleware.authenticate());
@@ -56,6 +68,13 @@ export function makeProductRouter(
         controller.createProduct
     );
 
+    router.post(
+        "/import",
+        permissionMiddleware.require("product", "manage"),
+        uploadProductImportFile,
+        controller.importProducts
+    );
+
     router.put(
         "/:id",
         permissionMiddleware.require("product", "manage"),
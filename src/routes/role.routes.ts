@@ -4,6 +4,10 @@
  * Routing Express untuk operasi role dengan proteksi role-based:
  * - Semua endpoint memerlukan autentikasi
  * - Hanya super admin yang bisa mengakses
+ * - GET /permissions: katalog permission valid (registry) per resource
+ * - GET /permissions/cache: metrik cache permission
+ * - GET /templates, POST /templates/:key: template role bawaan
+ * - POST /:id/clone (role sistem juga bisa di-clone), GET /:id/diff/:otherId
  *
  * @security
  * - Middleware `authenticate` memastikan req.user tersedia
@@ -45,8 +49,14 @@ export function makeRoleRouter(
 
     // Definisi endpoint
     router.get("/", controller.getRoles);
+    router.get("/permissions", controller.getPermissionCatalog);
+    router.get("/permissions/cache", controller.getPermissionCacheMetrics);
+    router.get("/templates", controller.getTemplates);
+    router.post("/templates/:key", controller.createRoleFromTemplate);
     router.get("/:id", controller.getRole);
     router.post("/", controller.createRole);
+    router.post("/:id/clone", controller.cloneRole);
+    router.get("/:id/diff/:otherId", controller.diffRoles);
     router.put("/:id", controller.updateRole);
     router.delete("/:id", controller.deleteRole);
     router.delete("/:id/hard", controller.hardDeleteRole);
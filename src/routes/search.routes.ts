@@ -0,0 +1,28 @@
+/**
+ * @file Search Routes – Definisi endpoint API untuk pencarian terpadu
+ * @description
+ * Routing Express untuk pencarian full-text lintas konten:
+ * - GET /search?q=&lang=&types=&limit=: produk, blog, dan brand
+ *
+ * @security
+ * - Endpoint publik (tanpa autentikasi)
+ * - Hanya konten aktif/terbit yang dikembalikan
+ *
+ * @usage
+ * const searchRouter = makeSearchRouter(searchService);
+ * app.use('/api/search', searchRouter);
+ */
+
+import { Router } from "express";
+import { SearchService } from "../services/search.service";
+import { SearchController } from "../controllers/search.controller";
+
+export function makeSearchRouter(searchService: SearchService): Router {
+    const router = Router();
+    const controller = new SearchController(searchService);
+
+    // Public endpoints (tanpa autentikasi)
+    router.get("/", controller.search);
+
+    return router;
+}
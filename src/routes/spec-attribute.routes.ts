@@ -0,0 +1,62 @@
+/**
+ * @file Spec Attribute Routes – Definisi endpoint API untuk atribut spesifikasi produk
+ * @description
+ * Routing Express untuk definisi atribut spesifikasi per kategori:
+ * - List & detail: publik (dipakai untuk membangun form filter)
+ * - Create, update, delete: memerlukan permission 'category.manage'
+ *
+ * @security
+ * - Endpoint publik: /spec-attributes, /spec-attributes/:id
+ * - Endpoint terproteksi: create, update, delete
+ *
+ * @usage
+ * const specAttributeRouter = makeSpecAttributeRouter(specAttributeService, sortOrderService, authMiddleware, permissionMiddleware);
+ * app.use('/api/spec-attributes', specAttributeRouter);
+ */
+
+import { Router } from "express";
+import { SpecAttributeService } from "../services/spec-attribute.service";
+import { SortOrderService } from "../services/sort-order.service";
+import { SpecAttributeController } from "../controllers/spec-attribute.controller";
+import { AuthMiddleware } from "../middleware/auth.middleware";
+import { RequirePermissionMiddleware } from "../middleware/require-permission.middleware";
+
+export function makeSpecAttributeRouter(
+    specAttributeService: SpecAttributeService,
+    sortOrderService: SortOrderService,
+    authMiddleware: AuthMiddleware,
+    permissionMiddleware: RequirePermissionMiddleware
+): Router {
+    const router = Router();
+    const controller = new SpecAttributeController(
+        specAttributeService,
+        sortOrderService
+    );
+
+    // Public endpoints (tanpa autentikasi)
+    router.get("/", controller.getAttributes);
+    router.get("/:id", controller.getAttribute);
+
+    // Protected endpoints
+    router.use(authMiddleware.authenticate());
+
+    router.post(
+        "/",
+        permissionMiddleware.require("category", "manage"),
+        controller.createAttribute
+    );
+
+    router.put(
+        "/:id",
+        permissionMiddleware.require("category", "manage"),
+        controller.updateAttribute
+    );
+
+    router.delete(
+        "/:id",
+        permissionMiddleware.require("category", "manage"),
+        controller.deleteAttribute
+    );
+
+    return router;
+}
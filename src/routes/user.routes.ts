@@ -8,6 +8,7 @@
  * - Delete: memerlukan permission 'user.delete'
  * - Hard delete: memerlukan permission 'user.manage'
  * - Export: memerlukan permission 'user.read'
+ * - Impersonate: memerlukan permission 'user.manage' dan sesi asli (bukan API key/impersonation)
  *
  * @security
  * - Semua endpoint dilindungi oleh middleware authenticate
@@ -15,13 +16,14 @@
  * - Upload avatar menggunakan middleware uploadUserAvatar
  *
  * @usage
- * const userRouter = makeUserRouter(userService, exportService, authMiddleware, permissionMiddleware);
+ * const userRouter = makeUserRouter(userService, exportService, impersonationService, authMiddleware, permissionMiddleware);
  * app.use('/api/users', userRouter);
  */
 
 import { Router } from "express";
 import { UserService } from "../services/user.service";
 import { ExportService } from "../services/reporting/export.service";
+import { ImpersonationService } from "../services/impersonation.service";
 import { UserController } from "../controllers/user.controller";
 import { AuthMiddleware } from "../middleware/auth.middleware";
 import { RequirePermissionMiddleware } from "../middleware/require-permission.middleware";
@@ -30,11 +32,16 @@ import { uploadUserAvatar } from "../utils/upload";
 export function makeUserRouter(
     userService: UserService,
     exportService: ExportService,
+    impersonationService: ImpersonationService,
     authMiddleware: AuthMiddleware,
     permissionMiddleware: RequirePermissionMiddleware
 ): Router {
     const router = Router();
-    const controller = new UserController(userService, exportService);
+    const controller = new UserController(
+        userService,
+        exportService,
+        impersonationService
+    );
 
     // Terapkan middleware proteksi untuk semua route
     router.use(authMiddleware.authenticate());
@@ -79,6 +86,14 @@ export function makeUserRouter(
         controller.hardDeleteUser
     );
 
+    // Impersonation ("log in as")
+    router.post(
+        "/:id/impersonate",
+        authMiddleware.requireSession(),
+        permissionMiddleware.require("user", "manage"),
+        controller.impersonateUser
+    );
+
     // Avatar routes
     router.patch(
         "/:id/avatar",
@@ -33,10 +33,17 @@ dotenv.config();
 // Import Config
 import { appConfig } from "./config/app.config";
 import { jwtConfig } from "./config/jwt.config";
+import { securityConfig } from "./config/security.config";
 
 // Import services
 import { PasswordService } from "./services/password.service";
+import { PasswordPolicyService } from "./services/password-policy.service";
 import { TokenService } from "./services/token.service";
+import { JwtKeyringService } from "./services/jwt-keyring.service";
+import { SessionService } from "./services/session.service";
+import { TotpService } from "./services/totp.service";
+import { TwoFactorService } from "./services/two-factor.service";
+import { LoginAttemptService } from "./services/login-attempt.service";
 import { FileService } from "./services/file.service";
 import { AuditService } from "./services/audit.service";
 import { EmailService } from "./services/email.service";
@@ -51,16 +58,27 @@ import { EmailTemplateService } from "./services/email/email-template.service";
 // Import business services
 import { AuthService } from "./services/auth.service";
 import { RoleService } from "./services/role.service";
+import { PermissionCacheService } from "./services/permission-cache.service";
 import { UserService } from "./services/user.service";
 import { BrandService } from "./services/brand.service";
 import { CategoryService } from "./services/category.service";
+import { SpecAttributeService } from "./services/spec-attribute.service";
 import { ProductService } from "./services/product.service";
+import { ProductImportService } from "./services/product-import.service";
+import { ProductRevisionService } from "./services/product-revision.service";
+import { ProductRelationService } from "./services/product-relation.service";
+import { ProductDocumentService } from "./services/product-document.service";
+import { DatasheetService } from "./services/reporting/datasheet.service";
 import { GalleryService } from "./services/gallery.service";
 import { ClientService } from "./services/client.service";
 import { CatalogService } from "./services/catalog.service";
 import { BlogService } from "./services/blog.service";
+import { SearchService } from "./services/search.service";
 import { NotificationService } from "./services/notification.service";
 import { AnalyticsService } from "./services/analytics.service";
+import { ApiKeyService } from "./services/api-key.service";
+import { InvitationService } from "./services/invitation.service";
+import { ImpersonationService } from "./services/impersonation.service";
 
 // Import middleware
 import { AuthMiddleware } from "./middleware/auth.middleware";
@@ -72,14 +90,21 @@ import { makeRoleRouter } from "./routes/role.routes";
 import { makeUserRouter } from "./routes/user.routes";
 import { makeBrandRouter } from "./routes/brand.routes";
 import { makeCategoryRouter } from "./routes/category.routes";
+import { makeSpecAttributeRouter } from "./routes/spec-attribute.routes";
 import { makeProductRouter } from "./routes/product.routes";
+import { makeProductRevisionRouter } from "./routes/product-revision.routes";
+import { makeProductRelationRouter } from "./routes/product-relation.routes";
+import { makeProductDocumentRouter } from "./routes/product-document.routes";
 import { makeGalleryRouter } from "./routes/gallery.routes";
 import { makeClientRouter } from "./routes/client.routes";
 import { makeCatalogRouter } from "./routes/catalog.routes";
 import { makeBlogRouter } from "./routes/blog.routes";
+import { makeSearchRouter } from "./routes/search.routes";
 import { makeAnalyticsRouter } from "./routes/analytics.routes";
 import { makeNotificationRouter } from "./routes/notification.routes";
 import { makeAuditLogRouter } from "./routes/audit.routes";
+import { makeApiKeyRouter } from "./routes/api-key.routes";
+import { makeInvitationRouter } from "./routes/invitation.routes";
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -117,22 +142,51 @@ app.use(
 app.use(cookieParser());
 app.use(express.json());
 
+// Tolak start di production jika secret JWT default masih dipakai
+jwtConfig.assertProductionReady();
+
 // Setup Prisma Client (composition root)
 const prisma = new PrismaClient();
 
 // Setup shared services
 const passwordService = new PasswordService();
+const passwordPolicyService = new PasswordPolicyService(
+    prisma,
+    passwordService
+);
+const jwtKeyringService = new JwtKeyringService({
+    keyringPath: jwtConfig.keyringPath,
+    legacyAccessSecret: jwtConfig.accessTokenSecret,
+    legacyRefreshSecret: jwtConfig.refreshTokenSecret,
+    retention: {
+        access: jwtConfig.accessTokenExpiresIn,
+        refresh: jwtConfig.refreshTokenExpiresIn,
+    },
+});
 const tokenService = new TokenService({
-    accessTokenSecret: jwtConfig.accessTokenSecret,
-        refreshTokenSecret: jwtConfig.refreshTokenSecret,
-        accessTokenExpiresIn: jwtConfig.accessTokenExpiresIn,
-        refreshTokenExpiresIn: jwtConfig.refreshTokenExpiresIn,
+    keyring: jwtKeyringService,
+    tokenHashSecret: jwtConfig.tokenHashSecret,
+    accessTokenExpiresIn: jwtConfig.accessTokenExpiresIn,
+    refreshTokenExpiresIn: jwtConfig.refreshTokenExpiresIn,
 });
 const fileService = new FileService({
     uploadDir: appConfig.uploadDir,
+    documentDir: appConfig.documentDir,
     maxFileSize: appConfig.maxFileSize,
+    imageProcessing: appConfig.imageProcessing,
 });
 const auditService = new AuditService(prisma);
+const sessionService = new SessionService(prisma, auditService, tokenService);
+const totpService = new TotpService({
+    issuer: securityConfig.twoFactorIssuer,
+    encryptionKey: securityConfig.twoFactorEncryptionKey,
+});
+const twoFactorService = new TwoFactorService(
+    prisma,
+    totpService,
+    tokenService,
+    auditService
+);
 const emailService = new EmailService({
     host: process.env.SMTP_HOST || "smtp.gmail.com",
     port: parseInt(process.env.SMTP_PORT || "465", 10),
@@ -158,43 +212,121 @@ const emailTemplateService = new EmailTemplateService({
 });
 
 // Setup business services
+const notificationService = new NotificationService(
+    prisma,
+    auditService,
+    emailService,
+    emailTemplateService
+);
+const loginAttemptService = new LoginAttemptService(
+    prisma,
+    auditService,
+    notificationService
+);
 const authService = new AuthService(
     prisma,
     passwordService,
+    passwordPolicyService,
     tokenService,
+    sessionService,
+    twoFactorService,
+    loginAttemptService,
     fileService,
     auditService,
+    notificationService,
     emailService,
     emailTemplateService,
     timezoneService
 );
-const roleService = new RoleService(prisma, auditService);
+const permissionCacheService = new PermissionCacheService(prisma, {
+    ttl: securityConfig.permissionCacheTtl,
+});
+const roleService = new RoleService(
+    prisma,
+    auditService,
+    permissionCacheService
+);
+const apiKeyService = new ApiKeyService(prisma, tokenService, auditService);
 const userService = new UserService(
     prisma,
     passwordService,
+    passwordPolicyService,
     fileService,
     auditService
 );
+const impersonationService = new ImpersonationService(
+    prisma,
+    tokenService,
+    auditService
+);
+const invitationService = new InvitationService(
+    prisma,
+    passwordService,
+    passwordPolicyService,
+    tokenService,
+    auditService,
+    emailService,
+    emailTemplateService,
+    timezoneService
+);
 const brandService = new BrandService(
     prisma,
     auditService,
     fileService,
     sortOrderService
 );
-const categoryService = new CategoryService(prisma, auditService, slugService);
+const categoryService = new CategoryService(
+    prisma,
+    auditService,
+    slugService,
+    fileService,
+    sortOrderService
+);
+const specAttributeService = new SpecAttributeService(
+    prisma,
+    auditService,
+    categoryService
+);
+const productRevisionService = new ProductRevisionService(
+    prisma,
+    auditService,
+    fileService
+);
 const productService = new ProductService(
     prisma,
     auditService,
     fileService,
+    sortOrderService,
+    categoryService,
+    specAttributeService,
+    productRevisionService
+);
+const productRelationService = new ProductRelationService(
+    prisma,
+    auditService,
     sortOrderService
 );
-const galleryService = new GalleryService(prisma, auditService, fileService);
-const notificationService = new NotificationService(
+const productDocumentService = new ProductDocumentService(
     prisma,
     auditService,
-    emailService,
-    emailTemplateService
+    fileService
+);
+const datasheetService = new DatasheetService(
+    prisma,
+    exportService,
+    fileService,
+    {
+        siteUrl: process.env.FRONTEND_URL || "https://enerkomp.co.id",
+        cacheDir: process.env.DATASHEET_CACHE_DIR,
+    }
+);
+const productImportService = new ProductImportService(
+    prisma,
+    auditService,
+    slugService,
+    sortOrderService
 );
+const galleryService = new GalleryService(prisma, auditService, fileService);
 const clientService = new ClientService(
     prisma,
     auditService,
@@ -209,6 +341,7 @@ const blogService = new BlogService(
     fileService,
     slugService
 );
+const searchService = new SearchService(prisma);
 const analyticsService = new AnalyticsService(
     prisma,
     utmService,
@@ -216,17 +349,29 @@ const analyticsService = new AnalyticsService(
 );
 
 // Setup middleware
-const authMiddleware = new AuthMiddleware(authService);
+const authMiddleware = new AuthMiddleware(authService, apiKeyService);
 const permissionMiddleware = new RequirePermissionMiddleware(roleService);
 
 // Setup routes
-app.use("/api/auth", makeAuthRouter(authService));
+app.use(
+    "/api/auth",
+    makeAuthRouter(authService, sessionService, twoFactorService, roleService)
+);
 app.use("/api/roles", makeRoleRouter(roleService, authMiddleware));
+app.use(
+    "/api/invitations",
+    makeInvitationRouter(invitationService, authMiddleware, permissionMiddleware)
+);
+app.use(
+    "/api/api-keys",
+    makeApiKeyRouter(apiKeyService, authMiddleware, permissionMiddleware)
+);
 app.use(
     "/api/users",
     makeUserRouter(
         userService,
         exportService,
+        impersonationService,
         authMiddleware,
         permissionMiddleware
     )
@@ -247,6 +392,34 @@ app.use(
     makeCategoryRouter(
         categoryService,
         slugService,
+        sortOrderService,
+        authMiddleware,
+        permissionMiddleware
+    )
+);
+app.use(
+    "/api/spec-attributes",
+    makeSpecAttributeRouter(
+        specAttributeService,
+        sortOrderService,
+        authMiddleware,
+        permissionMiddleware
+    )
+);
+// Relasi & dokumen produk di-mount sebelum router produk agar GET tetap publik
+app.use(
+    "/api/products/:productId/relations",
+    makeProductRelationRouter(
+        productRelationService,
+        sortOrderService,
+        authMiddleware,
+        permissionMiddleware
+    )
+);
+app.use(
+    "/api/products/:productId/documents",
+    makeProductDocumentRouter(
+        productDocumentService,
         authMiddleware,
         permissionMiddleware
     )
@@ -258,6 +431,18 @@ app.use(
         slugService,
         sortOrderService,
         exportService,
+        productImportService,
+        datasheetService,
+        authMiddleware,
+        permissionMiddleware
+    )
+);
+app.use(
+    "/api/products/:productId",
+    makeProductRevisionRouter(
+        productService,
+        productRevisionService,
+        slugService,
         authMiddleware,
         permissionMiddleware
     )
@@ -290,6 +475,7 @@ app.use(
         permissionMiddleware
     )
 );
+app.use("/api/search", makeSearchRouter(searchService));
 app.use(
     "/api/analytics",
     makeAnalyticsRouter(
@@ -0,0 +1,457 @@
+/**
+ * @file ApiKeyService – Manajemen API key untuk machine client (ERP sync, script, dll)
+ * @description
+ * Layanan untuk mengelola API key yang dikirim lewat header `x-api-key`:
+ * - CRUD API key dengan scope permission (resource + action, sama seperti `Permission`)
+ * - Validasi key saat request masuk (expiry, revoke, status pemilik)
+ * - Tracking pemakaian terakhir (waktu & IP)
+ *
+ * @security
+ * - Key hanya ditampilkan sekali saat dibuat; database menyimpan keyed hash
+ * - Key selalu dimiliki user → hak akses efektif = irisan permission role pemilik dan scope key
+ * - Key milik user non-aktif/terhapus otomatis tidak berlaku
+ * - Semua operasi tercatat di audit log
+ *
+ * @usage
+ * const apiKeyService = new ApiKeyService(prisma, tokenService, auditService);
+ *
+ * const { apiKey, key } = await apiKeyService.create({
+ *   name: 'ERP Sync',
+ *   scopes: [{ resource: 'product', action: 'manage' }],
+ *   ownerId: 'usr_123',
+ *   createdBy: 'usr_123'
+ * });
+ *
+ * @dependencies
+ * - `@prisma/client`
+ * - `TokenService`, `AuditService`
+ */
+
+import crypto from "crypto";
+import { PrismaClient } from "@prisma/client";
+import { TokenService } from "./token.service";
+import { AuditService } from "./audit.service";
+import { PermissionInput } from "./role.service";
+import { isRegisteredPermission } from "../config/permissions.config";
+
+export interface CreateApiKeyInput {
+    name: string;
+    scopes: PermissionInput[];
+    ownerId: string;
+    expiresAt?: Date | null;
+    createdBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface UpdateApiKeyInput {
+    id: string;
+    name?: string;
+    scopes?: PermissionInput[];
+    expiresAt?: Date | null;
+    updatedBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface DeleteApiKeyInput {
+    id: string;
+    deletedBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface ApiKeyPrincipal {
+    apiKeyId: string;
+    scopes: PermissionInput[];
+    owner: {
+        id: string;
+        email: string;
+        roleId: string;
+        role: { name: string };
+    };
+}
+
+const KEY_PREFIX = "ek";
+const LAST_USED_THROTTLE_MS = 60 * 1000; // update lastUsedAt maksimal 1x per menit
+
+const apiKeySelect = {
+    id: true,
+    name: true,
+    prefix: true,
+    ownerId: true,
+    expiresAt: true,
+    lastUsedAt: true,
+    lastUsedIp: true,
+    revokedAt: true,
+    createdAt: true,
+    updatedAt: true,
+    owner: { select: { id: true, name: true, email: true } },
+    scopes: { select: { resource: true, action: true } },
+} as const;
+
+export class ApiKeyService {
+    constructor(
+        private prisma: PrismaClient,
+        private tokenService: TokenService,
+        private auditService: AuditService
+    ) {}
+
+    /**
+     * Ambil daftar API key dengan pagination
+     * @param options - Filter dan pagination options
+     * @returns Data API key (tanpa hash) dan metadata pagination
+     */
+    async list(
+        options: {
+            page?: number;
+            limit?: number;
+            search?: string;
+            ownerId?: string;
+            revoked?: boolean;
+        } = {}
+    ) {
+        const { page = 1, limit = 10, search, ownerId, revoked = false } =
+            options;
+        const skip = (page - 1) * limit;
+
+        const where: any = {
+            revokedAt: revoked ? { not: null } : null,
+        };
+        if (ownerId) where.ownerId = ownerId;
+        if (search) {
+            where.OR = [
+                { name: { contains: search } },
+                { prefix: { contains: search } },
+            ];
+        }
+
+        const [apiKeys, total] = await Promise.all([
+            this.prisma.apiKey.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { createdAt: "desc" },
+                select: apiKeySelect,
+            }),
+            this.prisma.apiKey.count({ where }),
+        ]);
+
+        return {
+            data: apiKeys,
+            meta: {
+                total,
+                page,
+                lastPage: Math.ceil(total / limit),
+                perPage: limit,
+                search: search || null,
+            },
+        };
+    }
+
+    /**
+     * Ambil API key berdasarkan ID
+     * @param id - ID API key
+     * @returns API key (tanpa hash) atau null
+     */
+    async findById(id: string) {
+        return this.prisma.apiKey.findUnique({
+            where: { id },
+            select: apiKeySelect,
+        });
+    }
+
+    /**
+     * Buat API key baru
+     * @param input - Data API key
+     * @returns Metadata API key dan key mentah (hanya ditampilkan sekali)
+     */
+    async create(input: CreateApiKeyInput) {
+        const {
+            name,
+            scopes,
+            ownerId,
+            expiresAt = null,
+            createdBy,
+            ipAddress,
+            userAgent,
+        } = input;
+
+        this.validateScopes(scopes);
+
+        const owner = await this.prisma.user.findUnique({
+            where: { id: ownerId, deletedAt: null },
+        });
+        if (!owner) {
+            throw new Error("API key owner not found");
+        }
+        if (expiresAt && expiresAt <= new Date()) {
+            throw new Error("Expiration date must be in the future");
+        }
+
+        const prefix = crypto.randomBytes(6).toString("hex");
+        const secret = crypto.randomBytes(32).toString("base64url");
+        const key = `${KEY_PREFIX}_${prefix}_${secret}`;
+
+        const apiKey = await this.prisma.apiKey.create({
+            data: {
+                name,
+                prefix,
+                keyHash: this.tokenService.hash(key),
+                ownerId,
+                expiresAt,
+                scopes: {
+                    create: this.dedupeScopes(scopes),
+                },
+            },
+            select: apiKeySelect,
+        });
+
+        await this.auditService.log({
+            userId: createdBy,
+            action: "CREATE_API_KEY",
+            tableName: "ApiKey",
+            recordId: apiKey.id,
+            newValues: { name, prefix, ownerId, expiresAt, scopes },
+            details: `API key "${name}" created`,
+            ipAddress,
+            userAgent,
+        });
+
+        return { apiKey, key };
+    }
+
+    /**
+     * Update nama, scope, atau masa berlaku API key
+     * @param input - Data update
+     * @returns API key yang diupdate
+     */
+    async update(input: UpdateApiKeyInput) {
+        const {
+            id,
+            name,
+            scopes,
+            expiresAt,
+            updatedBy,
+            ipAddress,
+            userAgent,
+        } = input;
+
+        const existing = await this.prisma.apiKey.findUnique({
+            where: { id },
+            include: { scopes: true },
+        });
+        if (!existing) {
+            throw new Error("API key not found");
+        }
+        if (existing.revokedAt) {
+            throw new Error("Cannot modify a revoked API key");
+        }
+        if (scopes) {
+            this.validateScopes(scopes);
+        }
+        if (expiresAt && expiresAt <= new Date()) {
+            throw new Error("Expiration date must be in the future");
+        }
+
+        const updated = await this.prisma.apiKey.update({
+            where: { id },
+            data: {
+                name,
+                expiresAt,
+                ...(scopes
+                    ? {
+                          scopes: {
+                              deleteMany: {},
+                              create: this.dedupeScopes(scopes),
+                          },
+                      }
+                    : {}),
+            },
+            select: apiKeySelect,
+        });
+
+        await this.auditService.log({
+            userId: updatedBy,
+            action: "UPDATE_API_KEY",
+            tableName: "ApiKey",
+            recordId: id,
+            oldValues: {
+                name: existing.name,
+                expiresAt: existing.expiresAt,
+                scopes: existing.scopes.map(({ resource, action }) => ({
+                    resource,
+                    action,
+                })),
+            },
+            newValues: { name, expiresAt, scopes },
+            details: `API key "${updated.name}" updated`,
+            ipAddress,
+            userAgent,
+        });
+
+        return updated;
+    }
+
+    /**
+     * Revoke API key (key langsung tidak berlaku, data tetap tersimpan)
+     * @param input - Data revoke
+     */
+    async revoke(input: DeleteApiKeyInput): Promise<void> {
+        const { id, deletedBy, ipAddress, userAgent } = input;
+
+        const existing = await this.prisma.apiKey.findUnique({
+            where: { id },
+        });
+        if (!existing) {
+            throw new Error("API key not found");
+        }
+        if (existing.revokedAt) {
+            throw new Error("API key already revoked");
+        }
+
+        await this.prisma.apiKey.update({
+            where: { id },
+            data: { revokedAt: new Date() },
+        });
+
+        await this.auditService.log({
+            userId: deletedBy,
+            action: "REVOKE_API_KEY",
+            tableName: "ApiKey",
+            recordId: id,
+            oldValues: { name: existing.name, prefix: existing.prefix },
+            details: `API key "${existing.name}" revoked`,
+            ipAddress,
+            userAgent,
+        });
+    }
+
+    /**
+     * Hard delete API key (permanen)
+     * @param input - Data hard delete
+     */
+    async hardDelete(input: DeleteApiKeyInput): Promise<void> {
+        const { id, deletedBy, ipAddress, userAgent } = input;
+
+        const existing = await this.prisma.apiKey.findUnique({
+            where: { id },
+        });
+        if (!existing) {
+            throw new Error("API key not found");
+        }
+
+        await this.prisma.apiKey.delete({ where: { id } });
+
+        await this.auditService.log({
+            userId: deletedBy,
+            action: "HARD_DELETE_API_KEY",
+            tableName: "ApiKey",
+            recordId: id,
+            oldValues: { name: existing.name, prefix: existing.prefix },
+            details: `API key "${existing.name}" permanently deleted`,
+            ipAddress,
+            userAgent,
+        });
+    }
+
+    /**
+     * Validasi API key dari header `x-api-key`
+     * @param rawKey - Key mentah dari request
+     * @param ipAddress - IP client (untuk tracking pemakaian)
+     * @returns Principal (pemilik + scope)
+     * @throws Error jika key tidak valid, kadaluarsa, direvoke, atau pemilik tidak aktif
+     */
+    async validate(rawKey: string, ipAddress?: string): Promise<ApiKeyPrincipal> {
+        if (!rawKey || !rawKey.startsWith(`${KEY_PREFIX}_`)) {
+            throw new Error("Invalid API key");
+        }
+
+        const apiKey = await this.prisma.apiKey.findUnique({
+            where: { keyHash: this.tokenService.hash(rawKey) },
+            include: {
+                scopes: true,
+                owner: { include: { role: true } },
+            },
+        });
+
+        if (!apiKey || apiKey.revokedAt) {
+            throw new Error("Invalid or revoked API key");
+        }
+        if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+            throw new Error("API key has expired");
+        }
+
+        const owner = apiKey.owner;
+        if (owner.status !== "ACTIVE" || owner.deletedAt || !owner.role) {
+            throw new Error("API key owner not found or inactive");
+        }
+
+        const shouldTouch =
+            !apiKey.lastUsedAt ||
+            Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_THROTTLE_MS;
+        if (shouldTouch) {
+            await this.prisma.apiKey.update({
+                where: { id: apiKey.id },
+                data: {
+                    lastUsedAt: new Date(),
+                    lastUsedIp: ipAddress || null,
+                },
+            });
+        }
+
+        return {
+            apiKeyId: apiKey.id,
+            scopes: apiKey.scopes.map(({ resource, action }) => ({
+                resource,
+                action,
+            })),
+            owner: {
+                id: owner.id,
+                email: owner.email,
+                roleId: owner.roleId,
+                role: { name: owner.role.name },
+            },
+        };
+    }
+
+    // Helper methods
+    private validateScopes(scopes: PermissionInput[]): void {
+        if (!Array.isArray(scopes) || scopes.length === 0) {
+            throw new Error("At least one scope is required");
+        }
+        for (const scope of scopes) {
+            if (
+                !scope ||
+                typeof scope.resource !== "string" ||
+                typeof scope.action !== "string" ||
+                !scope.resource.trim() ||
+                !scope.action.trim()
+            ) {
+                throw new Error("Each scope must have a resource and action");
+            }
+            if (
+                !isRegisteredPermission(
+                    scope.resource.trim(),
+                    scope.action.trim()
+                )
+            ) {
+                throw new Error(
+                    `Unknown scope: ${scope.resource}:${scope.action}`
+                );
+            }
+        }
+    }
+
+    private dedupeScopes(scopes: PermissionInput[]): PermissionInput[] {
+        const map = new Map<string, PermissionInput>();
+        for (const { resource, action } of scopes) {
+            const normalized = {
+                resource: resource.trim(),
+                action: action.trim(),
+            };
+            map.set(`${normalized.resource}:${normalized.action}`, normalized);
+        }
+        return Array.from(map.values());
+    }
+}
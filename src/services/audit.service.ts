@@ -9,6 +9,7 @@
  * @security
  * - Semua nilai di-serialize ke JSON → hindari leak object internal
  * - IP address dan user agent disimpan untuk forensik
+ * - Saat impersonation, ID admin asli otomatis ikut tercatat (`impersonatorId`)
  * - Tidak ada filtering log → semua aktivitas terekam
  *
  * @usage
@@ -28,9 +29,11 @@
  */
 
 import { Prisma, PrismaClient } from "@prisma/client";
+import { getRequestContext } from "../utils/request-context";
 
 export interface AuditLogInput {
     userId?: string;
+    impersonatorId?: string; // Default: diambil dari konteks request impersonation
     action: string;
     tableName: string;
     recordId?: string;
@@ -76,6 +79,7 @@ export class AuditService {
         if (search) {
             where.OR = [
                 { userId: { contains: search } },
+                { impersonatorId: { contains: search } },
                 { recordId: { contains: search } },
                 { details: { contains: search } },
                 { tableName: { contains: search } },
@@ -107,6 +111,9 @@ export class AuditService {
                             role: { select: { name: true } },
                         },
                     },
+                    impersonator: {
+                        select: { id: true, name: true, email: true },
+                    },
                 },
             }),
             this.prisma.auditLog.count({ where }),
@@ -134,6 +141,7 @@ export class AuditService {
      */
     async log({
         userId,
+        impersonatorId = getRequestContext()?.impersonatorId,
         action,
         tableName,
         recordId,
@@ -154,6 +162,7 @@ export class AuditService {
         await this.prisma.auditLog.create({
             data: {
                 userId,
+                impersonatorId,
                 action,
                 tableName,
                 recordId,
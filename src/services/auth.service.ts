@@ -2,38 +2,57 @@
  * @file AuthService – Manajemen autentikasi dan otorisasi pengguna
  * @description
  * Layanan terpusat untuk operasi autentikasi:
- * - Login, refresh token, logout
+ * - Login, refresh token (dengan rotasi), logout
+ * - Login dua langkah (TOTP) untuk user dengan 2FA aktif / diwajibkan role
+ * - Sesi per perangkat (setiap login membuat `Session` baru)
  * - Forgot & reset password dengan throttling
+ * - Ganti password (dengan verifikasi password lama)
  * - Profile management (getMe)
  *
  * @security
  * - Throttling 2 menit untuk forgot password
+ * - Proteksi brute-force login: counter per akun/IP, delay progresif, lockout sementara
  * - Semua token direvoke setelah reset password
+ * - Password baru wajib lolos kebijakan password & tidak boleh reuse riwayat
+ * - Token hanya disimpan sebagai keyed hash; pencarian di DB memakai hash
+ * - Refresh token dirotasi setiap refresh; reuse token lama → seluruh family direvoke
+ * - Access/refresh token terikat ke sesi → revoke sesi memutus perangkat tersebut saja
  * - Tidak ada user enumeration (respons sama untuk email valid/tidak)
  * - Avatar default otomatis jika tidak ada
  *
  * @usage
  * const authService = new AuthService(
- *   prisma, passwordService, tokenService, fileService,
- *   auditService, emailService, timezoneService
+ *   prisma, passwordService, passwordPolicyService, tokenService, sessionService, twoFactorService,
+ *   loginAttemptService, fileService, auditService, notificationService,
+ *   emailService, emailTemplateService, timezoneService
  * );
  *
  * const result = await authService.login(email, password, ip, ua);
  *
  * @dependencies
  * - `@prisma/client`
- * - `PasswordService`, `TokenService`, `FileService`, `AuditService`
- * - `EmailService`, `TimezoneService`
+ * - `PasswordService`, `PasswordPolicyService`, `TokenService`, `SessionService`
+ * - `TwoFactorService`, `LoginAttemptService`
+ * - `FileService`, `AuditService`
+ * - `NotificationService`, `EmailService`, `TimezoneService`
  */
 
-import { PrismaClient } from "@prisma/client";
+import { PrismaClient, Role, Token, User } from "@prisma/client";
 import { v4 as uuidv4 } from "uuid";
 import dayjs from "dayjs";
 import { jwtConfig } from "../config/jwt.config";
 import { PasswordService } from "./password.service";
+import { PasswordPolicyService } from "./password-policy.service";
 import { TokenService } from "./token.service";
+import { SessionService } from "./session.service";
+import { LoginAttemptService } from "./login-attempt.service";
+import {
+    TwoFactorEnrollment,
+    TwoFactorService,
+} from "./two-factor.service";
 import { FileService } from "./file.service";
 import { AuditService } from "./audit.service";
+import { NotificationService } from "./notification.service";
 import { EmailService } from "./email.service";
 import { TimezoneService } from "./timezone.service";
 import { ForgotPasswordEmailTemplate } from "./email/email-templates/forgot-password.template";
@@ -42,6 +61,7 @@ import { EmailTemplateService } from "./email/email-template.service";
 export type LoginResult = {
     accessToken: string;
     refreshToken: string;
+    sessionId: string;
     user: {
         id: string;
         name: string;
@@ -54,11 +74,26 @@ export type LoginResult = {
     };
 };
 
+export type TwoFactorChallengeResult = {
+    twoFactorRequired: true;
+    challengeToken: string;
+    setup?: TwoFactorEnrollment; // Hanya jika role mewajibkan 2FA dan user belum enroll
+};
+
+export type RefreshResult = {
+    accessToken: string;
+    refreshToken: string;
+};
+
 export interface AuthenticatedUser {
     id: string;
     email: string;
     roleId: string;
     role: { name: string };
+    sessionId?: string;
+    apiKeyId?: string;
+    apiKeyScopes?: { resource: string; action: string }[];
+    impersonator?: { id: string; email: string }; // Terisi jika token hasil impersonation
 }
 
 export interface AuthServiceConfig {
@@ -74,9 +109,14 @@ export class AuthService {
     constructor(
         private prisma: PrismaClient,
         private passwordService: PasswordService,
+        private passwordPolicyService: PasswordPolicyService,
         private tokenService: TokenService,
+        private sessionService: SessionService,
+        private twoFactorService: TwoFactorService,
+        private loginAttemptService: LoginAttemptService,
         private fileService: FileService,
         private auditService: AuditService,
+        private notificationService: NotificationService,
         private emailService: EmailService,
         private emailTemplateService: EmailTemplateService,
         private timezoneService: TimezoneService,
@@ -96,91 +136,155 @@ export class AuthService {
      * @param password - Password plaintext
      * @param ipAddress - IP address untuk audit
      * @param userAgent - User agent untuk audit
-     * @returns Token dan data user
+     * @returns Token dan data user, atau challenge token jika 2FA diperlukan
      */
     async login(
         email: string,
         password: string,
         ipAddress?: string,
         userAgent?: string
-    ): Promise<LoginResult> {
-        const user = await this.prisma.user.findUnique({
-            where: { email, status: "ACTIVE", deletedAt: null },
+    ): Promise<LoginResult | TwoFactorChallengeResult> {
+        await this.loginAttemptService.assertIpAllowed(ipAddress);
+
+        // Status tidak difilter di query agar percobaan ke akun terkunci tetap terhitung
+        const existingUser = await this.prisma.user.findUnique({
+            where: { email, deletedAt: null },
             include: { role: true },
         });
 
-        if (!user) {
+        if (!existingUser) {
+            await this.loginAttemptService.recordFailure({
+                email,
+                reason: "unknown email",
+                ipAddress,
+                userAgent,
+            });
             throw new Error("Invalid email or password");
         }
 
+        // Tolak akun terkunci sebelum password diverifikasi (lockout kadaluarsa → dibuka)
+        const user = await this.loginAttemptService.assertAccountAllowed(
+            existingUser
+        );
+
         const isPasswordValid = await this.passwordService.verify(
             password,
             user.password
         );
         if (!isPasswordValid) {
+            await this.loginAttemptService.recordFailure({
+                email,
+                user,
+                reason: "invalid password",
+                ipAddress,
+                userAgent,
+            });
             throw new Error("Invalid email or password");
         }
 
-        await this.prisma.user.update({
-            where: { id: user.id },
-            data: { lastLoginAt: new Date() },
-        });
+        if (user.status !== "ACTIVE") {
+            throw new Error("Invalid email or password");
+        }
 
-        const avatarUrl = user.avatar || "/uploads/avatars/default-avatar.png";
-        const payload = { id: user.id, email: user.email, roleId: user.roleId };
+        // Langkah kedua: 2FA aktif, atau diwajibkan oleh role tapi belum enroll
+        if (user.twoFactorEnabled || user.role.requireTwoFactor) {
+            const challengeToken = await this.twoFactorService.createChallenge(
+                user.id,
+                ipAddress,
+                userAgent
+            );
 
-        const accessToken = this.tokenService.generateAccessToken(payload);
-        const refreshToken = this.tokenService.generateRefreshToken(payload);
+            if (user.twoFactorEnabled) {
+                return { twoFactorRequired: true, challengeToken };
+            }
 
-        await Promise.all([
-            this.prisma.token.create({
-                data: {
-                    token: accessToken,
-                    type: "access_token",
-                    userId: user.id,
-                    expiresAt: new Date(
-                        Date.now() + this.config.accessTokenExpiresIn
-                    ),
-                    isRevoked: false,
-                },
-            }),
-            this.prisma.token.create({
-                data: {
-                    token: refreshToken,
-                    type: "refresh_token",
-                    userId: user.id,
-                    expiresAt: new Date(
-                        Date.now() + this.config.refreshTokenExpiresIn
-                    ),
-                    isRevoked: false,
-                },
-            }),
-        ]);
+            // Secret yang belum dikonfirmasi dipakai ulang agar QR code
+            // yang sudah dipindai tetap berlaku
+            return {
+                twoFactorRequired: true,
+                challengeToken,
+                setup: await this.twoFactorService.resumeEnrollment(user.id),
+            };
+        }
 
-        await this.auditService.log({
-            userId: user.id,
-            action: "LOGIN",
-            tableName: "User",
-            recordId: user.id,
-            details: "User logged in successfully",
-            ipAddress,
-            userAgent,
+        return this.issueSession(user, ipAddress, userAgent);
+    }
+
+    /**
+     * Langkah kedua login: verifikasi kode TOTP / recovery code lalu terbitkan token
+     * @param challengeToken - Challenge token dari langkah pertama
+     * @param code - Kode TOTP 6 digit atau recovery code
+     * @param ipAddress - IP address untuk audit
+     * @param userAgent - User agent untuk audit
+     * @returns Token dan data user (+ recovery codes jika ini enrollment pertama)
+     */
+    async completeTwoFactorLogin(
+        challengeToken: string,
+        code: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<LoginResult & { recoveryCodes?: string[] }> {
+        await this.loginAttemptService.assertIpAllowed(ipAddress);
+
+        // Challenge baru dipakai setelah kode valid, sehingga salah ketik
+        // tidak memaksa login ulang; setiap kode salah tercatat sebagai login
+        // gagal dan challenge dicabut setelah batas percobaan
+        const userId = await this.twoFactorService.resolveChallenge(
+            challengeToken
+        );
+
+        const existingUser = await this.prisma.user.findUnique({
+            where: { id: userId, status: "ACTIVE", deletedAt: null },
+            include: { role: true },
         });
+        if (!existingUser) {
+            throw new Error("Invalid or expired two-factor challenge");
+        }
+        const user = await this.loginAttemptService.assertAccountAllowed(
+            existingUser
+        );
 
-        return {
-            accessToken,
-            refreshToken,
-            user: {
-                id: user.id,
-                name: user.name,
-                email: user.email,
-                avatar: avatarUrl,
-                role: {
-                    id: user.role.id,
-                    name: user.role.name,
-                },
-            },
-        };
+        // Enrollment paksa (role mewajibkan 2FA): kode pertama sekaligus konfirmasi
+        if (!user.twoFactorEnabled) {
+            let recoveryCodes: string[];
+            try {
+                ({ recoveryCodes } =
+                    await this.twoFactorService.confirmEnrollment(
+                        user.id,
+                        code,
+                        ipAddress,
+                        userAgent
+                    ));
+            } catch (error) {
+                await this.recordTwoFactorFailure(
+                    challengeToken,
+                    user,
+                    ipAddress,
+                    userAgent
+                );
+                throw error;
+            }
+            await this.twoFactorService.consumeChallenge(challengeToken);
+            const result = await this.issueSession(user, ipAddress, userAgent);
+            return { ...result, recoveryCodes };
+        }
+
+        const isCodeValid = await this.twoFactorService.verifyCode(
+            user.id,
+            code
+        );
+        if (!isCodeValid) {
+            await this.recordTwoFactorFailure(
+                challengeToken,
+                user,
+                ipAddress,
+                userAgent
+            );
+            throw new Error("Invalid two-factor code");
+        }
+
+        await this.twoFactorService.consumeChallenge(challengeToken);
+        return this.issueSession(user, ipAddress, userAgent);
     }
 
     /**
@@ -206,7 +310,7 @@ export class AuthService {
         // Cek token di DB
         const tokenRecord = await this.prisma.token.findFirst({
             where: {
-                token,
+                tokenHash: this.tokenService.hash(token),
                 type: "access_token",
                 isRevoked: false,
                 expiresAt: { gt: new Date() },
@@ -217,6 +321,16 @@ export class AuthService {
             throw new Error("Invalid or revoked access token");
         }
 
+        // Token yang terikat ke sesi hanya valid selama sesinya aktif
+        if (tokenRecord.sessionId) {
+            const session = await this.sessionService.findActive(
+                tokenRecord.sessionId
+            );
+            if (!session) {
+                throw new Error("Session has been revoked or expired");
+            }
+        }
+
         // Cek user
         const user = await this.prisma.user.findUnique({
             where: {
@@ -231,26 +345,47 @@ export class AuthService {
             throw new Error("User not found or inactive");
         }
 
+        // Token impersonation hanya valid selama admin aslinya masih aktif
+        let impersonator: AuthenticatedUser["impersonator"];
+        if (typeof payload.impersonatorId === "string") {
+            const realUser = await this.prisma.user.findUnique({
+                where: {
+                    id: payload.impersonatorId,
+                    status: "ACTIVE",
+                    deletedAt: null,
+                },
+                select: { id: true, email: true },
+            });
+            if (!realUser) {
+                throw new Error("Impersonating user not found or inactive");
+            }
+            impersonator = realUser;
+        }
+
         return {
             id: user.id,
             email: user.email,
             roleId: user.roleId,
             role: { name: user.role.name },
+            sessionId: tokenRecord.sessionId ?? undefined,
+            impersonator,
         };
     }
 
     /**
-     * Generate access token baru menggunakan refresh token
+     * Rotasi refresh token: terbitkan access token DAN refresh token baru
      * @param refreshToken - Refresh token yang valid
      * @param ipAddress - IP address untuk audit
      * @param userAgent - User agent untuk audit
-     * @returns Access token baru
+     * @returns Pasangan token baru
+     * @throws Error jika token tidak valid, atau token lama dipakai ulang
+     *   (seluruh family token + sesinya langsung direvoke)
      */
     async refreshAccessToken(
         refreshToken: string,
         ipAddress?: string,
         userAgent?: string
-    ): Promise<string> {
+    ): Promise<RefreshResult> {
         let payload: any;
         try {
             payload = this.tokenService.verifyToken(refreshToken, true);
@@ -260,11 +395,9 @@ export class AuthService {
 
         const refreshTokenRecord = await this.prisma.token.findFirst({
             where: {
-                token: refreshToken,
+                tokenHash: this.tokenService.hash(refreshToken),
                 userId: payload.id,
                 type: "refresh_token",
-                isRevoked: false,
-                expiresAt: { gt: new Date() },
             },
         });
 
@@ -272,40 +405,127 @@ export class AuthService {
             throw new Error("Refresh token not found or already revoked");
         }
 
-        await this.prisma.token.updateMany({
-            where: {
-                userId: payload.id,
-                type: "access_token",
-                isRevoked: false,
-            },
-            data: { isRevoked: true },
-        });
+        // Token yang sudah pernah dirotasi dipakai lagi → indikasi token dicuri
+        if (refreshTokenRecord.usedAt) {
+            await this.handleRefreshTokenReuse(
+                refreshTokenRecord,
+                ipAddress,
+                userAgent
+            );
+            throw new Error("Refresh token reuse detected, session revoked");
+        }
 
-        const newAccessToken = this.tokenService.generateAccessToken({
+        if (
+            refreshTokenRecord.isRevoked ||
+            refreshTokenRecord.expiresAt <= new Date()
+        ) {
+            throw new Error("Refresh token not found or already revoked");
+        }
+
+        const sessionId = refreshTokenRecord.sessionId;
+        if (sessionId) {
+            const session = await this.sessionService.findActive(sessionId);
+            if (!session) {
+                throw new Error("Session has been revoked or expired");
+            }
+        }
+
+        const tokenPayload = {
             id: payload.id,
             email: payload.email,
             roleId: payload.roleId,
-        });
+        };
+        const newAccessToken =
+            this.tokenService.generateAccessToken(tokenPayload);
+        const newRefreshToken =
+            this.tokenService.generateRefreshToken(tokenPayload);
+        const refreshExpiresAt = new Date(
+            Date.now() + this.config.refreshTokenExpiresIn
+        );
 
-        await this.prisma.token.create({
-            data: {
-                userId: payload.id,
-                token: newAccessToken,
-                type: "access_token",
-                expiresAt: new Date(
-                    Date.now() + this.config.accessTokenExpiresIn
-                ),
-                isRevoked: false,
-                ipAddress: ipAddress || null,
-                userAgent: userAgent || null,
-            },
+        const rotated = await this.prisma.$transaction(async (tx) => {
+            // Klaim token lama secara atomik (cegah dua refresh paralel)
+            const claimed = await tx.token.updateMany({
+                where: { id: refreshTokenRecord.id, usedAt: null },
+                data: { usedAt: new Date(), isRevoked: true },
+            });
+            if (claimed.count === 0) return false;
+
+            // Hanya revoke access token milik sesi ini (perangkat lain tetap login)
+            await tx.token.updateMany({
+                where: sessionId
+                    ? { sessionId, type: "access_token", isRevoked: false }
+                    : {
+                          userId: payload.id,
+                          type: "access_token",
+                          isRevoked: false,
+                      },
+                data: { isRevoked: true },
+            });
+
+            await tx.token.createMany({
+                data: [
+                    {
+                        userId: payload.id,
+                        tokenHash: this.tokenService.hash(newAccessToken),
+                        type: "access_token",
+                        sessionId,
+                        familyId: refreshTokenRecord.familyId,
+                        expiresAt: new Date(
+                            Date.now() + this.config.accessTokenExpiresIn
+                        ),
+                        isRevoked: false,
+                        ipAddress: ipAddress || null,
+                        userAgent: userAgent || null,
+                    },
+                    {
+                        userId: payload.id,
+                        tokenHash: this.tokenService.hash(newRefreshToken),
+                        type: "refresh_token",
+                        sessionId,
+                        familyId: refreshTokenRecord.familyId,
+                        parentId: refreshTokenRecord.id,
+                        expiresAt: refreshExpiresAt,
+                        isRevoked: false,
+                        ipAddress: ipAddress || null,
+                        userAgent: userAgent || null,
+                    },
+                ],
+            });
+
+            if (sessionId) {
+                await this.sessionService.rotate(
+                    sessionId,
+                    newRefreshToken,
+                    refreshExpiresAt,
+                    tx
+                );
+            }
+
+            return true;
         });
 
-        return newAccessToken;
+        if (!rotated) {
+            await this.handleRefreshTokenReuse(
+                refreshTokenRecord,
+                ipAddress,
+                userAgent
+            );
+            throw new Error("Refresh token reuse detected, session revoked");
+        }
+
+        if (sessionId) {
+            await this.sessionService.touch(sessionId, ipAddress, userAgent);
+        }
+
+        return {
+            accessToken: newAccessToken,
+            refreshToken: newRefreshToken,
+        };
     }
 
     /**
-     * Logout pengguna dan revoke semua token
+     * Logout pengguna dan revoke semua token serta sesi di semua perangkat
      * @param refreshToken - Refresh token untuk identifikasi user
      * @param ipAddress - IP address untuk audit
      * @param userAgent - User agent untuk audit
@@ -317,7 +537,7 @@ export class AuthService {
     ): Promise<void> {
         const tokenRecord = await this.prisma.token.findFirst({
             where: {
-                token: refreshToken,
+                tokenHash: this.tokenService.hash(refreshToken),
                 type: "refresh_token",
                 isRevoked: false,
             },
@@ -331,6 +551,7 @@ export class AuthService {
             where: { userId: tokenRecord.userId, isRevoked: false },
             data: { isRevoked: true },
         });
+        await this.sessionService.revokeAll(tokenRecord.userId);
 
         await this.auditService.log({
             userId: tokenRecord.userId,
@@ -394,10 +615,10 @@ export class AuthService {
             Date.now() + this.config.resetTokenExpiresIn
         );
 
-        await this.prisma.$transaction([
+        const [resetTokenRecord] = await this.prisma.$transaction([
             this.prisma.token.create({
                 data: {
-                    token: resetToken,
+                    tokenHash: this.tokenService.hash(resetToken),
                     type: "reset_password",
                     userId: user.id,
                     expiresAt,
@@ -417,7 +638,7 @@ export class AuthService {
             userId: user.id,
             action: "FORGOT_PASSWORD",
             tableName: "Token",
-            recordId: resetToken,
+            recordId: resetTokenRecord.id,
             details: "Password reset token generated",
             ipAddress,
             userAgent,
@@ -460,7 +681,7 @@ export class AuthService {
     ): Promise<void> {
         const tokenRecord = await this.prisma.token.findFirst({
             where: {
-                token,
+                tokenHash: this.tokenService.hash(token),
                 type: "reset_password",
                 isRevoked: false,
                 usedAt: null,
@@ -473,6 +694,15 @@ export class AuthService {
             throw new Error("Invalid or expired reset token");
         }
 
+        this.passwordPolicyService.assertValid(newPassword, {
+            name: tokenRecord.user.name,
+            email: tokenRecord.user.email,
+        });
+        await this.passwordPolicyService.assertNotReused(
+            tokenRecord.userId,
+            newPassword
+        );
+
         const hashedPassword = await this.passwordService.hash(newPassword);
 
         await Promise.all([
@@ -480,6 +710,10 @@ export class AuthService {
                 where: { id: tokenRecord.userId },
                 data: { password: hashedPassword },
             }),
+            this.passwordPolicyService.remember(
+                tokenRecord.userId,
+                hashedPassword
+            ),
             this.prisma.token.update({
                 where: { id: tokenRecord.id },
                 data: { usedAt: new Date(), isRevoked: true },
@@ -491,6 +725,7 @@ export class AuthService {
                 },
                 data: { isRevoked: true },
             }),
+            this.sessionService.revokeAll(tokenRecord.userId),
         ]);
 
         await this.auditService.log({
@@ -504,6 +739,81 @@ export class AuthService {
         });
     }
 
+    /**
+     * Ambil kebijakan password aktif (untuk form set/ganti password di frontend)
+     * @returns Kebijakan password
+     */
+    getPasswordPolicy() {
+        return this.passwordPolicyService.getPolicy();
+    }
+
+    /**
+     * Ganti password pengguna yang sedang login
+     * @param userId - ID pengguna
+     * @param currentPassword - Password saat ini (verifikasi)
+     * @param newPassword - Password baru
+     * @param currentSessionId - Sesi saat ini (tetap aktif, sesi lain direvoke)
+     * @param ipAddress - IP address untuk audit
+     * @param userAgent - User agent untuk audit
+     */
+    async changePassword(
+        userId: string,
+        currentPassword: string,
+        newPassword: string,
+        currentSessionId?: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId, deletedAt: null },
+        });
+        if (!user) {
+            throw new Error("User not found");
+        }
+
+        const isPasswordValid = await this.passwordService.verify(
+            currentPassword,
+            user.password
+        );
+        if (!isPasswordValid) {
+            throw new Error("Current password is incorrect");
+        }
+
+        this.passwordPolicyService.assertValid(newPassword, {
+            name: user.name,
+            email: user.email,
+        });
+        await this.passwordPolicyService.assertNotReused(userId, newPassword);
+
+        const hashedPassword = await this.passwordService.hash(newPassword);
+
+        await Promise.all([
+            this.prisma.user.update({
+                where: { id: userId },
+                data: { password: hashedPassword },
+            }),
+            this.passwordPolicyService.remember(userId, hashedPassword),
+        ]);
+
+        // Perangkat lain harus login ulang dengan password baru
+        await this.sessionService.revokeOthers(
+            userId,
+            currentSessionId,
+            ipAddress,
+            userAgent
+        );
+
+        await this.auditService.log({
+            userId,
+            action: "CHANGE_PASSWORD",
+            tableName: "User",
+            recordId: userId,
+            details: "Password changed",
+            ipAddress,
+            userAgent,
+        });
+    }
+
     /**
      * Ambil profil pengguna saat ini
      * @param userId - ID pengguna
@@ -705,4 +1015,188 @@ export class AuthService {
 
         return null;
     }
+
+    // Helper methods
+    /**
+     * Catat kode 2FA yang salah sebagai login gagal (counter, lockout, audit)
+     * lalu cabut challenge jika batas percobaannya sudah tercapai
+     */
+    private async recordTwoFactorFailure(
+        challengeToken: string,
+        user: User,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        await this.loginAttemptService.recordFailure({
+            email: user.email,
+            user,
+            reason: "invalid two-factor code",
+            ipAddress,
+            userAgent,
+        });
+        await this.twoFactorService.revokeChallengeIfExhausted(challengeToken);
+    }
+
+    /**
+     * Terbitkan access/refresh token + sesi baru untuk user yang sudah terverifikasi
+     * @param user - User beserta role
+     * @param ipAddress - IP address untuk audit
+     * @param userAgent - User agent untuk audit
+     * @returns Token dan data user
+     */
+    private async issueSession(
+        user: User & { role: Role },
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<LoginResult> {
+        await this.loginAttemptService.recordSuccess(
+            user.id,
+            user.email,
+            ipAddress,
+            userAgent
+        );
+        await this.prisma.user.update({
+            where: { id: user.id },
+            data: { lastLoginAt: new Date() },
+        });
+
+        const avatarUrl = user.avatar || "/uploads/avatars/default-avatar.png";
+        const payload = { id: user.id, email: user.email, roleId: user.roleId };
+
+        const accessToken = this.tokenService.generateAccessToken(payload);
+        const refreshToken = this.tokenService.generateRefreshToken(payload);
+        const refreshExpiresAt = new Date(
+            Date.now() + this.config.refreshTokenExpiresIn
+        );
+
+        // Setiap login = satu sesi perangkat baru + satu family refresh token
+        const familyId = uuidv4();
+        const session = await this.prisma.$transaction(async (tx) => {
+            const session = await this.sessionService.create(
+                {
+                    userId: user.id,
+                    refreshToken,
+                    expiresAt: refreshExpiresAt,
+                    ipAddress,
+                    userAgent,
+                },
+                tx
+            );
+
+            await tx.token.createMany({
+                data: [
+                    {
+                        tokenHash: this.tokenService.hash(accessToken),
+                        type: "access_token",
+                        userId: user.id,
+                        sessionId: session.id,
+                        familyId,
+                        expiresAt: new Date(
+                            Date.now() + this.config.accessTokenExpiresIn
+                        ),
+                        isRevoked: false,
+                        ipAddress: ipAddress || null,
+                        userAgent: userAgent || null,
+                    },
+                    {
+                        tokenHash: this.tokenService.hash(refreshToken),
+                        type: "refresh_token",
+                        userId: user.id,
+                        sessionId: session.id,
+                        familyId,
+                        expiresAt: refreshExpiresAt,
+                        isRevoked: false,
+                        ipAddress: ipAddress || null,
+                        userAgent: userAgent || null,
+                    },
+                ],
+            });
+
+            return session;
+        });
+
+        await this.auditService.log({
+            userId: user.id,
+            action: "LOGIN",
+            tableName: "User",
+            recordId: user.id,
+            details: `User logged in successfully (session ${session.id})`,
+            ipAddress,
+            userAgent,
+        });
+
+        return {
+            accessToken,
+            refreshToken,
+            sessionId: session.id,
+            user: {
+                id: user.id,
+                name: user.name,
+                email: user.email,
+                avatar: avatarUrl,
+                role: {
+                    id: user.role.id,
+                    name: user.role.name,
+                },
+            },
+        };
+    }
+
+    /**
+     * Tangani refresh token yang dipakai ulang setelah dirotasi:
+     * revoke seluruh family token + sesinya, catat audit, dan kirim security alert
+     */
+    private async handleRefreshTokenReuse(
+        tokenRecord: Token,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        const familyWhere = tokenRecord.familyId
+            ? { familyId: tokenRecord.familyId }
+            : tokenRecord.sessionId
+            ? { sessionId: tokenRecord.sessionId }
+            : { userId: tokenRecord.userId };
+
+        const revoked = await this.prisma.token.updateMany({
+            where: { ...familyWhere, isRevoked: false },
+            data: { isRevoked: true },
+        });
+
+        if (tokenRecord.sessionId) {
+            await this.sessionService.invalidate(tokenRecord.sessionId);
+        }
+
+        await this.auditService.log({
+            userId: tokenRecord.userId,
+            action: "REFRESH_TOKEN_REUSE",
+            tableName: "Token",
+            recordId: tokenRecord.id,
+            newValues: {
+                familyId: tokenRecord.familyId,
+                sessionId: tokenRecord.sessionId,
+                revokedTokens: revoked.count,
+            },
+            details:
+                "Rotated refresh token was presented again; token family revoked",
+            ipAddress,
+            userAgent,
+        });
+
+        this.notificationService
+            .notifyByPermission(
+                "user",
+                "security_alert",
+                {
+                    event: "Refresh token reuse",
+                    userId: tokenRecord.userId,
+                    ipAddress: ipAddress || null,
+                    timestamp: new Date().toISOString(),
+                },
+                "tokens",
+                tokenRecord.id
+            )
+            .catch((error) => {
+                console.warn("Security alert notification failed:", error);
+            });
+    }
 }
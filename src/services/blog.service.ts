@@ -62,7 +62,7 @@ export interface UpdateBlogInput {
     id: string;
     data: BlogInput;
     translations: TranslationInput[];
-    authorId: string;
+    authorId?: string; // kosong = pertahankan penulis saat ini
     updatedBy: string;
     ipAddress?: string;
     userAgent?: string;
@@ -120,14 +120,14 @@ export class BlogService {
                 {
                     translations: {
                         some: {
-                            title: { contains: search, mode: "insensitive" },
+                            title: { contains: search },
                         },
                     },
                 },
                 {
                     translations: {
                         some: {
-                            excerpt: { contains: search, mode: "insensitive" },
+                            excerpt: { contains: search },
                         },
                     },
                 },
@@ -186,6 +186,19 @@ export class BlogService {
         return blog;
     }
 
+    /**
+     * Ambil ID penulis blog (untuk permission ber-scope "own")
+     * @param id - ID blog
+     * @returns ID penulis atau null jika blog tidak ditemukan
+     */
+    async findOwnerId(id: string): Promise<string | null> {
+        const blog = await this.prisma.blog.findUnique({
+            where: { id, deletedAt: null },
+            select: { authorId: true },
+        });
+        return blog?.authorId ?? null;
+    }
+
     /**
      * Buat blog baru atau restore jika sudah ada (soft-deleted)
      * @param input - Data blog dan terjemahan
@@ -361,7 +374,6 @@ export class BlogService {
             id,
             data: { slug, image, isPublished, isFeatured },
             translations,
-            authorId,
             updatedBy,
             ipAddress,
             userAgent,
@@ -376,6 +388,8 @@ export class BlogService {
             throw new Error("Blog not found");
         }
 
+        const authorId = input.authorId ?? existing.authorId;
+
         const author = await this.prisma.user.findUnique({
             where: { id: authorId },
         });
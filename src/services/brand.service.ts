@@ -97,8 +97,8 @@ export class BrandService {
 
         if (search) {
             where.OR = [
-                { name: { contains: search, mode: "insensitive" } },
-                { slug: { contains: search, mode: "insensitive" } },
+                { name: { contains: search } },
+                { slug: { contains: search } },
             ];
         }
 
@@ -84,8 +84,8 @@ export class CatalogService {
 
         if (search) {
             where.OR = [
-                { name: { contains: search, mode: "insensitive" } },
-                { description: { contains: search, mode: "insensitive" } },
+                { name: { contains: search } },
+                { description: { contains: search } },
             ];
         }
 
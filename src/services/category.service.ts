@@ -3,35 +3,65 @@
  * @description
  * Layanan terpusat untuk operasi kategori:
  * - CRUD kategori (termasuk soft/hard delete dan restore)
+ * - Terjemahan kategori (ID/EN) beserta meta SEO
+ * - Gambar kategori dan sortOrder manual per parent (sesama sub-kategori)
+ * - Hierarki kategori (parent/child), full tree, breadcrumb, dan daftar turunan
  * - Integrasi audit log untuk semua operasi
  *
  * @security
  * - Kategori dengan produk aktif tidak bisa dihapus
+ * - Kategori yang masih memiliki sub-kategori tidak bisa dihapus
+ * - Update parent dicek agar tidak membentuk siklus (parent = diri sendiri / turunannya)
  * - Validasi duplikat slug sebelum create/update
+ * - Hapus file gambar lama saat update/hard delete
  * - Semua operasi tercatat di audit log
  *
  * @usage
- * const categoryService = new CategoryService(prisma, auditService, slugService);
+ * const categoryService = new CategoryService(prisma, auditService, slugService, fileService, sortOrderService);
  *
  * const category = await categoryService.create({
  *   name: 'Elektronik',
+ *   translations: [{ language: 'EN', name: 'Electronics' }],
  *   createdBy: 'usr_123'
  * });
  *
+ * const tree = await categoryService.getTree();
+ * const ids = await categoryService.getDescendantIds('cat_123'); // termasuk 'cat_123'
+ *
  * @dependencies
  * - `@prisma/client`
- * - `AuditService`, `SlugService`
+ * - `AuditService`, `SlugService`, `FileService`, `SortOrderService`
  */
 
-import { PrismaClient } from "@prisma/client";
+import {
+    Category,
+    CategoryTranslation,
+    Language,
+    PrismaClient,
+} from "@prisma/client";
 import { AuditService } from "./audit.service";
 import { SlugService } from "./slug.service";
+import { FileService } from "./file.service";
+import { SortOrderService } from "./sort-order.service";
+
+export interface CategoryTranslationInput {
+    language: Language;
+    name?: string | null;
+    description?: string | null;
+    metaTitle?: string | null;
+    metaDescription?: string | null;
+    metaKeywords?: string | null;
+}
 
 export interface CreateCategoryInput {
     slug: string;
     name: string;
     description?: string | null;
+    image?: string | null;
     isActive?: boolean;
+    sortOrder?: number;
+    parentId?: string | null;
+    translations?: CategoryTranslationInput[];
     createdBy: string;
     ipAddress?: string;
     userAgent?: string;
@@ -42,7 +72,11 @@ export interface UpdateCategoryInput {
     slug: string;
     name: string;
     description?: string | null;
-    isActive: boolean;
+    image?: string | null; // undefined = tidak diubah
+    isActive?: boolean;
+    sortOrder?: number;
+    parentId?: string | null; // undefined = tidak diubah, null = jadikan root
+    translations?: CategoryTranslationInput[]; // undefined = tidak diubah
     updatedBy: string;
     ipAddress?: string;
     userAgent?: string;
@@ -55,11 +89,24 @@ export interface DeleteCategoryInput {
     userAgent?: string;
 }
 
+export type CategoryTreeNode = Category & {
+    translations: CategoryTranslation[];
+    children: CategoryTreeNode[];
+};
+
+export interface CategoryBreadcrumbItem {
+    id: string;
+    slug: string;
+    name: string;
+}
+
 export class CategoryService {
     constructor(
         private prisma: PrismaClient,
         private auditService: AuditService,
-        private slugService: SlugService
+        private slugService: SlugService,
+        private fileService: FileService,
+        private sortOrderService: SortOrderService
     ) {}
 
     /**
@@ -84,8 +131,8 @@ export class CategoryService {
 
         if (search) {
             where.OR = [
-                { name: { contains: search, mode: "insensitive" } },
-                { slug: { contains: search, mode: "insensitive" } },
+                { name: { contains: search } },
+                { slug: { contains: search } },
             ];
         }
 
@@ -94,7 +141,8 @@ export class CategoryService {
                 where,
                 skip,
                 take: limit,
-                orderBy: { name: "asc" },
+                include: { translations: true },
+                orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
             }),
             this.prisma.category.count({ where }),
         ]);
@@ -119,7 +167,134 @@ export class CategoryService {
     async findById(id: string) {
         return this.prisma.category.findUnique({
             where: { id, deletedAt: null },
+            include: { translations: true },
+        });
+    }
+
+    /**
+     * Ambil seluruh kategori dalam bentuk tree (root → children)
+     * @param options - `activeOnly`: hanya kategori aktif (turunan kategori non-aktif ikut tersembunyi)
+     * @returns Daftar kategori root beserta children bertingkat
+     */
+    async getTree(
+        options: { activeOnly?: boolean } = {}
+    ): Promise<CategoryTreeNode[]> {
+        const categories = await this.prisma.category.findMany({
+            where: {
+                deletedAt: null,
+                ...(options.activeOnly ? { isActive: true } : {}),
+            },
+            include: { translations: true },
+            orderBy: [{ sortOrder: "asc" }, { name: "asc" }],
+        });
+
+        const nodes = new Map<string, CategoryTreeNode>(
+            categories.map((category) => [
+                category.id,
+                { ...category, children: [] },
+            ])
+        );
+
+        const roots: CategoryTreeNode[] = [];
+        for (const node of nodes.values()) {
+            if (!node.parentId) {
+                roots.push(node);
+                continue;
+            }
+            // Parent terhapus/non-aktif → subtree tidak ditampilkan
+            nodes.get(node.parentId)?.children.push(node);
+        }
+
+        return roots;
+    }
+
+    /**
+     * Ambil breadcrumb kategori (root → kategori ini)
+     * @param id - ID kategori
+     * @returns Daftar kategori dari root hingga kategori yang diminta
+     */
+    async getBreadcrumb(id: string): Promise<CategoryBreadcrumbItem[]> {
+        const category = await this.prisma.category.findUnique({
+            where: { id, deletedAt: null },
+        });
+        if (!category) {
+            throw new Error("Category not found");
+        }
+
+        const ancestorIds = await this.getAncestorIds(category.parentId);
+        const ancestors = await this.prisma.category.findMany({
+            where: { id: { in: ancestorIds } },
+            select: { id: true, slug: true, name: true },
+        });
+        const byId = new Map(ancestors.map((a) => [a.id, a]));
+
+        const breadcrumb: CategoryBreadcrumbItem[] = [];
+        for (const ancestorId of ancestorIds.reverse()) {
+            const ancestor = byId.get(ancestorId);
+            if (ancestor) breadcrumb.push(ancestor);
+        }
+        breadcrumb.push({
+            id: category.id,
+            slug: category.slug,
+            name: category.name,
         });
+
+        return breadcrumb;
+    }
+
+    /**
+     * Ambil ID kategori beserta seluruh turunannya
+     * @param ids - ID kategori (satu atau lebih)
+     * @returns ID kategori yang diminta + semua sub-kategori (non-deleted)
+     */
+    async getDescendantIds(ids: string | string[]): Promise<string[]> {
+        const roots = Array.isArray(ids) ? ids : [ids];
+        const categories = await this.prisma.category.findMany({
+            where: { deletedAt: null, parentId: { not: null } },
+            select: { id: true, parentId: true },
+        });
+
+        const childrenByParent = new Map<string, string[]>();
+        for (const { id, parentId } of categories) {
+            const siblings = childrenByParent.get(parentId!) ?? [];
+            siblings.push(id);
+            childrenByParent.set(parentId!, siblings);
+        }
+
+        const result = new Set<string>(roots);
+        const queue = [...roots];
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            for (const childId of childrenByParent.get(current) ?? []) {
+                if (!result.has(childId)) {
+                    result.add(childId);
+                    queue.push(childId);
+                }
+            }
+        }
+
+        return Array.from(result);
+    }
+
+    /**
+     * Ambil ID kategori beserta seluruh leluhurnya
+     * @param startId - ID kategori awal
+     * @returns ID mulai dari `startId` naik hingga root (urutan: terdekat → root)
+     */
+    async getAncestorIds(startId: string | null): Promise<string[]> {
+        const ancestorIds: string[] = [];
+        let currentId = startId;
+
+        while (currentId && !ancestorIds.includes(currentId)) {
+            ancestorIds.push(currentId);
+            const current = await this.prisma.category.findUnique({
+                where: { id: currentId },
+                select: { parentId: true },
+            });
+            currentId = current?.parentId ?? null;
+        }
+
+        return ancestorIds;
     }
 
     /**
@@ -132,42 +307,100 @@ export class CategoryService {
             slug,
             name,
             description = null,
+            image = null,
             isActive = true,
+            sortOrder,
+            parentId = null,
+            translations = [],
             createdBy,
             ipAddress,
             userAgent,
         } = input;
 
+        if (parentId) {
+            await this.assertParentExists(parentId);
+        }
+
         const existing = await this.prisma.category.findFirst({
             where: { slug },
         });
 
-        if (existing) {
-            if (existing.deletedAt === null) {
-                throw new Error(
-                    `Category with slug "${slug}" already exists and is active.`
-                );
-            }
+        if (existing && existing.deletedAt === null) {
+            throw new Error(
+                `Category with slug "${slug}" already exists and is active.`
+            );
+        }
 
+        // Hitung sortOrder akhir (urutan di antara sesama sub-kategori)
+        const finalSortOrder = await this.sortOrderService.calculate({
+            model: "category",
+            inputSortOrder: sortOrder,
+            baseWhere: { deletedAt: null },
+            scopeKey: "parentId",
+            scopeValue: parentId,
+        });
+
+        // Resolve konflik sortOrder
+        await this.sortOrderService.resolveConflictOnCreate({
+            model: "category",
+            newSortOrder: finalSortOrder,
+            baseWhere: { parentId, deletedAt: null },
+        });
+
+        if (existing) {
             // Restore category
-            const updated = await this.prisma.category.update({
-                where: { id: existing.id },
-                data: {
-                    name,
-                    description,
-                    isActive,
-                    deletedAt: null,
-                    updatedAt: new Date(),
-                },
+            const updated = await this.prisma.$transaction(async (tx) => {
+                const category = await tx.category.update({
+                    where: { id: existing.id },
+                    data: {
+                        name,
+                        description,
+                        image,
+                        isActive,
+                        sortOrder: finalSortOrder,
+                        parentId,
+                        deletedAt: null,
+                        updatedAt: new Date(),
+                    },
+                });
+
+                // Ganti terjemahan
+                await tx.categoryTranslation.deleteMany({
+                    where: { categoryId: existing.id },
+                });
+                if (translations.length > 0) {
+                    await tx.categoryTranslation.createMany({
+                        data: translations.map((t) => ({
+                            ...t,
+                            categoryId: existing.id,
+                        })),
+                    });
+                }
+
+                return category;
             });
 
+            // Hapus file gambar lama setelah transaksi berhasil
+            if (existing.image && existing.image !== image) {
+                this.deleteImage(existing.image);
+            }
+
             await this.auditService.log({
                 userId: createdBy,
                 action: "RESTORE_CATEGORY",
                 tableName: "Category",
                 recordId: existing.id,
                 oldValues: { deletedAt: existing.deletedAt },
-                newValues: { name, description, isActive, deletedAt: null },
+                newValues: {
+                    name,
+                    description,
+                    image,
+                    isActive,
+                    sortOrder: finalSortOrder,
+                    parentId,
+                    translations,
+                    deletedAt: null,
+                },
                 details: `Category "${slug}" restored and updated`,
                 ipAddress,
                 userAgent,
@@ -177,13 +410,30 @@ export class CategoryService {
         }
 
         // Create new category
-        const category = await this.prisma.category.create({
-            data: {
-                slug,
-                name,
-                description,
-                isActive,
-            },
+        const category = await this.prisma.$transaction(async (tx) => {
+            const created = await tx.category.create({
+                data: {
+                    slug,
+                    name,
+                    description,
+                    image,
+                    isActive,
+                    sortOrder: finalSortOrder,
+                    parentId,
+                },
+            });
+
+            // Simpan terjemahan
+            if (translations.length > 0) {
+                await tx.categoryTranslation.createMany({
+                    data: translations.map((t) => ({
+                        ...t,
+                        categoryId: created.id,
+                    })),
+                });
+            }
+
+            return created;
         });
 
         await this.auditService.log({
@@ -191,7 +441,16 @@ export class CategoryService {
             action: "CREATE_CATEGORY",
             tableName: "Category",
             recordId: category.id,
-            newValues: { slug, name, description, isActive },
+            newValues: {
+                slug,
+                name,
+                description,
+                image,
+                isActive,
+                sortOrder: finalSortOrder,
+                parentId,
+                translations,
+            },
             details: `Category "${slug}" created`,
             ipAddress,
             userAgent,
@@ -211,7 +470,11 @@ export class CategoryService {
             slug,
             name,
             description,
+            image,
             isActive,
+            sortOrder,
+            parentId,
+            translations,
             updatedBy,
             ipAddress,
             userAgent,
@@ -225,6 +488,14 @@ export class CategoryService {
             throw new Error("Category not found");
         }
 
+        const parentChanged =
+            parentId !== undefined && parentId !== existing.parentId;
+
+        // Validasi parent baru (tidak boleh membentuk siklus)
+        if (parentChanged) {
+            await this.assertValidParent(id, parentId);
+        }
+
         // Cek duplikat slug
         if (slug !== existing.slug) {
             const duplicate = await this.prisma.category.findUnique({
@@ -237,23 +508,98 @@ export class CategoryService {
             }
         }
 
-        const updatedCategory = await this.prisma.category.update({
-            where: { id },
-            data: {
-                slug,
-                name,
-                description,
-                isActive,
-            },
+        let finalSortOrder = existing.sortOrder;
+
+        if (parentChanged) {
+            // Pindah parent: rapikan urutan lama, tempatkan di parent baru
+            await this.sortOrderService.reorderAfterDelete({
+                model: "category",
+                deletedSortOrder: existing.sortOrder,
+                baseWhere: { parentId: existing.parentId, deletedAt: null },
+            });
+
+            finalSortOrder = await this.sortOrderService.calculate({
+                model: "category",
+                inputSortOrder: sortOrder,
+                baseWhere: { deletedAt: null, NOT: { id } },
+                scopeKey: "parentId",
+                scopeValue: parentId,
+            });
+
+            await this.sortOrderService.resolveConflictOnCreate({
+                model: "category",
+                newSortOrder: finalSortOrder,
+                baseWhere: { parentId, deletedAt: null },
+            });
+        } else if (
+            sortOrder !== undefined &&
+            sortOrder !== existing.sortOrder
+        ) {
+            // Handle perubahan sortOrder
+            const swapped = await this.sortOrderService.swap({
+                model: "category",
+                id1: id,
+                newSortOrder: sortOrder,
+                oldSortOrder: existing.sortOrder,
+                baseWhere: { parentId: existing.parentId, deletedAt: null },
+            });
+
+            finalSortOrder = swapped ? sortOrder : existing.sortOrder;
+        }
+
+        const updatedCategory = await this.prisma.$transaction(async (tx) => {
+            const category = await tx.category.update({
+                where: { id },
+                data: {
+                    slug,
+                    name,
+                    description,
+                    image,
+                    isActive,
+                    sortOrder: finalSortOrder,
+                    parentId,
+                },
+            });
+
+            // Ganti terjemahan (hanya jika dikirim)
+            if (translations !== undefined) {
+                await tx.categoryTranslation.deleteMany({
+                    where: { categoryId: id },
+                });
+                if (translations.length > 0) {
+                    await tx.categoryTranslation.createMany({
+                        data: translations.map((t) => ({
+                            ...t,
+                            categoryId: id,
+                        })),
+                    });
+                }
+            }
+
+            return category;
         });
 
+        // Hapus gambar lama jika diganti (setelah transaksi berhasil)
+        if (image !== undefined && existing.image && existing.image !== image) {
+            this.deleteImage(existing.image);
+        }
+
         await this.auditService.log({
             userId: updatedBy,
             action: "UPDATE_CATEGORY",
             tableName: "Category",
             recordId: id,
             oldValues: existing,
-            newValues: { slug, name, description, isActive },
+            newValues: {
+                slug,
+                name,
+                description,
+                image,
+                isActive,
+                sortOrder: finalSortOrder,
+                parentId,
+                translations,
+            },
             details: `Category "${name}" updated`,
             ipAddress,
             userAgent,
@@ -288,11 +634,29 @@ export class CategoryService {
             );
         }
 
+        // Cek sub-kategori aktif
+        const childCount = await this.prisma.category.count({
+            where: { parentId: id, deletedAt: null },
+        });
+
+        if (childCount > 0) {
+            throw new Error(
+                "Cannot delete category that still has sub-categories."
+            );
+        }
+
         const result = await this.prisma.category.update({
             where: { id },
             data: { deletedAt: new Date() },
         });
 
+        // Reorder setelah delete
+        await this.sortOrderService.reorderAfterDelete({
+            model: "category",
+            deletedSortOrder: category.sortOrder,
+            baseWhere: { parentId: category.parentId, deletedAt: null },
+        });
+
         await this.auditService.log({
             userId: deletedBy,
             action: "DELETE_CATEGORY",
@@ -338,8 +702,33 @@ export class CategoryService {
             }
         }
 
+        // Sub-kategori (termasuk yang soft-deleted) masih mereferensikan ID ini
+        const childCount = await this.prisma.category.count({
+            where: { parentId: id },
+        });
+
+        if (childCount > 0) {
+            throw new Error(
+                "Cannot hard-delete category that still has sub-categories."
+            );
+        }
+
+        // Hapus file gambar
+        if (category.image) {
+            this.deleteImage(category.image);
+        }
+
         await this.prisma.category.delete({ where: { id } });
 
+        // Reorder setelah delete (soft delete sudah me-reorder sebelumnya)
+        if (category.deletedAt === null) {
+            await this.sortOrderService.reorderAfterDelete({
+                model: "category",
+                deletedSortOrder: category.sortOrder,
+                baseWhere: { parentId: category.parentId, deletedAt: null },
+            });
+        }
+
         await this.auditService.log({
             userId: deletedBy,
             action: "HARD_DELETE_CATEGORY",
@@ -353,4 +742,40 @@ export class CategoryService {
 
         return { message: "Category permanently deleted", id };
     }
+
+    // Helper methods
+    private deleteImage(image: string): void {
+        if (image.startsWith("/uploads/categories/")) {
+            this.fileService.deleteFile(image);
+        }
+    }
+
+    private async assertParentExists(parentId: string): Promise<void> {
+        const parent = await this.prisma.category.findUnique({
+            where: { id: parentId, deletedAt: null },
+        });
+        if (!parent) {
+            throw new Error("Parent category not found");
+        }
+    }
+
+    private async assertValidParent(
+        id: string,
+        parentId: string | null
+    ): Promise<void> {
+        if (parentId === null) return;
+
+        if (parentId === id) {
+            throw new Error("A category cannot be its own parent");
+        }
+
+        await this.assertParentExists(parentId);
+
+        const ancestorIds = await this.getAncestorIds(parentId);
+        if (ancestorIds.includes(id)) {
+            throw new Error(
+                "Cannot move a category under one of its own sub-categories"
+            );
+        }
+    }
 }
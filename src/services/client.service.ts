@@ -134,10 +134,10 @@ export class ClientService {
 
         if (search) {
             where.OR = [
-                { name: { contains: search, mode: "insensitive" } },
-                { email: { contains: search, mode: "insensitive" } },
-                { company: { contains: search, mode: "insensitive" } },
-                { message: { contains: search, mode: "insensitive" } },
+                { name: { contains: search } },
+                { email: { contains: search } },
+                { company: { contains: search } },
+                { message: { contains: search } },
             ];
         }
 
@@ -186,6 +186,19 @@ export class ClientService {
         });
     }
 
+    /**
+     * Ambil ID user yang membalas klien (pemilik untuk permission ber-scope "own")
+     * @param id - ID klien
+     * @returns ID user atau null jika klien tidak ditemukan / belum dibalas
+     */
+    async findOwnerId(id: string): Promise<string | null> {
+        const client = await this.prisma.client.findUnique({
+            where: { id, deletedAt: null },
+            select: { repliedBy: true },
+        });
+        return client?.repliedBy ?? null;
+    }
+
     /**
      * Buat klien baru dari formulir website
      * @param input - Data klien
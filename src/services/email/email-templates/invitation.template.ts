@@ -0,0 +1,69 @@
+/**
+ * @file InvitationEmailTemplate – Template undangan pengguna baru
+ * @description
+ * Template untuk email undangan ke dashboard Enerkomp dengan link set password
+ * (sekali pakai, berlaku terbatas).
+ *
+ * @dependencies
+ * - `BaseEmailTemplate`
+ * - `EmailTemplateService`
+ */
+
+import { BaseEmailTemplate } from "./base.template";
+
+export interface InvitationData {
+    userName: string;
+    roleName: string;
+    inviterName?: string;
+    acceptUrl: string;
+    expiresAt: string;
+}
+
+export class InvitationEmailTemplate extends BaseEmailTemplate {
+    getSubject(): string {
+        return "You're Invited to Enerkomp";
+    }
+
+    getTitle(): string {
+        return "✉️ You're Invited!";
+    }
+
+    getContent(data: InvitationData): string {
+        return `
+    <p>Hello ${this.escape(data.userName)},</p>
+    <p>${
+        data.inviterName ? this.escape(data.inviterName) : "An administrator"
+    } has invited you to join the Enerkomp dashboard as <strong>${this.escape(
+            data.roleName
+        )}</strong>.</p>
+    <p>Click the button below to set your password and activate your account:</p>
+    `;
+    }
+
+    getCta(data: InvitationData): { label: string; url: string } {
+        return {
+            label: "Accept Invitation",
+            url: data.acceptUrl,
+        };
+    }
+
+    getFooterNote(data: InvitationData): string {
+        return `This link expires on ${this.escape(
+            data.expiresAt
+        )} and can only be used once.`;
+    }
+
+    private escape(str: string): string {
+        return str.replace(
+            /[<>&"']/g,
+            (c) =>
+                ({
+                    "<": "&lt;",
+                    ">": "&gt;",
+                    "&": "&amp;",
+                    '"': "&quot;",
+                    "'": "&#039;",
+                }[c] || c)
+        );
+    }
+}
@@ -3,13 +3,21 @@
  * @description
  * Layanan terpusat untuk menangani operasi file:
  * - Upload gambar dengan validasi tipe, ukuran (maks 2MB default), dan sanitasi path
+ * - Gambar diproses setelah upload: EXIF dibuang, orientasi diperbaiki, konversi
+ *   WebP/AVIF + varian ukuran (thumb, card, full) via `ImageProcessingService`
  * - Generate nama file unik dan struktur folder berbasis fitur (user, brand, blog, dll)
- * - Hapus file secara aman (hindari path traversal & proteksi file default seperti avatar)
+ * - Hapus file secara aman (hindari path traversal & proteksi file default seperti avatar),
+ *   termasuk semua varian gambarnya
  * - Kompatibel dengan multer middleware untuk integrasi tanpa ubah kode lama
+ * - Upload dokumen produk (PDF/DOCX) dengan allowlist MIME + verifikasi magic bytes,
+ *   disimpan di direktori privat (`documentDir`) di luar `/uploads` publik
+ * - Upload dokumen ke memori (tanpa disimpan ke disk) untuk file yang hanya diproses, e.g. import
  *
  * @security
  * - Batas ukuran file: 2MB (default), bisa di-override per fitur (e.g., gallery = 5MB)
- * - Hanya terima MIME type `image/*` (JPEG, PNG, JPG, GIF, dll)
+ * - Hanya terima MIME type `image/*` (JPEG, PNG, JPG, GIF, dll),
+ *   kecuali tipe `document` (PDF/DOCX, isi file dicek via magic bytes)
+ * - Gambar yang tidak bisa di-decode ditolak (400) dan dihapus dari disk
  * - Path sanitization ketat via `SanitizedPath` class (blokir `../`, absolute path, dll)
  * - Tidak bisa hapus file di luar direktori `public/uploads/`
  * - Default avatar dilindungi dari penghapusan
@@ -30,9 +38,12 @@
  * @dependencies
  * - `multer` v1.x+ untuk handling multipart/form-data
  * - `fs`, `path` dari Node.js core
+ * - `ImageProcessingService` (sharp) untuk normalisasi & varian gambar
  * - `AppConfig` (dari `src/config/app.config.ts`) untuk:
  *     - `uploadDir`: direktori penyimpanan (default: `./public/uploads`)
+ *     - `documentDir`: direktori dokumen privat (default: `./storage/documents`)
  *     - `maxFileSize`: batas ukuran dalam byte (default: 2_097_152 = 2MB)
+ *     - `imageProcessing`: format output, kualitas, dan varian gambar
  */
 
 import { Request, Response, NextFunction } from "express";
@@ -40,9 +51,20 @@ import multer, { FileFilterCallback, StorageEngine } from "multer";
 import path from "path";
 import fs from "fs";
 import { AppConfig } from "../config/app.config";
+import {
+    ImageProcessingService,
+    ImageVariantFiles,
+} from "./image-processing.service";
 
 // ─── Types ───────────────────────────────────────────────────────────────
-export type UploadType = "user" | "brand" | "blog" | "product" | "gallery";
+export type UploadType =
+    | "user"
+    | "brand"
+    | "category"
+    | "blog"
+    | "product"
+    | "gallery"
+    | "document";
 
 export interface UploadOptions {
     type: UploadType;
@@ -51,14 +73,37 @@ export interface UploadOptions {
     maxSize?: number;
 }
 
+export interface MemoryUploadOptions {
+    fieldName: string;
+    extensions: string[]; // e.g. [".xlsx", ".csv"]
+    maxSize?: number;
+}
+
 export interface UploadedFile {
     filename: string;
     path: string;
     publicUrl: string;
     mimetype: string;
     size: number;
+    variants: ImageVariantFiles; // URL publik per varian & format
 }
 
+// Allowlist dokumen: MIME → ekstensi + signature awal file (magic bytes)
+const DOCUMENT_SIGNATURES: Record<
+    string,
+    { extensions: string[]; magic: Buffer }
+> = {
+    "application/pdf": {
+        extensions: [".pdf"],
+        magic: Buffer.from("%PDF-"),
+    },
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+        {
+            extensions: [".docx"],
+            magic: Buffer.from([0x50, 0x4b, 0x03, 0x04]), // ZIP container
+        },
+};
+
 // ─── Sanitized Path (untuk keamanan) ─────────────────────────────────────
 class SanitizedPath {
     private readonly _absolute: string;
@@ -95,13 +140,22 @@ class SanitizedPath {
 // ─── FileService: OOP, reusable, testable ────────────────────────────────
 export class FileService {
     private readonly uploadBase: string;
+    private readonly documentBase: string;
+    private readonly imageProcessor: ImageProcessingService;
 
     constructor(
-        private config: Pick<AppConfig, "uploadDir" | "maxFileSize">,
+        private config: Pick<
+            AppConfig,
+            "uploadDir" | "documentDir" | "maxFileSize" | "imageProcessing"
+        >,
         private fsModule: typeof fs = fs,
         private pathModule: typeof path = path
     ) {
         this.uploadBase = path.resolve(config.uploadDir);
+        this.documentBase = path.resolve(config.documentDir);
+        this.imageProcessor = new ImageProcessingService(
+            config.imageProcessing
+        );
         this.ensureDir(this.uploadBase);
     }
 
@@ -127,6 +181,7 @@ export class FileService {
      * Hapus file secara aman
      * - Hindari path traversal
      * - Lindungi file default (e.g., default-avatar.png)
+     * - Varian gambar (thumb, card, ...) ikut dihapus
      * - Fail-silent jika file tidak ditemukan
      */
     deleteFile(filePath: string | null | undefined): void {
@@ -137,14 +192,52 @@ export class FileService {
 
         try {
             const safePath = new SanitizedPath(this.uploadBase, filePath);
-            if (this.fsModule.existsSync(safePath.absolute)) {
-                this.fsModule.unlinkSync(safePath.absolute);
+            const paths = [
+                safePath.absolute,
+                ...this.imageProcessor.getVariantPaths(safePath.absolute),
+            ];
+            for (const absolute of paths) {
+                if (this.fsModule.existsSync(absolute)) {
+                    this.fsModule.unlinkSync(absolute);
+                }
             }
         } catch (error) {
             console.warn("Failed to delete file:", filePath, error);
         }
     }
 
+    /**
+     * Path absolut file di disk dari URL publik (`/uploads/...`)
+     * @throws Error jika path keluar dari direktori upload
+     */
+    resolvePath(filePath: string): string {
+        return new SanitizedPath(this.uploadBase, filePath).absolute;
+    }
+
+    /**
+     * Path absolut dokumen privat dari nama file yang disimpan di database
+     * @throws Error jika path keluar dari direktori dokumen
+     */
+    resolveDocumentPath(fileName: string): string {
+        return new SanitizedPath(this.documentBase, path.basename(fileName))
+            .absolute;
+    }
+
+    /**
+     * Hapus dokumen privat (fail-silent jika file tidak ditemukan)
+     */
+    deleteDocument(fileName: string | null | undefined): void {
+        if (!fileName) return;
+        try {
+            const absolute = this.resolveDocumentPath(fileName);
+            if (this.fsModule.existsSync(absolute)) {
+                this.fsModule.unlinkSync(absolute);
+            }
+        } catch (error) {
+            console.warn("Failed to delete document:", fileName, error);
+        }
+    }
+
     getPublicUrl(filePath: string): string {
         try {
             return new SanitizedPath(this.uploadBase, filePath).publicUrl;
@@ -158,20 +251,65 @@ export class FileService {
     ): (req: Request, res: Response, next: NextFunction) => void {
         const storage = this.createStorageEngine(options.type);
         const maxSize = options.maxSize ?? this.config.maxFileSize;
+        const fileFilter =
+            options.type === "document"
+                ? this.documentFileFilter
+                : this.imageFileFilter;
 
         const upload =
             options.maxCount === 1 || !options.maxCount
                 ? multer({
                       storage,
-                      fileFilter: this.imageFileFilter,
+                      fileFilter,
                       limits: { fileSize: maxSize },
                   }).single(options.fieldName)
                 : multer({
                       storage,
-                      fileFilter: this.imageFileFilter,
+                      fileFilter,
                       limits: { fileSize: maxSize },
                   }).array(options.fieldName, options.maxCount);
 
+        const middleware = this.wrapMulter(upload, maxSize);
+        return options.type === "document"
+            ? this.withSignatureCheck(middleware)
+            : this.withImageProcessing(options.type, middleware);
+    }
+
+    /**
+     * Middleware upload satu file ke memori (`req.file.buffer`)
+     * - Validasi berdasarkan ekstensi file, bukan MIME type
+     *   (MIME untuk CSV berbeda-beda antar browser)
+     */
+    createMemoryMiddleware(
+        options: MemoryUploadOptions
+    ): (req: Request, res: Response, next: NextFunction) => void {
+        const maxSize = options.maxSize ?? this.config.maxFileSize;
+        const extensions = options.extensions.map((ext) => ext.toLowerCase());
+
+        const upload = multer({
+            storage: multer.memoryStorage(),
+            fileFilter: (req, file, cb) => {
+                const ext = path.extname(file.originalname).toLowerCase();
+                if (extensions.includes(ext)) {
+                    cb(null, true);
+                } else {
+                    cb(
+                        new Error(
+                            `Only ${extensions.join(", ")} files are allowed!`
+                        )
+                    );
+                }
+            },
+            limits: { fileSize: maxSize },
+        }).single(options.fieldName);
+
+        return this.wrapMulter(upload, maxSize);
+    }
+
+    private wrapMulter(
+        upload: (req: Request, res: Response, cb: (err?: any) => void) => void,
+        maxSize: number
+    ): (req: Request, res: Response, next: NextFunction) => void {
         return (req, res, next) => {
             upload(req, res, (err) => {
                 if (err instanceof multer.MulterError) {
@@ -195,6 +333,82 @@ export class FileService {
         };
     }
 
+    /**
+     * Dokumen: pastikan isi file sesuai MIME yang diklaim
+     */
+    private withSignatureCheck(
+        middleware: (req: Request, res: Response, next: NextFunction) => void
+    ): (req: Request, res: Response, next: NextFunction) => void {
+        return (req, res, next) => {
+            middleware(req, res, () => {
+                const files = this.getRequestFiles(req);
+                const invalid = files.find(
+                    (file) => !this.hasValidSignature(file)
+                );
+                if (invalid) {
+                    files.forEach((file) => this.deleteDocument(file.filename));
+                    res.status(400).json({
+                        error: "File content does not match its type",
+                    });
+                    return;
+                }
+                next();
+            });
+        };
+    }
+
+    /**
+     * Gambar: normalisasi + konversi + varian sebelum sampai ke controller
+     * - `req.file(s).filename`, `mimetype`, `size` diganti hasil konversi
+     *   sehingga controller lama tetap memakai `file.filename`
+     * - Nama file varian tersedia di `file.variants`
+     */
+    private withImageProcessing(
+        type: UploadType,
+        middleware: (req: Request, res: Response, next: NextFunction) => void
+    ): (req: Request, res: Response, next: NextFunction) => void {
+        return (req, res, next) => {
+            middleware(req, res, () => {
+                const files = this.getRequestFiles(req);
+                this.processImages(files)
+                    .then(() => next())
+                    .catch((error) => {
+                        console.warn("Failed to process image:", error);
+                        files.forEach((file) =>
+                            this.deleteFile(
+                                this.buildRelativePath(type, file.filename)
+                            )
+                        );
+                        res.status(400).json({
+                            error: "Invalid or corrupted image file",
+                        });
+                    });
+            });
+        };
+    }
+
+    private async processImages(files: Express.Multer.File[]): Promise<void> {
+        // Berurutan agar pemakaian memori tetap rendah
+        for (const file of files) {
+            if (!this.imageProcessor.isProcessable(file.mimetype)) continue;
+
+            const processed = await this.imageProcessor.process(file.path);
+            file.path = this.pathModule.join(
+                file.destination,
+                processed.filename
+            );
+            file.filename = processed.filename;
+            file.mimetype = processed.mimetype;
+            file.size = processed.size;
+            file.variants = processed.variants;
+        }
+    }
+
+    private getRequestFiles(req: Request): Express.Multer.File[] {
+        if (req.file) return [req.file];
+        return Array.isArray(req.files) ? req.files : [];
+    }
+
     private async upload(
         req: Request,
         res: Response,
@@ -224,9 +438,26 @@ export class FileService {
             ),
             mimetype: file.mimetype,
             size: file.size,
+            variants: this.toVariantUrls(options.type, file.variants),
         }));
     }
 
+    private toVariantUrls(
+        type: UploadType,
+        variants: ImageVariantFiles = {}
+    ): ImageVariantFiles {
+        const urls: ImageVariantFiles = {};
+        for (const [name, formats] of Object.entries(variants)) {
+            urls[name] = {};
+            for (const [format, filename] of Object.entries(formats)) {
+                urls[name][format as keyof typeof formats] = this.getPublicUrl(
+                    this.buildRelativePath(type, filename)
+                );
+            }
+        }
+        return urls;
+    }
+
     private createStorageEngine(type: UploadType): StorageEngine {
         const uploadDir = this.getUploadDir(type);
         return multer.diskStorage({
@@ -237,12 +468,19 @@ export class FileService {
     }
 
     private getUploadDir(type: UploadType): string {
+        if (type === "document") {
+            this.ensureDir(this.documentBase);
+            return this.documentBase;
+        }
+
         const dirMap: Record<UploadType, string> = {
             user: "avatars",
             brand: "brands",
+            category: "categories",
             blog: "blogs",
             product: "products",
             gallery: "galleries",
+            document: "documents",
         };
         const dir = path.join(this.uploadBase, dirMap[type]);
         this.ensureDir(dir);
@@ -273,6 +511,40 @@ export class FileService {
         }
     }
 
+    private documentFileFilter(
+        req: Express.Request,
+        file: Express.Multer.File,
+        cb: FileFilterCallback
+    ): void {
+        const signature = DOCUMENT_SIGNATURES[file.mimetype];
+        const ext = path.extname(file.originalname).toLowerCase();
+        if (signature && signature.extensions.includes(ext)) {
+            cb(null, true);
+        } else {
+            cb(new Error("Only PDF and DOCX documents are allowed!"));
+        }
+    }
+
+    /**
+     * Cocokkan byte awal file di disk dengan signature MIME-nya
+     */
+    private hasValidSignature(file: Express.Multer.File): boolean {
+        const signature = DOCUMENT_SIGNATURES[file.mimetype];
+        if (!signature) return false;
+
+        const header = Buffer.alloc(signature.magic.length);
+        let fd: number | undefined;
+        try {
+            fd = this.fsModule.openSync(file.path, "r");
+            this.fsModule.readSync(fd, header, 0, header.length, 0);
+            return header.equals(signature.magic);
+        } catch {
+            return false;
+        } finally {
+            if (fd !== undefined) this.fsModule.closeSync(fd);
+        }
+    }
+
     private ensureDir(dir: string): void {
         if (!this.fsModule.existsSync(dir)) {
             this.fsModule.mkdirSync(dir, { recursive: true });
@@ -283,9 +555,11 @@ export class FileService {
         const dirMap: Record<UploadType, string> = {
             user: "avatars",
             brand: "brands",
+            category: "categories",
             blog: "blogs",
             product: "products",
             gallery: "galleries",
+            document: "documents",
         };
         return `uploads/${dirMap[type]}/${filename}`;
     }
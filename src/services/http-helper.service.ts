@@ -43,6 +43,7 @@ export class HttpHelperService {
 
     /**
      * Menangani error HTTP secara terstandarisasi
+     * Error yang membawa `details` (misal PasswordPolicyError) ikut dikirim ke client
      * @param res - Express Response
      * @param error - Error yang tertangkap
      * @param defaultMessage - Pesan fallback jika error bukan instance Error
@@ -55,7 +56,15 @@ export class HttpHelperService {
         statusCode: number = 500
     ): void {
         const message = error instanceof Error ? error.message : defaultMessage;
+        const details =
+            error instanceof Error
+                ? (error as { details?: unknown }).details
+                : undefined;
 
-        res.status(statusCode).json({ error: message });
+        res.status(statusCode).json(
+            details !== undefined
+                ? { error: message, details }
+                : { error: message }
+        );
     }
 }
@@ -0,0 +1,159 @@
+/**
+ * @file ImageProcessingService – Normalisasi & varian responsif gambar upload
+ * @description
+ * Memproses gambar hasil upload (disk storage multer) sebelum dipakai:
+ * - Normalisasi: orientasi sesuai EXIF, metadata (EXIF/GPS) dibuang
+ * - Konversi ke WebP/AVIF, file utama dibatasi `maxDimension`
+ * - Varian ukuran sesuai konfigurasi (e.g. thumb, card, full)
+ *   untuk setiap format output
+ *
+ * Konvensi nama file (satu folder dengan file utama):
+ * - Utama: `product-123.webp`
+ * - Varian: `product-123-thumb.webp`, `product-123-thumb.avif`, ...
+ *
+ * @security
+ * - Gambar yang gagal di-decode ditolak (file sementara dihapus)
+ * - Format vektor/animasi (SVG, GIF, dll) disimpan apa adanya tanpa varian
+ *
+ * @usage
+ * const processed = await imageProcessingService.process('/abs/uploads/products/product-123.jpg');
+ * // processed.filename = 'product-123.webp'
+ * // processed.variants.thumb.webp = 'product-123-thumb.webp'
+ *
+ * @dependencies
+ * - `sharp` (libvips)
+ * - `ImageProcessingConfig` (dari `src/config/app.config.ts`)
+ */
+
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import { ImageFormat, ImageProcessingConfig } from "../config/app.config";
+
+// Nama file per varian per format, e.g. { thumb: { webp: "x-thumb.webp" } }
+export type ImageVariantFiles = Record<
+    string,
+    Partial<Record<ImageFormat, string>>
+>;
+
+export interface ProcessedImage {
+    filename: string;
+    mimetype: string;
+    size: number;
+    variants: ImageVariantFiles;
+}
+
+// Format input yang dikonversi (lainnya disimpan apa adanya)
+const PROCESSABLE_MIME_TYPES = [
+    "image/jpeg",
+    "image/jpg",
+    "image/pjpeg",
+    "image/png",
+    "image/webp",
+    "image/avif",
+    "image/tiff",
+];
+
+export class ImageProcessingService {
+    constructor(private config: ImageProcessingConfig) {}
+
+    isProcessable(mimetype: string): boolean {
+        return PROCESSABLE_MIME_TYPES.includes(mimetype.toLowerCase());
+    }
+
+    /**
+     * Normalisasi gambar di `filePath` dan buat varian di folder yang sama
+     * - File asli diganti file utama hasil konversi
+     * - Jika gagal, semua file output dihapus lalu error dilempar
+     *   (file asli tetap ada, dihapus oleh pemanggil)
+     */
+    async process(filePath: string): Promise<ProcessedImage> {
+        const [primaryFormat] = this.config.formats;
+        const input = await fs.promises.readFile(filePath);
+        const written: string[] = [];
+
+        try {
+            const mainPath = this.buildPath(filePath, null, primaryFormat);
+            const main = await this.render(input, {
+                width: this.config.maxDimension,
+                height: this.config.maxDimension,
+                format: primaryFormat,
+            }).toFile(mainPath);
+            written.push(mainPath);
+
+            const variants: ImageVariantFiles = {};
+            for (const [name, width] of Object.entries(this.config.variants)) {
+                variants[name] = {};
+                for (const format of this.config.formats) {
+                    const variantPath = this.buildPath(filePath, name, format);
+                    await this.render(input, { width, format }).toFile(
+                        variantPath
+                    );
+                    written.push(variantPath);
+                    variants[name][format] = path.basename(variantPath);
+                }
+            }
+
+            if (mainPath !== filePath) {
+                await fs.promises.unlink(filePath);
+            }
+
+            return {
+                filename: path.basename(mainPath),
+                mimetype: `image/${primaryFormat}`,
+                size: main.size,
+                variants,
+            };
+        } catch (error) {
+            await Promise.all(
+                written
+                    .filter((output) => output !== filePath)
+                    .map((output) => fs.promises.rm(output, { force: true }))
+            );
+            throw error;
+        }
+    }
+
+    /**
+     * Path semua varian dari path file utama (untuk penghapusan)
+     */
+    getVariantPaths(filePath: string): string[] {
+        return Object.keys(this.config.variants).flatMap((name) =>
+            this.config.formats.map((format) =>
+                this.buildPath(filePath, name, format)
+            )
+        );
+    }
+
+    // Helper methods
+    private render(
+        input: Buffer,
+        options: { width: number; height?: number; format: ImageFormat }
+    ): sharp.Sharp {
+        // `rotate()` tanpa argumen = orientasi dari EXIF; sharp tidak
+        // menyalin metadata ke output kecuali diminta (`withMetadata`)
+        const image = sharp(input, { failOn: "error" })
+            .rotate()
+            .resize({
+                width: options.width,
+                height: options.height,
+                fit: "inside",
+                withoutEnlargement: true,
+            });
+
+        return options.format === "avif"
+            ? image.avif({ quality: this.config.quality })
+            : image.webp({ quality: this.config.quality });
+    }
+
+    private buildPath(
+        filePath: string,
+        variant: string | null,
+        format: ImageFormat
+    ): string {
+        const dir = path.dirname(filePath);
+        const base = path.basename(filePath, path.extname(filePath));
+        const suffix = variant ? `-${variant}` : "";
+        return path.join(dir, `${base}${suffix}.${format}`);
+    }
+}
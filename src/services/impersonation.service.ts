@@ -0,0 +1,162 @@
+/**
+ * @file ImpersonationService – "Log in as" untuk debugging permission oleh tim support
+ * @description
+ * Layanan untuk menerbitkan access token impersonation:
+ * - Token berumur pendek, tanpa refresh token dan tanpa sesi
+ * - Payload JWT membawa ID user target (`id`) dan ID admin asli (`impersonatorId`)
+ * - Token ditandai jelas (`impersonation: true`) agar frontend bisa menampilkan banner
+ *
+ * @security
+ * - Tidak bisa impersonate diri sendiri, user non-aktif, atau berantai (impersonate saat impersonate)
+ * - Hanya Super Admin yang bisa impersonate Super Admin lain
+ * - Penerbitan token tercatat di audit log; semua aksi selama impersonation
+ *   tercatat dengan kedua identitas (lihat `AuditService.log`)
+ *
+ * @usage
+ * const impersonationService = new ImpersonationService(prisma, tokenService, auditService);
+ *
+ * const { accessToken, expiresAt } = await impersonationService.start({
+ *   impersonatorId: req.user.id,
+ *   targetUserId: 'usr_123'
+ * });
+ *
+ * @dependencies
+ * - `@prisma/client`
+ * - `TokenService`, `AuditService`
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { securityConfig } from "../config/security.config";
+import { TokenService } from "./token.service";
+import { AuditService } from "./audit.service";
+
+export interface StartImpersonationInput {
+    impersonatorId: string;
+    targetUserId: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface ImpersonationResult {
+    accessToken: string;
+    expiresAt: Date;
+    impersonation: true;
+    user: {
+        id: string;
+        name: string;
+        email: string;
+        role: { id: string; name: string };
+    };
+    impersonator: { id: string; name: string; email: string };
+}
+
+const SUPER_ADMIN_ROLE = "Super Admin";
+
+export class ImpersonationService {
+    constructor(
+        private prisma: PrismaClient,
+        private tokenService: TokenService,
+        private auditService: AuditService
+    ) {}
+
+    /**
+     * Terbitkan access token impersonation
+     * @param input - ID admin, ID user target, dan metadata request
+     * @returns Access token impersonation beserta identitas kedua pihak
+     */
+    async start(input: StartImpersonationInput): Promise<ImpersonationResult> {
+        const { impersonatorId, targetUserId, ipAddress, userAgent } = input;
+
+        if (impersonatorId === targetUserId) {
+            throw new Error("You cannot impersonate yourself");
+        }
+
+        const [impersonator, target] = await Promise.all([
+            this.prisma.user.findUnique({
+                where: { id: impersonatorId, deletedAt: null },
+                include: { role: true },
+            }),
+            this.prisma.user.findUnique({
+                where: { id: targetUserId, deletedAt: null },
+                include: { role: true },
+            }),
+        ]);
+
+        if (!impersonator) {
+            throw new Error("User not found");
+        }
+        if (!target) {
+            throw new Error("User not found");
+        }
+        if (target.status !== "ACTIVE") {
+            throw new Error("Only active users can be impersonated");
+        }
+        if (
+            target.role.name === SUPER_ADMIN_ROLE &&
+            impersonator.role.name !== SUPER_ADMIN_ROLE
+        ) {
+            throw new Error(
+                "Insufficient permissions to impersonate this user"
+            );
+        }
+
+        const expiresInMs = securityConfig.impersonationExpiresIn;
+        const expiresAt = new Date(Date.now() + expiresInMs);
+
+        const accessToken = this.tokenService.generateAccessToken(
+            {
+                id: target.id,
+                email: target.email,
+                roleId: target.roleId,
+                impersonatorId: impersonator.id,
+                impersonation: true,
+            },
+            { expiresIn: Math.floor(expiresInMs / 1000) }
+        );
+
+        const tokenRecord = await this.prisma.token.create({
+            data: {
+                tokenHash: this.tokenService.hash(accessToken),
+                type: "access_token",
+                userId: target.id,
+                expiresAt,
+                isRevoked: false,
+                ipAddress: ipAddress || null,
+                userAgent: userAgent || null,
+            },
+        });
+
+        await this.auditService.log({
+            userId: impersonator.id,
+            action: "IMPERSONATE_USER",
+            tableName: "User",
+            recordId: target.id,
+            newValues: {
+                targetUserId: target.id,
+                targetEmail: target.email,
+                tokenId: tokenRecord.id,
+                expiresAt,
+            },
+            details: `${impersonator.email} started impersonating ${target.email}`,
+            ipAddress,
+            userAgent,
+        });
+
+        return {
+            accessToken,
+            expiresAt,
+            impersonation: true,
+            user: {
+                id: target.id,
+                name: target.name,
+                email: target.email,
+                role: { id: target.role.id, name: target.role.name },
+            },
+            impersonator: {
+                id: impersonator.id,
+                name: impersonator.name,
+                email: impersonator.email,
+            },
+        };
+    }
+}
@@ -0,0 +1,488 @@
+/**
+ * @file InvitationService – Undangan pengguna baru ke dashboard
+ * @description
+ * Alur onboarding tanpa admin menentukan password:
+ * - Admin membuat user berstatus PENDING dengan role tertentu
+ * - Sistem mengirim link undangan (token `user_invite`, sekali pakai & berbatas waktu)
+ * - Penerima undangan menentukan password sendiri (wajib lolos kebijakan password) → status ACTIVE
+ * - Kirim ulang, batalkan, dan daftar undangan yang masih pending
+ *
+ * @security
+ * - Token undangan hanya disimpan sebagai keyed hash (HMAC)
+ * - Kirim ulang undangan me-revoke link lama
+ * - User PENDING tidak bisa login maupun forgot password
+ * - Semua operasi tercatat di audit log
+ *
+ * @usage
+ * const invitationService = new InvitationService(prisma, passwordService, passwordPolicyService, tokenService, auditService, emailService, emailTemplateService, timezoneService);
+ *
+ * await invitationService.invite({
+ *   name: 'John Doe',
+ *   email: 'john@example.com',
+ *   roleId: 'role_123',
+ *   invitedBy: 'usr_admin'
+ * });
+ * await invitationService.accept(token, 'newPassword123');
+ *
+ * @dependencies
+ * - `@prisma/client`
+ * - `PasswordService`, `PasswordPolicyService`, `TokenService`, `AuditService`
+ * - `EmailService`, `EmailTemplateService`, `TimezoneService`
+ */
+
+import crypto from "crypto";
+import { PrismaClient, UserStatus } from "@prisma/client";
+import { securityConfig } from "../config/security.config";
+import { appConfig } from "../config/app.config";
+import { PasswordService } from "./password.service";
+import { PasswordPolicyService } from "./password-policy.service";
+import { TokenService } from "./token.service";
+import { AuditService } from "./audit.service";
+import { EmailService } from "./email.service";
+import { EmailTemplateService } from "./email/email-template.service";
+import { TimezoneService } from "./timezone.service";
+import { InvitationEmailTemplate } from "./email/email-templates/invitation.template";
+import { WelcomeEmailTemplate } from "./email/email-templates/welcome.template";
+
+export interface CreateInvitationInput {
+    name: string;
+    email: string;
+    phone?: string;
+    roleId: string;
+    invitedBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface InvitationActionInput {
+    id: string;
+    actorId: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+const INVITE_TOKEN_TYPE = "user_invite";
+
+const pendingUserSelect = {
+    id: true,
+    name: true,
+    email: true,
+    phone: true,
+    status: true,
+    invitedAt: true,
+    createdAt: true,
+    role: { select: { id: true, name: true } },
+    invitedBy: { select: { id: true, name: true, email: true } },
+} as const;
+
+export class InvitationService {
+    constructor(
+        private prisma: PrismaClient,
+        private passwordService: PasswordService,
+        private passwordPolicyService: PasswordPolicyService,
+        private tokenService: TokenService,
+        private auditService: AuditService,
+        private emailService: EmailService,
+        private emailTemplateService: EmailTemplateService,
+        private timezoneService: TimezoneService
+    ) {}
+
+    /**
+     * Ambil daftar undangan yang masih pending
+     * @param options - Filter dan pagination options
+     * @returns Data undangan (dengan masa berlaku link terakhir) dan metadata pagination
+     */
+    async listPending(
+        options: { page?: number; limit?: number; search?: string } = {}
+    ) {
+        const { page = 1, limit = 10, search } = options;
+        const skip = (page - 1) * limit;
+
+        const where: any = {
+            status: UserStatus.PENDING,
+            deletedAt: null,
+        };
+
+        if (search) {
+            where.OR = [
+                { name: { contains: search } },
+                { email: { contains: search } },
+            ];
+        }
+
+        const [users, total] = await Promise.all([
+            this.prisma.user.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { invitedAt: "desc" },
+                select: {
+                    ...pendingUserSelect,
+                    tokens: {
+                        where: {
+                            type: INVITE_TOKEN_TYPE,
+                            isRevoked: false,
+                            usedAt: null,
+                        },
+                        orderBy: { createdAt: "desc" },
+                        take: 1,
+                        select: { expiresAt: true },
+                    },
+                },
+            }),
+            this.prisma.user.count({ where }),
+        ]);
+
+        const now = new Date();
+        const data = users.map(({ tokens, ...user }) => {
+            const expiresAt = tokens[0]?.expiresAt ?? null;
+            return {
+                ...user,
+                invitationExpiresAt: expiresAt,
+                invitationExpired: !expiresAt || expiresAt <= now,
+            };
+        });
+
+        return {
+            data,
+            meta: {
+                total,
+                page,
+                lastPage: Math.ceil(total / limit),
+                perPage: limit,
+                search: search || null,
+            },
+        };
+    }
+
+    /**
+     * Undang pengguna baru (atau pulihkan user yang pernah dihapus sebagai PENDING)
+     * @param input - Data undangan
+     * @returns User PENDING yang dibuat
+     */
+    async invite(input: CreateInvitationInput) {
+        const {
+            name,
+            email,
+            phone = "",
+            roleId,
+            invitedBy,
+            ipAddress,
+            userAgent,
+        } = input;
+
+        const role = await this.prisma.role.findUnique({
+            where: { id: roleId, deletedAt: null },
+        });
+        if (!role) {
+            throw new Error("Invalid role");
+        }
+
+        const existing = await this.prisma.user.findFirst({ where: { email } });
+        if (existing && existing.deletedAt === null) {
+            throw new Error(`User with email "${email}" already exists.`);
+        }
+
+        // Password acak yang tidak diketahui siapa pun sampai undangan diterima
+        const placeholderPassword = await this.passwordService.hash(
+            crypto.randomBytes(32).toString("hex")
+        );
+
+        const data = {
+            name,
+            phone,
+            password: placeholderPassword,
+            roleId,
+            status: UserStatus.PENDING,
+            avatar: appConfig.defaultAvatar,
+            invitedAt: new Date(),
+            invitedById: invitedBy,
+            failedLoginAttempts: 0,
+            lockedUntil: null,
+        };
+
+        const user = existing
+            ? await this.prisma.user.update({
+                  where: { id: existing.id },
+                  data: { ...data, deletedAt: null },
+                  select: pendingUserSelect,
+              })
+            : await this.prisma.user.create({
+                  data: { ...data, email },
+                  select: pendingUserSelect,
+              });
+
+        await this.auditService.log({
+            userId: invitedBy,
+            action: "INVITE_USER",
+            tableName: "User",
+            recordId: user.id,
+            newValues: { name, email, phone, roleId, status: "PENDING" },
+            details: `User "${email}" invited`,
+            ipAddress,
+            userAgent,
+        });
+
+        await this.issueInvitation(
+            user.id,
+            email,
+            name,
+            role.name,
+            invitedBy,
+            ipAddress,
+            userAgent
+        );
+
+        return user;
+    }
+
+    /**
+     * Kirim ulang undangan (link lama tidak berlaku)
+     * @param input - ID user PENDING dan pelaku
+     */
+    async resend(input: InvitationActionInput): Promise<void> {
+        const { id, actorId, ipAddress, userAgent } = input;
+
+        const user = await this.findPendingUser(id);
+
+        await this.issueInvitation(
+            user.id,
+            user.email,
+            user.name,
+            user.role.name,
+            actorId,
+            ipAddress,
+            userAgent
+        );
+
+        await this.auditService.log({
+            userId: actorId,
+            action: "RESEND_INVITATION",
+            tableName: "User",
+            recordId: user.id,
+            details: `Invitation resent to "${user.email}"`,
+            ipAddress,
+            userAgent,
+        });
+    }
+
+    /**
+     * Batalkan undangan: link di-revoke dan user PENDING di-soft delete
+     * @param input - ID user PENDING dan pelaku
+     */
+    async revoke(input: InvitationActionInput): Promise<void> {
+        const { id, actorId, ipAddress, userAgent } = input;
+
+        const user = await this.findPendingUser(id);
+
+        await this.prisma.$transaction([
+            this.prisma.token.updateMany({
+                where: { userId: id, type: INVITE_TOKEN_TYPE, isRevoked: false },
+                data: { isRevoked: true },
+            }),
+            this.prisma.user.update({
+                where: { id },
+                data: { deletedAt: new Date() },
+            }),
+        ]);
+
+        await this.auditService.log({
+            userId: actorId,
+            action: "REVOKE_INVITATION",
+            tableName: "User",
+            recordId: id,
+            oldValues: { name: user.name, email: user.email },
+            details: `Invitation for "${user.email}" revoked`,
+            ipAddress,
+            userAgent,
+        });
+    }
+
+    /**
+     * Cek validitas link undangan (untuk halaman set password di frontend)
+     * @param token - Token undangan mentah
+     * @returns Nama, email, dan role penerima undangan
+     * @throws Error jika token tidak valid/kadaluarsa/sudah dipakai
+     */
+    async verify(token: string) {
+        const record = await this.findValidToken(token);
+        return {
+            name: record.user.name,
+            email: record.user.email,
+            role: record.user.role.name,
+            expiresAt: record.expiresAt,
+        };
+    }
+
+    /**
+     * Terima undangan: set password dan aktifkan akun
+     * @param token - Token undangan mentah
+     * @param password - Password baru pilihan pengguna
+     * @param ipAddress - IP address untuk audit
+     * @param userAgent - User agent untuk audit
+     */
+    async accept(
+        token: string,
+        password: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        const record = await this.findValidToken(token);
+
+        this.passwordPolicyService.assertValid(password, {
+            name: record.user.name,
+            email: record.user.email,
+        });
+        await this.passwordPolicyService.assertNotReused(
+            record.userId,
+            password
+        );
+        const hashedPassword = await this.passwordService.hash(password);
+
+        // Klaim token secara atomik → cegah dua request memakai link yang sama
+        const claimed = await this.prisma.token.updateMany({
+            where: { id: record.id, usedAt: null, isRevoked: false },
+            data: { usedAt: new Date(), isRevoked: true },
+        });
+        if (claimed.count === 0) {
+            throw new Error("Invalid or expired invitation");
+        }
+
+        await this.prisma.user.update({
+            where: { id: record.userId },
+            data: {
+                password: hashedPassword,
+                status: UserStatus.ACTIVE,
+            },
+        });
+        await this.passwordPolicyService.remember(
+            record.userId,
+            hashedPassword
+        );
+
+        await this.auditService.log({
+            userId: record.userId,
+            action: "ACCEPT_INVITATION",
+            tableName: "User",
+            recordId: record.userId,
+            newValues: { status: "ACTIVE" },
+            details: `Invitation accepted by "${record.user.email}"`,
+            ipAddress,
+            userAgent,
+        });
+
+        if (process.env.NODE_ENV !== "development") {
+            const template = new WelcomeEmailTemplate(
+                this.emailTemplateService
+            );
+            this.emailService
+                .send({
+                    to: record.user.email,
+                    subject: template.getSubject(),
+                    html: template.generate({ userName: record.user.name }),
+                })
+                .catch((error) => {
+                    console.warn("Welcome email failed:", error);
+                });
+        }
+    }
+
+    // Helper methods
+    private async findPendingUser(id: string) {
+        const user = await this.prisma.user.findUnique({
+            where: { id, deletedAt: null },
+            include: { role: true },
+        });
+        if (!user || user.status !== UserStatus.PENDING) {
+            throw new Error("Pending invitation not found");
+        }
+        return user;
+    }
+
+    private async findValidToken(token: string) {
+        if (!token) {
+            throw new Error("Invalid or expired invitation");
+        }
+
+        const record = await this.prisma.token.findFirst({
+            where: {
+                tokenHash: this.tokenService.hash(token),
+                type: INVITE_TOKEN_TYPE,
+                isRevoked: false,
+                usedAt: null,
+                expiresAt: { gt: new Date() },
+            },
+            include: { user: { include: { role: true } } },
+        });
+
+        if (
+            !record ||
+            record.user.deletedAt ||
+            record.user.status !== UserStatus.PENDING
+        ) {
+            throw new Error("Invalid or expired invitation");
+        }
+
+        return record;
+    }
+
+    private async issueInvitation(
+        userId: string,
+        email: string,
+        name: string,
+        roleName: string,
+        inviterId: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        const inviteToken = crypto.randomBytes(32).toString("hex");
+        const expiresAt = new Date(
+            Date.now() + securityConfig.invitationExpiresIn
+        );
+
+        await this.prisma.$transaction([
+            this.prisma.token.updateMany({
+                where: { userId, type: INVITE_TOKEN_TYPE, isRevoked: false },
+                data: { isRevoked: true },
+            }),
+            this.prisma.token.create({
+                data: {
+                    tokenHash: this.tokenService.hash(inviteToken),
+                    type: INVITE_TOKEN_TYPE,
+                    userId,
+                    expiresAt,
+                    isRevoked: false,
+                    ipAddress: ipAddress || null,
+                    userAgent: userAgent || null,
+                },
+            }),
+        ]);
+
+        const acceptLink = `${process.env.FRONTEND_URL}/accept-invitation?token=${inviteToken}`;
+
+        if (process.env.NODE_ENV === "development") {
+            console.log(`[DEV] Invitation link for ${email}: ${acceptLink}`);
+            return;
+        }
+
+        const inviter = await this.prisma.user.findUnique({
+            where: { id: inviterId },
+            select: { name: true },
+        });
+
+        const template = new InvitationEmailTemplate(this.emailTemplateService);
+        const html = template.generate({
+            userName: name,
+            roleName,
+            inviterName: inviter?.name,
+            acceptUrl: acceptLink,
+            expiresAt: this.timezoneService.toLocalString(expiresAt),
+        });
+
+        await this.emailService.send({
+            to: email,
+            subject: template.getSubject(),
+            html,
+        });
+    }
+}
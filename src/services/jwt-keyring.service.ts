@@ -0,0 +1,448 @@
+/**
+ * @file JwtKeyringService – Keyring signing key JWT dengan `kid`
+ * @description
+ * Layanan untuk mengelola key yang dipakai menandatangani dan memverifikasi JWT:
+ * - Keyring terpisah untuk access token dan refresh token
+ * - Satu key aktif untuk sign, key lain hanya untuk verifikasi (masa transisi rotasi)
+ * - Algoritma HS256 (secret di file keyring) atau RS256/EdDSA (PEM di disk)
+ * - Secret legacy `JWT_SECRET`/`JWT_REFRESH_SECRET` tetap diterima dengan kid `legacy`
+ *   (token lama tanpa header `kid` tetap valid)
+ * - Rotasi key tanpa me-logout pengguna + pembersihan key pensiun yang sudah kadaluarsa
+ *
+ * @security
+ * - File keyring dan private key ditulis dengan mode 0600
+ * - Key pensiun hanya dihapus setelah melewati umur maksimum token yang ditandatanganinya
+ * - `kid` yang tidak dikenal memicu reload keyring (throttled) agar instance lain
+ *   langsung mengenali key hasil rotasi
+ * - Sebelum sign, perubahan file keyring (mtime) dicek berkala sehingga instance
+ *   yang berjalan tidak terus menandatangani dengan key yang sudah pensiun
+ *
+ * @usage
+ * const jwtKeyringService = new JwtKeyringService({
+ *   keyringPath: jwtConfig.keyringPath,
+ *   legacyAccessSecret: jwtConfig.accessTokenSecret,
+ *   legacyRefreshSecret: jwtConfig.refreshTokenSecret,
+ *   retention: { access: 15 * 60 * 1000, refresh: 24 * 60 * 60 * 1000 }
+ * });
+ *
+ * const key = jwtKeyringService.getSigningKey('access');
+ * const verifyKey = jwtKeyringService.getVerificationKey('access', header.kid);
+ * jwtKeyringService.rotate('refresh', 'EdDSA');
+ *
+ * @dependencies
+ * - `crypto`, `fs`, `path` (Node.js built-in)
+ */
+
+import crypto, { KeyObject } from "crypto";
+import fs from "fs";
+import path from "path";
+
+export type JwtKeyUse = "access" | "refresh";
+export type JwtAlgorithm = "HS256" | "RS256" | "EdDSA";
+
+export const JWT_KEY_USES: JwtKeyUse[] = ["access", "refresh"];
+export const JWT_ALGORITHMS: JwtAlgorithm[] = ["HS256", "RS256", "EdDSA"];
+
+/**
+ * Entri key di file keyring. Path PEM relatif terhadap folder file keyring.
+ * Key asimetris tanpa `privateKeyPath` hanya bisa dipakai untuk verifikasi.
+ */
+export interface JwtKeyringFileEntry {
+    kid: string;
+    alg: JwtAlgorithm;
+    secret?: string;
+    privateKeyPath?: string;
+    publicKeyPath?: string;
+    createdAt: string;
+    retiredAt?: string;
+}
+
+export interface JwtKeyringFileSet {
+    activeKid: string;
+    keys: JwtKeyringFileEntry[];
+}
+
+export type JwtKeyringFile = Record<JwtKeyUse, JwtKeyringFileSet>;
+
+export interface JwtKey {
+    kid: string;
+    alg: JwtAlgorithm;
+    signingKey: string | KeyObject | null; // null = hanya verifikasi
+    verificationKey: string | KeyObject;
+}
+
+export interface JwtKeyringOptions {
+    keyringPath: string;
+    legacyAccessSecret?: string;
+    legacyRefreshSecret?: string;
+    retention: Record<JwtKeyUse, number>; // umur maksimum token, dalam milidetik
+}
+
+export interface RotateJwtKeyResult {
+    use: JwtKeyUse;
+    kid: string;
+    alg: JwtAlgorithm;
+    previousKid: string | null;
+    prunedKids: string[];
+}
+
+interface LoadedKeySet {
+    activeKid: string;
+    keys: Map<string, JwtKey>;
+}
+
+export const LEGACY_KID = "legacy";
+const RELOAD_THROTTLE_MS = 30 * 1000;
+const SIGNING_RELOAD_CHECK_MS = 1000;
+const HMAC_SECRET_BYTES = 64;
+const RSA_MODULUS_LENGTH = 2048;
+
+export class JwtKeyringService {
+    private sets: Record<JwtKeyUse, LoadedKeySet>;
+    private loadedMtimeMs: number | null = null;
+    private lastReloadCheck = 0;
+    private lastSigningCheck = 0;
+
+    constructor(private options: JwtKeyringOptions) {
+        this.sets = this.load();
+    }
+
+    /**
+     * Ambil key aktif untuk menandatangani token
+     * @param use - Jenis token (access/refresh)
+     * @returns Key aktif (selalu memiliki signing key)
+     */
+    getSigningKey(use: JwtKeyUse): JwtKey {
+        // Keyring bisa dirotasi proses lain (job rotasi): cek mtime berkala
+        const now = Date.now();
+        if (now - this.lastSigningCheck >= SIGNING_RELOAD_CHECK_MS) {
+            this.lastSigningCheck = now;
+            this.reloadIfChanged();
+        }
+
+        const set = this.sets[use];
+        return set.keys.get(set.activeKid)!;
+    }
+
+    /**
+     * Ambil key untuk verifikasi berdasarkan `kid` di header token
+     * @param use - Jenis token (access/refresh)
+     * @param kid - Key ID dari header (kosong = token legacy)
+     * @returns Key verifikasi atau null jika tidak dikenal
+     */
+    getVerificationKey(use: JwtKeyUse, kid?: string): JwtKey | null {
+        const lookupKid = kid || LEGACY_KID;
+        const key = this.sets[use].keys.get(lookupKid);
+        if (key) return key;
+
+        // Key mungkin baru dirotasi oleh instance/proses lain
+        const now = Date.now();
+        if (!kid || now - this.lastReloadCheck < RELOAD_THROTTLE_MS) {
+            return null;
+        }
+        this.lastReloadCheck = now;
+
+        return this.reloadIfChanged()
+            ? this.sets[use].keys.get(kid) ?? null
+            : null;
+    }
+
+    /**
+     * Daftar key yang sedang dimuat (tanpa material key)
+     * @returns Ringkasan key per jenis token
+     */
+    describe(): Record<
+        JwtKeyUse,
+        { kid: string; alg: JwtAlgorithm; active: boolean; canSign: boolean }[]
+    > {
+        const summarize = (use: JwtKeyUse) =>
+            [...this.sets[use].keys.values()].map((key) => ({
+                kid: key.kid,
+                alg: key.alg,
+                active: key.kid === this.sets[use].activeKid,
+                canSign: key.signingKey !== null,
+            }));
+
+        return { access: summarize("access"), refresh: summarize("refresh") };
+    }
+
+    /**
+     * Rotasi key: buat key aktif baru, key lama menjadi verifikasi saja,
+     * dan hapus key pensiun yang sudah melewati masa retensi
+     * @param use - Jenis token yang dirotasi
+     * @param alg - Algoritma key baru (default: algoritma key aktif saat ini / HS256)
+     * @returns Ringkasan hasil rotasi
+     */
+    rotate(use: JwtKeyUse, alg?: JwtAlgorithm): RotateJwtKeyResult {
+        const file = this.readFile() ?? this.emptyFile();
+        const set = file[use];
+        const now = new Date();
+
+        const previous = set.keys.find((key) => key.kid === set.activeKid);
+        const nextAlg = alg ?? previous?.alg ?? "HS256";
+        const kid = this.generateKid(use);
+
+        if (previous) {
+            previous.retiredAt = now.toISOString();
+        }
+
+        // Instance lain bisa masih sign dengan key lama sampai cek berikutnya
+        const retention =
+            this.options.retention[use] + SIGNING_RELOAD_CHECK_MS;
+        const prunedKids: string[] = [];
+        set.keys = set.keys.filter((key) => {
+            if (!key.retiredAt) return true;
+            const expired =
+                new Date(key.retiredAt).getTime() + retention < now.getTime();
+            if (expired) {
+                prunedKids.push(key.kid);
+                this.removeKeyFiles(key);
+            }
+            return !expired;
+        });
+
+        set.keys.push(this.generateEntry(kid, nextAlg, now));
+        set.activeKid = kid;
+
+        this.writeFile(file);
+        this.sets = this.load();
+
+        return {
+            use,
+            kid,
+            alg: nextAlg,
+            previousKid: previous?.kid ?? null,
+            prunedKids,
+        };
+    }
+
+    // Helper methods
+    private load(): Record<JwtKeyUse, LoadedKeySet> {
+        const file = this.readFile();
+        this.loadedMtimeMs = file ? this.statMtime() : null;
+
+        return {
+            access: this.loadSet("access", file?.access),
+            refresh: this.loadSet("refresh", file?.refresh),
+        };
+    }
+
+    private loadSet(
+        use: JwtKeyUse,
+        fileSet: JwtKeyringFileSet | undefined
+    ): LoadedKeySet {
+        const legacySecret =
+            use === "access"
+                ? this.options.legacyAccessSecret
+                : this.options.legacyRefreshSecret;
+
+        const keys = new Map<string, JwtKey>();
+        for (const entry of fileSet?.keys ?? []) {
+            keys.set(entry.kid, this.loadEntry(entry));
+        }
+
+        // Tanpa keyring: secret legacy menjadi key aktif
+        if (!fileSet || keys.size === 0) {
+            if (!legacySecret) {
+                throw new Error(
+                    `No JWT ${use} key configured (set the legacy secret or create a keyring)`
+                );
+            }
+            keys.set(LEGACY_KID, this.legacyKey(legacySecret));
+            return { activeKid: LEGACY_KID, keys };
+        }
+
+        // Dengan keyring: secret legacy hanya untuk verifikasi token lama
+        if (legacySecret && !keys.has(LEGACY_KID)) {
+            keys.set(LEGACY_KID, {
+                ...this.legacyKey(legacySecret),
+                signingKey: null,
+            });
+        }
+
+        const active = keys.get(fileSet.activeKid);
+        if (!active) {
+            throw new Error(
+                `Active JWT ${use} key "${fileSet.activeKid}" not found in keyring`
+            );
+        }
+        if (active.signingKey === null) {
+            throw new Error(
+                `Active JWT ${use} key "${fileSet.activeKid}" has no private key`
+            );
+        }
+
+        return { activeKid: fileSet.activeKid, keys };
+    }
+
+    private loadEntry(entry: JwtKeyringFileEntry): JwtKey {
+        if (!JWT_ALGORITHMS.includes(entry.alg)) {
+            throw new Error(
+                `Unsupported algorithm "${entry.alg}" for JWT key "${entry.kid}"`
+            );
+        }
+
+        if (entry.alg === "HS256") {
+            if (!entry.secret) {
+                throw new Error(`JWT key "${entry.kid}" has no secret`);
+            }
+            return {
+                kid: entry.kid,
+                alg: entry.alg,
+                signingKey: entry.secret,
+                verificationKey: entry.secret,
+            };
+        }
+
+        const privateKey = entry.privateKeyPath
+            ? crypto.createPrivateKey(
+                  fs.readFileSync(this.resolveKeyPath(entry.privateKeyPath))
+              )
+            : null;
+        const publicKey = entry.publicKeyPath
+            ? crypto.createPublicKey(
+                  fs.readFileSync(this.resolveKeyPath(entry.publicKeyPath))
+              )
+            : privateKey
+            ? crypto.createPublicKey(privateKey)
+            : null;
+
+        if (!publicKey) {
+            throw new Error(`JWT key "${entry.kid}" has no key file`);
+        }
+
+        const expectedTypes =
+            entry.alg === "RS256" ? ["rsa"] : ["ed25519", "ed448"];
+        if (!expectedTypes.includes(publicKey.asymmetricKeyType ?? "")) {
+            throw new Error(
+                `JWT key "${entry.kid}" is not a valid ${entry.alg} key`
+            );
+        }
+
+        return {
+            kid: entry.kid,
+            alg: entry.alg,
+            signingKey: privateKey,
+            verificationKey: publicKey,
+        };
+    }
+
+    private legacyKey(secret: string): JwtKey {
+        return {
+            kid: LEGACY_KID,
+            alg: "HS256",
+            signingKey: secret,
+            verificationKey: secret,
+        };
+    }
+
+    private generateEntry(
+        kid: string,
+        alg: JwtAlgorithm,
+        createdAt: Date
+    ): JwtKeyringFileEntry {
+        const entry: JwtKeyringFileEntry = {
+            kid,
+            alg,
+            createdAt: createdAt.toISOString(),
+        };
+
+        if (alg === "HS256") {
+            entry.secret = crypto
+                .randomBytes(HMAC_SECRET_BYTES)
+                .toString("base64url");
+            return entry;
+        }
+
+        const { privateKey, publicKey } =
+            alg === "RS256"
+                ? crypto.generateKeyPairSync("rsa", {
+                      modulusLength: RSA_MODULUS_LENGTH,
+                  })
+                : crypto.generateKeyPairSync("ed25519");
+
+        entry.privateKeyPath = `${kid}.key.pem`;
+        entry.publicKeyPath = `${kid}.pub.pem`;
+
+        this.ensureKeyringDir();
+        fs.writeFileSync(
+            this.resolveKeyPath(entry.privateKeyPath),
+            privateKey.export({ type: "pkcs8", format: "pem" }),
+            { mode: 0o600 }
+        );
+        fs.writeFileSync(
+            this.resolveKeyPath(entry.publicKeyPath),
+            publicKey.export({ type: "spki", format: "pem" }),
+            { mode: 0o644 }
+        );
+
+        return entry;
+    }
+
+    private generateKid(use: JwtKeyUse): string {
+        const date = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+        return `${use}-${date}-${crypto.randomBytes(4).toString("hex")}`;
+    }
+
+    private removeKeyFiles(entry: JwtKeyringFileEntry): void {
+        for (const keyPath of [entry.privateKeyPath, entry.publicKeyPath]) {
+            if (!keyPath) continue;
+            fs.rmSync(this.resolveKeyPath(keyPath), { force: true });
+        }
+    }
+
+    private reloadIfChanged(): boolean {
+        const mtime = this.statMtime();
+        if (mtime === null || mtime === this.loadedMtimeMs) return false;
+
+        try {
+            this.sets = this.load();
+            return true;
+        } catch (error) {
+            console.error("Failed to reload JWT keyring:", error);
+            return false;
+        }
+    }
+
+    private readFile(): JwtKeyringFile | null {
+        if (!fs.existsSync(this.options.keyringPath)) return null;
+        return JSON.parse(
+            fs.readFileSync(this.options.keyringPath, "utf8")
+        ) as JwtKeyringFile;
+    }
+
+    private writeFile(file: JwtKeyringFile): void {
+        this.ensureKeyringDir();
+        const tmpPath = `${this.options.keyringPath}.tmp`;
+        fs.writeFileSync(tmpPath, JSON.stringify(file, null, 4), {
+            mode: 0o600,
+        });
+        fs.renameSync(tmpPath, this.options.keyringPath);
+    }
+
+    private emptyFile(): JwtKeyringFile {
+        return {
+            access: { activeKid: "", keys: [] },
+            refresh: { activeKid: "", keys: [] },
+        };
+    }
+
+    private statMtime(): number | null {
+        try {
+            return fs.statSync(this.options.keyringPath).mtimeMs;
+        } catch {
+            return null;
+        }
+    }
+
+    private ensureKeyringDir(): void {
+        fs.mkdirSync(path.dirname(this.options.keyringPath), {
+            recursive: true,
+            mode: 0o700,
+        });
+    }
+
+    private resolveKeyPath(keyPath: string): string {
+        return path.resolve(path.dirname(this.options.keyringPath), keyPath);
+    }
+}
@@ -0,0 +1,280 @@
+/**
+ * @file LoginAttemptService – Proteksi brute-force dan account lockout untuk login
+ * @description
+ * Layanan untuk membatasi percobaan login:
+ * - Counter kegagalan per akun (kolom `User.failedLoginAttempts`) dan per IP (tabel `LoginAttempt`)
+ * - Delay progresif (exponential backoff) setelah beberapa kegagalan
+ * - Lockout sementara via `lockedUntil` (status user tidak diubah),
+ *   counter direset otomatis setelah lockout berakhir
+ * - Audit `LOGIN_FAILED` dan security alert ke pengelola user saat ambang batas terlewati
+ *
+ * @security
+ * - Akun terkunci ditolak sebelum password diverifikasi
+ * - Pesan error sama untuk throttling akun maupun IP → tidak membocorkan akun mana yang terkunci
+ * - Lockout tidak pernah mengubah `status`, sehingga akun PENDING/INACTIVE/SUSPENDED
+ *   tidak bisa diaktifkan kembali lewat login gagal
+ *
+ * @usage
+ * const loginAttemptService = new LoginAttemptService(prisma, auditService, notificationService);
+ *
+ * await loginAttemptService.assertIpAllowed(ip);
+ * user = await loginAttemptService.assertAccountAllowed(user);
+ * await loginAttemptService.recordFailure({ email, user, ipAddress, userAgent });
+ *
+ * @dependencies
+ * - `@prisma/client`
+ * - `AuditService`, `NotificationService`
+ */
+
+import { PrismaClient, User } from "@prisma/client";
+import { securityConfig } from "../config/security.config";
+import { AuditService } from "./audit.service";
+import { NotificationService } from "./notification.service";
+
+export interface LoginFailureInput {
+    email: string;
+    user?: Pick<User, "id" | "email"> | null;
+    reason?: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+/**
+ * Error khusus agar controller dapat merespons 429 + header Retry-After
+ */
+export class TooManyLoginAttemptsError extends Error {
+    constructor(public readonly retryAfterSeconds: number) {
+        super("Too many login attempts. Please try again later.");
+        this.name = "TooManyLoginAttemptsError";
+    }
+}
+
+export class LoginAttemptService {
+    constructor(
+        private prisma: PrismaClient,
+        private auditService: AuditService,
+        private notificationService: NotificationService
+    ) {}
+
+    /**
+     * Tolak login jika IP melewati batas kegagalan dalam window
+     * @param ipAddress - IP address client
+     * @throws TooManyLoginAttemptsError
+     */
+    async assertIpAllowed(ipAddress?: string): Promise<void> {
+        if (!ipAddress) return;
+
+        const failures = await this.countIpFailures(ipAddress);
+        if (failures >= securityConfig.loginIpMaxAttempts) {
+            throw new TooManyLoginAttemptsError(
+                Math.ceil(securityConfig.loginAttemptWindow / 1000)
+            );
+        }
+    }
+
+    /**
+     * Tolak login jika akun sedang terkunci atau masih dalam delay progresif.
+     * Lockout yang sudah lewat dibuka otomatis (counter direset).
+     * @param user - User yang akan login
+     * @returns User dengan status terbaru
+     * @throws TooManyLoginAttemptsError
+     */
+    async assertAccountAllowed<T extends User>(user: T): Promise<T> {
+        const now = Date.now();
+
+        if (user.lockedUntil) {
+            if (user.lockedUntil.getTime() > now) {
+                throw new TooManyLoginAttemptsError(
+                    Math.ceil((user.lockedUntil.getTime() - now) / 1000)
+                );
+            }
+
+            // Lockout selesai → reset counter (status tidak disentuh)
+            const unlocked = await this.prisma.user.update({
+                where: { id: user.id },
+                data: {
+                    lockedUntil: null,
+                    failedLoginAttempts: 0,
+                },
+            });
+            return { ...user, ...unlocked };
+        }
+
+        const delay = this.getProgressiveDelay(user.failedLoginAttempts);
+        if (delay > 0 && user.lastFailedLoginAt) {
+            const retryAt = user.lastFailedLoginAt.getTime() + delay;
+            if (retryAt > now) {
+                throw new TooManyLoginAttemptsError(
+                    Math.ceil((retryAt - now) / 1000)
+                );
+            }
+        }
+
+        return user;
+    }
+
+    /**
+     * Catat login gagal: counter akun & IP, audit, lockout, dan security alert
+     * @param input - Data kegagalan login
+     */
+    async recordFailure(input: LoginFailureInput): Promise<void> {
+        const { email, user, reason, ipAddress, userAgent } = input;
+
+        await this.prisma.loginAttempt.create({
+            data: {
+                email,
+                userId: user?.id,
+                ipAddress: ipAddress || null,
+                userAgent: userAgent || null,
+                success: false,
+            },
+        });
+
+        let lockedUntil: Date | null = null;
+        let attempts = 0;
+
+        if (user) {
+            // Increment atomik: kegagalan paralel tetap terhitung semua
+            const updated = await this.prisma.user.update({
+                where: { id: user.id },
+                data: {
+                    failedLoginAttempts: { increment: 1 },
+                    lastFailedLoginAt: new Date(),
+                },
+                select: { failedLoginAttempts: true },
+            });
+            attempts = updated.failedLoginAttempts;
+
+            // Keputusan lockout diambil dari counter hasil update
+            if (attempts >= securityConfig.loginMaxAttempts) {
+                lockedUntil = new Date(
+                    Date.now() + securityConfig.loginLockoutDuration
+                );
+                await this.prisma.user.update({
+                    where: { id: user.id },
+                    data: { lockedUntil },
+                });
+            }
+        }
+
+        await this.auditService.log({
+            userId: user?.id,
+            action: "LOGIN_FAILED",
+            tableName: "User",
+            recordId: user?.id,
+            details: `Failed login for ${email}${reason ? ` (${reason})` : ""}${
+                user ? ` – attempt ${attempts}` : ""
+            }`,
+            ipAddress,
+            userAgent,
+        });
+
+        if (lockedUntil && user) {
+            await this.auditService.log({
+                userId: user.id,
+                action: "ACCOUNT_LOCKED",
+                tableName: "User",
+                recordId: user.id,
+                newValues: { lockedUntil },
+                details: `Account locked after ${attempts} failed login attempts`,
+                ipAddress,
+                userAgent,
+            });
+            this.sendSecurityAlert(
+                `Account ${user.email} locked after ${attempts} failed logins`,
+                ipAddress,
+                "users",
+                user.id
+            );
+        }
+
+        // Alert sekali saat IP tepat melewati ambang batas
+        if (ipAddress) {
+            const ipFailures = await this.countIpFailures(ipAddress);
+            if (ipFailures === securityConfig.loginIpMaxAttempts) {
+                this.sendSecurityAlert(
+                    `${ipFailures} failed logins from a single IP`,
+                    ipAddress,
+                    "login_attempts"
+                );
+            }
+        }
+    }
+
+    /**
+     * Catat login berhasil dan reset counter akun
+     * @param userId - ID pengguna
+     * @param email - Email pengguna
+     * @param ipAddress - IP address client
+     * @param userAgent - User agent client
+     */
+    async recordSuccess(
+        userId: string,
+        email: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        await this.prisma.$transaction([
+            this.prisma.loginAttempt.create({
+                data: {
+                    email,
+                    userId,
+                    ipAddress: ipAddress || null,
+                    userAgent: userAgent || null,
+                    success: true,
+                },
+            }),
+            this.prisma.user.update({
+                where: { id: userId },
+                data: { failedLoginAttempts: 0, lastFailedLoginAt: null },
+            }),
+        ]);
+    }
+
+    // Helper methods
+    private async countIpFailures(ipAddress: string): Promise<number> {
+        return this.prisma.loginAttempt.count({
+            where: {
+                ipAddress,
+                success: false,
+                createdAt: {
+                    gt: new Date(
+                        Date.now() - securityConfig.loginAttemptWindow
+                    ),
+                },
+            },
+        });
+    }
+
+    private getProgressiveDelay(failedAttempts: number): number {
+        if (failedAttempts < securityConfig.loginDelayAfter) return 0;
+        const exponent = failedAttempts - securityConfig.loginDelayAfter;
+        return Math.min(
+            securityConfig.loginDelayBase * 2 ** exponent,
+            securityConfig.loginDelayMax
+        );
+    }
+
+    private sendSecurityAlert(
+        event: string,
+        ipAddress: string | undefined,
+        sourceType: string,
+        sourceId?: string
+    ): void {
+        this.notificationService
+            .notifyByPermission(
+                "user",
+                "security_alert",
+                {
+                    event,
+                    ipAddress: ipAddress || null,
+                    timestamp: new Date().toISOString(),
+                },
+                sourceType,
+                sourceId
+            )
+            .catch((error) => {
+                console.warn("Security alert notification failed:", error);
+            });
+    }
+}
@@ -59,7 +59,7 @@ export class NotificationService {
         security_alert: (data) => ({
             title: "⚠️ Security Alert",
             message: `Unusual activity: ${data.event} from ${
-                data.country
+                data.country ?? data.ipAddress ?? "unknown location"
             } at ${new Date(data.timestamp).toLocaleString()}`,
         }),
         export_ready: (data) => ({
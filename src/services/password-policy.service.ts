@@ -0,0 +1,266 @@
+/**
+ * @file PasswordPolicyService – Kebijakan kekuatan password dan riwayat password
+ * @description
+ * Layanan untuk menegakkan aturan password di semua titik set password
+ * (create user, reset password, ganti password, terima undangan):
+ * - Panjang minimal dan kelas karakter (huruf besar/kecil, angka, simbol) – dapat dikonfigurasi
+ * - Blocklist password umum (disimpan lokal di `config/common-passwords.ts`)
+ * - Tidak boleh mengandung nama atau bagian lokal email pengguna
+ * - Tidak boleh sama dengan N password terakhir (tabel `PasswordHistory`)
+ *
+ * @security
+ * - Riwayat hanya menyimpan hash bcrypt, tidak pernah plaintext
+ * - Pelanggaran dikembalikan terstruktur (`code` + `message`) agar frontend bisa menampilkan checklist
+ *
+ * @usage
+ * const passwordPolicyService = new PasswordPolicyService(prisma, passwordService);
+ *
+ * passwordPolicyService.assertValid(password, { name, email });
+ * await passwordPolicyService.assertNotReused(userId, password);
+ * await passwordPolicyService.remember(userId, hashedPassword);
+ *
+ * @dependencies
+ * - `@prisma/client`
+ * - `PasswordService`
+ */
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { securityConfig } from "../config/security.config";
+import { COMMON_PASSWORDS } from "../config/common-passwords";
+import { PasswordService } from "./password.service";
+
+export type PasswordViolationCode =
+    | "required"
+    | "min_length"
+    | "uppercase"
+    | "lowercase"
+    | "number"
+    | "symbol"
+    | "common"
+    | "personal_info"
+    | "reused";
+
+export interface PasswordViolation {
+    code: PasswordViolationCode;
+    message: string;
+}
+
+export interface PasswordContext {
+    name?: string | null;
+    email?: string | null;
+}
+
+export interface PasswordPolicy {
+    minLength: number;
+    requireUppercase: boolean;
+    requireLowercase: boolean;
+    requireNumber: boolean;
+    requireSymbol: boolean;
+    historySize: number;
+}
+
+/**
+ * Error khusus agar controller dapat merespons 400 + daftar pelanggaran (`details`)
+ */
+export class PasswordPolicyError extends Error {
+    constructor(public readonly details: PasswordViolation[]) {
+        super("Password does not meet the password policy");
+        this.name = "PasswordPolicyError";
+    }
+}
+
+type PrismaTx = PrismaClient | Prisma.TransactionClient;
+
+// Potongan nama/email yang lebih pendek dari ini tidak dicek (terlalu banyak false positive)
+const MIN_PERSONAL_TOKEN_LENGTH = 3;
+
+export class PasswordPolicyService {
+    constructor(
+        private prisma: PrismaClient,
+        private passwordService: PasswordService
+    ) {}
+
+    /**
+     * Ambil kebijakan password aktif (untuk ditampilkan di frontend)
+     * @returns Kebijakan password
+     */
+    getPolicy(): PasswordPolicy {
+        return {
+            minLength: securityConfig.passwordMinLength,
+            requireUppercase: securityConfig.passwordRequireUppercase,
+            requireLowercase: securityConfig.passwordRequireLowercase,
+            requireNumber: securityConfig.passwordRequireNumber,
+            requireSymbol: securityConfig.passwordRequireSymbol,
+            historySize: securityConfig.passwordHistorySize,
+        };
+    }
+
+    /**
+     * Validasi password terhadap kebijakan (tanpa cek riwayat)
+     * @param password - Password plaintext
+     * @param context - Nama/email pengguna untuk cek informasi pribadi
+     * @returns Daftar pelanggaran (kosong jika valid)
+     */
+    validate(
+        password: string,
+        context: PasswordContext = {}
+    ): PasswordViolation[] {
+        if (!password || typeof password !== "string") {
+            return [{ code: "required", message: "Password is required" }];
+        }
+
+        const policy = this.getPolicy();
+        const violations: PasswordViolation[] = [];
+
+        if (password.length < policy.minLength) {
+            violations.push({
+                code: "min_length",
+                message: `Password must be at least ${policy.minLength} characters`,
+            });
+        }
+        if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+            violations.push({
+                code: "uppercase",
+                message: "Password must contain an uppercase letter",
+            });
+        }
+        if (policy.requireLowercase && !/[a-z]/.test(password)) {
+            violations.push({
+                code: "lowercase",
+                message: "Password must contain a lowercase letter",
+            });
+        }
+        if (policy.requireNumber && !/[0-9]/.test(password)) {
+            violations.push({
+                code: "number",
+                message: "Password must contain a number",
+            });
+        }
+        if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+            violations.push({
+                code: "symbol",
+                message: "Password must contain a symbol",
+            });
+        }
+        if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+            violations.push({
+                code: "common",
+                message: "Password is too common",
+            });
+        }
+        if (this.containsPersonalInfo(password, context)) {
+            violations.push({
+                code: "personal_info",
+                message: "Password must not contain your name or email",
+            });
+        }
+
+        return violations;
+    }
+
+    /**
+     * Validasi password dan lempar error jika melanggar kebijakan
+     * @param password - Password plaintext
+     * @param context - Nama/email pengguna
+     * @throws PasswordPolicyError
+     */
+    assertValid(password: string, context: PasswordContext = {}): void {
+        const violations = this.validate(password, context);
+        if (violations.length > 0) {
+            throw new PasswordPolicyError(violations);
+        }
+    }
+
+    /**
+     * Tolak password yang sama dengan password saat ini atau N password terakhir
+     * @param userId - ID pengguna
+     * @param password - Password plaintext baru
+     * @throws PasswordPolicyError
+     */
+    async assertNotReused(userId: string, password: string): Promise<void> {
+        const historySize = securityConfig.passwordHistorySize;
+        if (historySize <= 0) return;
+
+        const [user, history] = await Promise.all([
+            this.prisma.user.findUnique({
+                where: { id: userId },
+                select: { password: true },
+            }),
+            this.prisma.passwordHistory.findMany({
+                where: { userId },
+                orderBy: { createdAt: "desc" },
+                take: historySize,
+                select: { passwordHash: true },
+            }),
+        ]);
+
+        const hashes = new Set(history.map((h) => h.passwordHash));
+        if (user?.password) hashes.add(user.password);
+
+        for (const hash of hashes) {
+            if (await this.passwordService.verify(password, hash)) {
+                throw new PasswordPolicyError([
+                    {
+                        code: "reused",
+                        message: `Password must not match any of your last ${historySize} passwords`,
+                    },
+                ]);
+            }
+        }
+    }
+
+    /**
+     * Simpan hash password baru ke riwayat dan pangkas riwayat lama
+     * @param userId - ID pengguna
+     * @param passwordHash - Hash bcrypt password yang baru di-set
+     * @param tx - Prisma client/transaksi (opsional)
+     */
+    async remember(
+        userId: string,
+        passwordHash: string,
+        tx: PrismaTx = this.prisma
+    ): Promise<void> {
+        const historySize = securityConfig.passwordHistorySize;
+        if (historySize <= 0) return;
+
+        await tx.passwordHistory.create({
+            data: { userId, passwordHash },
+        });
+
+        const stale = await tx.passwordHistory.findMany({
+            where: { userId },
+            orderBy: { createdAt: "desc" },
+            skip: historySize,
+            select: { id: true },
+        });
+
+        if (stale.length > 0) {
+            await tx.passwordHistory.deleteMany({
+                where: { id: { in: stale.map((h) => h.id) } },
+            });
+        }
+    }
+
+    // Helper methods
+    private containsPersonalInfo(
+        password: string,
+        context: PasswordContext
+    ): boolean {
+        const lowered = password.toLowerCase();
+        const tokens: string[] = [];
+
+        if (context.email) {
+            const local = context.email.toLowerCase().split("@")[0];
+            tokens.push(local, ...local.split(/[^a-z0-9]+/));
+        }
+        if (context.name) {
+            tokens.push(...context.name.toLowerCase().split(/\s+/));
+        }
+
+        return tokens.some(
+            (token) =>
+                token.length >= MIN_PERSONAL_TOKEN_LENGTH &&
+                lowered.includes(token)
+        );
+    }
+}
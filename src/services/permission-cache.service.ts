@@ -0,0 +1,175 @@
+/**
+ * @file PermissionCacheService – Cache permission per role lintas request
+ * @description
+ * Layanan cache in-memory (per proses) untuk set permission setiap role:
+ * - Permission satu role dimuat sekali dari database lalu disimpan sebagai Set `resource:action`
+ * - TTL membatasi umur cache (konsistensi antar instance server)
+ * - Load paralel untuk role yang sama digabung menjadi satu query
+ * - Invalidasi eksplisit saat role/permission berubah (dipanggil oleh `RoleService`)
+ * - Metrik hit/miss/load/invalidasi untuk monitoring
+ *
+ * @security
+ * - Cache diinvalidasi segera setelah perubahan permission di proses ini
+ * - Instance lain melihat perubahan paling lambat setelah TTL berakhir
+ *
+ * @usage
+ * const permissionCacheService = new PermissionCacheService(prisma, {
+ *   ttl: securityConfig.permissionCacheTtl
+ * });
+ *
+ * const allowed = await permissionCacheService.has(roleId, 'product', 'manage');
+ * permissionCacheService.invalidate(roleId);
+ *
+ * @dependencies
+ * - `@prisma/client`
+ */
+
+import { PrismaClient } from "@prisma/client";
+
+export interface PermissionCacheOptions {
+    ttl: number; // dalam milidetik, 0 = tanpa cache
+}
+
+export interface PermissionCacheMetrics {
+    size: number;
+    hits: number;
+    misses: number;
+    loads: number;
+    invalidations: number;
+    hitRate: number;
+    ttl: number;
+}
+
+interface CacheEntry {
+    permissions: ReadonlySet<string>;
+    expiresAt: number;
+}
+
+export class PermissionCacheService {
+    private entries = new Map<string, CacheEntry>();
+    private pending = new Map<string, Promise<ReadonlySet<string>>>();
+    private generations = new Map<string, number>();
+    private hits = 0;
+    private misses = 0;
+    private loads = 0;
+    private invalidations = 0;
+
+    constructor(
+        private prisma: PrismaClient,
+        private options: PermissionCacheOptions
+    ) {}
+
+    /**
+     * Cek apakah role memiliki permission tertentu (dari cache)
+     * @param roleId - ID role
+     * @param resource - Nama resource
+     * @param action - Aksi yang diminta
+     * @returns true jika permission ditemukan
+     */
+    async has(
+        roleId: string,
+        resource: string,
+        action: string
+    ): Promise<boolean> {
+        const permissions = await this.getPermissions(roleId);
+        return permissions.has(this.key(resource, action));
+    }
+
+    /**
+     * Ambil set permission role (format `resource:action`)
+     * @param roleId - ID role
+     * @returns Set permission role
+     */
+    async getPermissions(roleId: string): Promise<ReadonlySet<string>> {
+        const entry = this.entries.get(roleId);
+        if (entry && entry.expiresAt > Date.now()) {
+            this.hits++;
+            return entry.permissions;
+        }
+
+        this.misses++;
+        const pending = this.pending.get(roleId);
+        if (pending) return pending;
+
+        const load = this.load(roleId).finally(() => {
+            this.pending.delete(roleId);
+        });
+        this.pending.set(roleId, load);
+        return load;
+    }
+
+    /**
+     * Hapus cache satu role (dipanggil setelah permission role berubah)
+     * @param roleId - ID role
+     */
+    invalidate(roleId: string): void {
+        this.entries.delete(roleId);
+        this.pending.delete(roleId);
+        this.generations.set(roleId, (this.generations.get(roleId) ?? 0) + 1);
+        this.invalidations++;
+    }
+
+    /**
+     * Hapus seluruh cache
+     */
+    invalidateAll(): void {
+        for (const roleId of new Set([
+            ...this.entries.keys(),
+            ...this.pending.keys(),
+        ])) {
+            this.generations.set(
+                roleId,
+                (this.generations.get(roleId) ?? 0) + 1
+            );
+        }
+        this.entries.clear();
+        this.pending.clear();
+        this.invalidations++;
+    }
+
+    /**
+     * Ambil metrik cache untuk monitoring
+     * @returns Ukuran cache, hit/miss, jumlah load dan invalidasi
+     */
+    getMetrics(): PermissionCacheMetrics {
+        const lookups = this.hits + this.misses;
+        return {
+            size: this.entries.size,
+            hits: this.hits,
+            misses: this.misses,
+            loads: this.loads,
+            invalidations: this.invalidations,
+            hitRate: lookups > 0 ? this.hits / lookups : 0,
+            ttl: this.options.ttl,
+        };
+    }
+
+    // Helper methods
+    private async load(roleId: string): Promise<ReadonlySet<string>> {
+        const generation = this.generations.get(roleId) ?? 0;
+        this.loads++;
+
+        const rows = await this.prisma.permission.findMany({
+            where: { roleId },
+            select: { resource: true, action: true },
+        });
+        const permissions: ReadonlySet<string> = new Set(
+            rows.map((row) => this.key(row.resource, row.action))
+        );
+
+        // Hasil load basi (role diinvalidasi saat query berjalan) tidak disimpan
+        const stale = (this.generations.get(roleId) ?? 0) !== generation;
+        if (!stale && this.options.ttl > 0) {
+            this.entries.set(roleId, {
+                permissions,
+                expiresAt: Date.now() + this.options.ttl,
+            });
+        }
+
+        return permissions;
+    }
+
+    private key(resource: string, action: string): string {
+        return `${resource}:${action}`;
+    }
+}
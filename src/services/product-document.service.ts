@@ -0,0 +1,317 @@
+/**
+ * @file ProductDocumentService – Lampiran dokumen produk (datasheet, manual, sertifikat)
+ * @description
+ * Layanan untuk mengelola dokumen PDF/DOCX milik produk:
+ * - Upload per bahasa (atau untuk semua bahasa), tipe dokumen, versi, ukuran file
+ * - Ganti file dokumen (file lama dihapus)
+ * - Hitung jumlah download dari endpoint publik
+ * - File disimpan di direktori privat; response hanya berisi `downloadUrl`
+ *   (nama file di disk tidak pernah dikirim ke client)
+ *
+ * @security
+ * - Validasi tipe file dilakukan di `FileService` (allowlist MIME + magic bytes)
+ * - Dokumen nonaktif atau milik produk yang dihapus tidak bisa diunduh publik
+ * - File tidak bisa diakses lewat static `/uploads`, sehingga dokumen
+ *   nonaktif tidak bisa diunduh dan `downloadCount` akurat
+ * - Hapus file hanya di dalam direktori dokumen privat
+ *
+ * @usage
+ * await productDocumentService.create({
+ *   productId: 'prd_123',
+ *   type: 'DATASHEET',
+ *   language: 'EN',
+ *   title: 'Inverter 5 kW Datasheet',
+ *   file: { storedName: 'document-123.pdf', fileName: 'datasheet.pdf', mimeType: 'application/pdf', size: 120394 },
+ *   createdBy: 'usr_123'
+ * });
+ *
+ * @dependencies
+ * - `@prisma/client`
+ * - `AuditService`, `FileService`
+ */
+
+import {
+    Language,
+    PrismaClient,
+    ProductDocument,
+    ProductDocumentType,
+} from "@prisma/client";
+import { AuditService } from "./audit.service";
+import { FileService } from "./file.service";
+
+export interface DocumentFileInput {
+    storedName: string; // Nama file di direktori dokumen privat
+    fileName: string;
+    mimeType: string;
+    size: number;
+}
+
+export interface CreateProductDocumentInput {
+    productId: string;
+    type: ProductDocumentType;
+    language?: Language | null;
+    title: string;
+    version?: string | null;
+    isActive?: boolean;
+    file: DocumentFileInput;
+    createdBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface UpdateProductDocumentInput {
+    productId: string;
+    id: string;
+    type?: ProductDocumentType;
+    language?: Language | null; // undefined = tidak diubah
+    title?: string;
+    version?: string | null;
+    isActive?: boolean;
+    file?: DocumentFileInput; // diisi = ganti file
+    updatedBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface DeleteProductDocumentInput {
+    productId: string;
+    id: string;
+    deletedBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+// Kolom `file` (nama file di disk) tidak pernah dikirim ke client
+export const DOCUMENT_RESPONSE_OMIT = { file: true } as const;
+
+/**
+ * Tambahkan URL download publik ke dokumen (tanpa kolom `file`)
+ */
+export function toDocumentResponse<
+    T extends { id: string; productId: string }
+>(document: T): Omit<T, "file"> & { downloadUrl: string } {
+    const { file, ...rest } = document as T & { file?: string };
+    const { id, productId } = document;
+    return {
+        ...rest,
+        downloadUrl: `/api/products/${productId}/documents/${id}/download`,
+    };
+}
+
+export class ProductDocumentService {
+    constructor(
+        private prisma: PrismaClient,
+        private auditService: AuditService,
+        private fileService: FileService
+    ) {}
+
+    /**
+     * Ambil dokumen produk
+     * @param options.language - Dokumen bahasa tsb + dokumen semua bahasa
+     * @param options.includeInactive - Sertakan dokumen nonaktif (admin)
+     */
+    async list(
+        productId: string,
+        options: {
+            type?: ProductDocumentType;
+            language?: Language;
+            includeInactive?: boolean;
+        } = {}
+    ) {
+        const { type, language, includeInactive = false } = options;
+
+        const documents = await this.prisma.productDocument.findMany({
+            where: {
+                productId,
+                product: { deletedAt: null },
+                ...(type ? { type } : {}),
+                ...(language
+                    ? { OR: [{ language }, { language: null }] }
+                    : {}),
+                ...(includeInactive ? {} : { isActive: true }),
+            },
+            orderBy: [{ type: "asc" }, { language: "asc" }, { title: "asc" }],
+            omit: DOCUMENT_RESPONSE_OMIT,
+        });
+        return documents.map(toDocumentResponse);
+    }
+
+    /**
+     * Ambil detail dokumen milik produk
+     */
+    async findById(productId: string, id: string) {
+        return this.prisma.productDocument.findFirst({
+            where: { id, productId },
+        });
+    }
+
+    /**
+     * Tambah dokumen produk
+     */
+    async create(input: CreateProductDocumentInput) {
+        const {
+            productId,
+            type,
+            language = null,
+            title,
+            version = null,
+            isActive = true,
+            file,
+            createdBy,
+            ipAddress,
+            userAgent,
+        } = input;
+
+        const product = await this.prisma.product.findUnique({
+            where: { id: productId, deletedAt: null },
+        });
+        if (!product) {
+            this.fileService.deleteDocument(file.storedName);
+            throw new Error("Product not found");
+        }
+
+        const document = await this.prisma.productDocument.create({
+            data: {
+                productId,
+                type,
+                language,
+                title,
+                version,
+                isActive,
+                file: file.storedName,
+                fileName: file.fileName,
+                mimeType: file.mimeType,
+                fileSize: file.size,
+            },
+        });
+
+        await this.auditService.log({
+            userId: createdBy,
+            action: "CREATE_PRODUCT_DOCUMENT",
+            tableName: "ProductDocument",
+            recordId: document.id,
+            newValues: document,
+            details: `Document "${title}" added to product "${product.name}"`,
+            ipAddress,
+            userAgent,
+        });
+
+        return toDocumentResponse(document);
+    }
+
+    /**
+     * Update metadata dokumen dan/atau ganti file
+     */
+    async update(input: UpdateProductDocumentInput) {
+        const {
+            productId,
+            id,
+            type,
+            language,
+            title,
+            version,
+            isActive,
+            file,
+            updatedBy,
+            ipAddress,
+            userAgent,
+        } = input;
+
+        const existing = await this.findById(productId, id);
+        if (!existing) {
+            if (file) this.fileService.deleteDocument(file.storedName);
+            throw new Error("Document not found");
+        }
+
+        const document = await this.prisma.productDocument.update({
+            where: { id },
+            data: {
+                type,
+                language,
+                title,
+                version,
+                isActive,
+                ...(file
+                    ? {
+                          file: file.storedName,
+                          fileName: file.fileName,
+                          mimeType: file.mimeType,
+                          fileSize: file.size,
+                      }
+                    : {}),
+            },
+        });
+
+        // Hapus file lama jika diganti
+        if (file && existing.file !== file.storedName) {
+            this.fileService.deleteDocument(existing.file);
+        }
+
+        await this.auditService.log({
+            userId: updatedBy,
+            action: "UPDATE_PRODUCT_DOCUMENT",
+            tableName: "ProductDocument",
+            recordId: id,
+            oldValues: existing,
+            newValues: document,
+            details: `Document "${document.title}" updated`,
+            ipAddress,
+            userAgent,
+        });
+
+        return toDocumentResponse(document);
+    }
+
+    /**
+     * Hapus dokumen beserta filenya
+     */
+    async delete(input: DeleteProductDocumentInput) {
+        const { productId, id, deletedBy, ipAddress, userAgent } = input;
+
+        const existing = await this.findById(productId, id);
+        if (!existing) throw new Error("Document not found");
+
+        await this.prisma.productDocument.delete({ where: { id } });
+        this.fileService.deleteDocument(existing.file);
+
+        await this.auditService.log({
+            userId: deletedBy,
+            action: "DELETE_PRODUCT_DOCUMENT",
+            tableName: "ProductDocument",
+            recordId: id,
+            oldValues: existing,
+            details: `Document "${existing.title}" deleted`,
+            ipAddress,
+            userAgent,
+        });
+    }
+
+    /**
+     * Catat download dokumen publik
+     * @returns Dokumen + path absolut file, null jika tidak tersedia
+     */
+    async registerDownload(
+        productId: string,
+        id: string
+    ): Promise<{ document: ProductDocument; filePath: string } | null> {
+        const document = await this.prisma.productDocument.findFirst({
+            where: {
+                id,
+                productId,
+                isActive: true,
+                product: { deletedAt: null },
+            },
+        });
+        if (!document) return null;
+
+        const updated = await this.prisma.productDocument.update({
+            where: { id },
+            data: { downloadCount: { increment: 1 } },
+        });
+
+        return {
+            document: updated,
+            filePath: this.fileService.resolveDocumentPath(document.file),
+        };
+    }
+}
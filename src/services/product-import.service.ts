@@ -0,0 +1,570 @@
+/**
+ * @file ProductImportService – Import produk massal dari Excel (.xlsx) atau CSV
+ * @description
+ * Layanan untuk membuat banyak produk sekaligus dari spreadsheet katalog:
+ * - Baca file .xlsx / .csv (sheet pertama, baris pertama = header)
+ * - Mapping kolom ke field produk + terjemahan ID/EN (header fleksibel,
+ *   e.g. "Short Description (EN)" → `short_description_en`)
+ * - Resolusi brand & kategori berdasarkan slug
+ * - Validasi per baris (wajib isi, panjang field sesuai kolom database,
+ *   duplikat slug/SKU dalam file & database)
+ * - Dry-run: hanya laporan validasi tanpa menulis ke database
+ * - Commit: semua produk dibuat dalam satu transaksi (all-or-nothing)
+ *   + satu entri audit log per produk
+ *
+ * @security
+ * - File dibaca dari memori, tidak disimpan ke disk
+ * - Batas jumlah baris per import (`MAX_IMPORT_ROWS`)
+ * - Commit ditolak jika ada satu baris pun yang tidak valid
+ *
+ * @usage
+ * const result = await productImportService.import({
+ *   file: req.file.buffer,
+ *   filename: req.file.originalname,
+ *   dryRun: true,
+ *   createdBy: 'usr_123'
+ * });
+ *
+ * @dependencies
+ * - `exceljs` untuk membaca .xlsx dan .csv
+ * - `AuditService`, `SlugService`, `SortOrderService`
+ */
+
+import ExcelJS from "exceljs";
+import path from "path";
+import { Readable } from "stream";
+import { Language, PrismaClient } from "@prisma/client";
+import { AuditService } from "./audit.service";
+import { SlugService } from "./slug.service";
+import { SortOrderService } from "./sort-order.service";
+import { TranslationInput } from "./product.service";
+
+export const MAX_IMPORT_ROWS = 1000;
+
+// Transaksi commit berisi 1–2 query per baris; default Prisma (5 detik)
+// tidak cukup untuk `MAX_IMPORT_ROWS` baris
+const IMPORT_TRANSACTION_MAX_WAIT = 10 * 1000;
+const IMPORT_TRANSACTION_TIMEOUT = 10 * 1000 + MAX_IMPORT_ROWS * 100;
+
+export interface ProductImportInput {
+    file: Buffer;
+    filename: string;
+    dryRun: boolean;
+    createdBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface ProductImportRow {
+    row: number; // Nomor baris di spreadsheet (header = baris 1)
+    slug: string | null;
+    name: string | null;
+    errors: string[];
+    productId?: string; // Diisi setelah commit
+}
+
+export interface ProductImportResult {
+    dryRun: boolean;
+    committed: boolean;
+    total: number;
+    valid: number;
+    invalid: number;
+    rows: ProductImportRow[];
+}
+
+type ImportField =
+    | "name"
+    | "slug"
+    | "sku"
+    | "category"
+    | "brand"
+    | "isActive"
+    | "isFeatured";
+
+type TranslationField =
+    | "shortDescription"
+    | "longDescription"
+    | "metaTitle"
+    | "metaDescription"
+    | "metaKeywords";
+
+type ImportTranslation = Pick<TranslationInput, "language" | TranslationField>;
+
+type ColumnMapping =
+    | { kind: "field"; field: ImportField }
+    | { kind: "translation"; language: Language; field: TranslationField };
+
+// Header (sudah dinormalisasi) → field produk
+const COLUMN_ALIASES: Record<string, ImportField> = {
+    name: "name",
+    product_name: "name",
+    slug: "slug",
+    sku: "sku",
+    part_number: "sku",
+    category: "category",
+    category_slug: "category",
+    brand: "brand",
+    brand_slug: "brand",
+    is_active: "isActive",
+    active: "isActive",
+    is_featured: "isFeatured",
+    featured: "isFeatured",
+};
+
+// Prefix header terjemahan, diikuti suffix bahasa (`_id` / `_en`)
+const TRANSLATION_COLUMNS: Record<string, TranslationField> = {
+    short_description: "shortDescription",
+    long_description: "longDescription",
+    meta_title: "metaTitle",
+    meta_description: "metaDescription",
+    meta_keywords: "metaKeywords",
+};
+
+// Batas kolom product_translations: VARCHAR dihitung per karakter,
+// TEXT (65.535 byte) dihitung per byte UTF-8
+const TRANSLATION_MAX_CHARS: Partial<Record<TranslationField, number>> = {
+    metaTitle: 255,
+};
+const TRANSLATION_TEXT_MAX_BYTES = 65535;
+
+const TRUE_VALUES = ["true", "1", "yes", "ya", "y"];
+const FALSE_VALUES = ["false", "0", "no", "tidak", "n"];
+
+interface ParsedRow {
+    row: number;
+    fields: Partial<Record<ImportField, string>>;
+    translations: ImportTranslation[];
+}
+
+interface PreparedProduct {
+    result: ProductImportRow;
+    slug: string;
+    sku: string | null;
+    name: string;
+    categoryId: string;
+    brandId: string;
+    isActive: boolean;
+    isFeatured: boolean;
+    translations: ImportTranslation[];
+}
+
+export class ProductImportService {
+    constructor(
+        private prisma: PrismaClient,
+        private auditService: AuditService,
+        private slugService: SlugService,
+        private sortOrderService: SortOrderService
+    ) {}
+
+    /**
+     * Validasi (dan commit jika bukan dry-run) produk dari spreadsheet
+     * @returns Laporan per baris; `committed` = true jika produk sudah dibuat
+     */
+    async import(input: ProductImportInput): Promise<ProductImportResult> {
+        const { dryRun, createdBy, ipAddress, userAgent } = input;
+
+        const rows = await this.readRows(input.file, input.filename);
+        if (rows.length === 0) {
+            throw new Error("The file does not contain any product rows");
+        }
+        if (rows.length > MAX_IMPORT_ROWS) {
+            throw new Error(
+                `Too many rows: maximum ${MAX_IMPORT_ROWS} products per import`
+            );
+        }
+
+        const prepared = await this.validateRows(rows);
+        const results = prepared.map((p) => p.result);
+        const invalid = results.filter((r) => r.errors.length > 0).length;
+
+        const report: ProductImportResult = {
+            dryRun,
+            committed: false,
+            total: results.length,
+            valid: results.length - invalid,
+            invalid,
+            rows: results,
+        };
+
+        if (dryRun || invalid > 0) return report;
+
+        // Buat semua produk dalam satu transaksi (all-or-nothing)
+        const created = await this.prisma.$transaction(
+            async (tx) => {
+                let sortOrder = await this.sortOrderService.calculate({
+                    model: "product",
+                    baseWhere: { deletedAt: null },
+                });
+
+                const products = [];
+                for (const item of prepared) {
+                    const product = await tx.product.create({
+                        data: {
+                            slug: item.slug,
+                            sku: item.sku,
+                            name: item.name,
+                            categoryId: item.categoryId,
+                            brandId: item.brandId,
+                            images: [],
+                            isActive: item.isActive,
+                            isFeatured: item.isFeatured,
+                            sortOrder: sortOrder++,
+                        },
+                    });
+
+                    if (item.translations.length > 0) {
+                        await tx.productTranslation.createMany({
+                            data: item.translations.map((t) => ({
+                                ...t,
+                                productId: product.id,
+                            })),
+                        });
+                    }
+
+                    item.result.productId = product.id;
+                    products.push({ item, product });
+                }
+                return products;
+            },
+            {
+                maxWait: IMPORT_TRANSACTION_MAX_WAIT,
+                timeout: IMPORT_TRANSACTION_TIMEOUT,
+            }
+        );
+
+        for (const { item, product } of created) {
+            await this.auditService.log({
+                userId: createdBy,
+                action: "IMPORT_PRODUCT",
+                tableName: "Product",
+                recordId: product.id,
+                newValues: {
+                    slug: product.slug,
+                    sku: product.sku,
+                    name: product.name,
+                    categoryId: product.categoryId,
+                    brandId: product.brandId,
+                    isActive: product.isActive,
+                    isFeatured: product.isFeatured,
+                    sortOrder: product.sortOrder,
+                    translations: item.translations,
+                },
+                details: `Product "${product.slug}" imported (row ${item.result.row})`,
+                ipAddress,
+                userAgent,
+            });
+        }
+
+        return { ...report, committed: true };
+    }
+
+    // Helper methods
+    /**
+     * Baca sheet pertama menjadi baris ter-mapping (baris kosong dilewati)
+     */
+    private async readRows(file: Buffer, filename: string) {
+        const workbook = new ExcelJS.Workbook();
+        const ext = path.extname(filename).toLowerCase();
+
+        let worksheet: ExcelJS.Worksheet | undefined;
+        if (ext === ".csv") {
+            worksheet = await workbook.csv.read(Readable.from(file));
+        } else if (ext === ".xlsx") {
+            // Tipe `load` milik ExcelJS meminta ArrayBuffer, bukan Buffer Node
+            await workbook.xlsx.load(new Uint8Array(file).buffer);
+            worksheet = workbook.worksheets[0];
+        } else {
+            throw new Error("Unsupported file type. Use .xlsx or .csv");
+        }
+        if (!worksheet) return [];
+
+        // Mapping nomor kolom → field produk / terjemahan
+        const columns = new Map<number, ColumnMapping>();
+        worksheet.getRow(1).eachCell((cell, col) => {
+            const header = this.normalizeHeader(cell.text);
+            if (COLUMN_ALIASES[header]) {
+                columns.set(col, {
+                    kind: "field",
+                    field: COLUMN_ALIASES[header],
+                });
+                return;
+            }
+
+            const match = header.match(/^(.+)_(id|en)$/);
+            if (match && TRANSLATION_COLUMNS[match[1]]) {
+                columns.set(col, {
+                    kind: "translation",
+                    language: match[2].toUpperCase() as Language,
+                    field: TRANSLATION_COLUMNS[match[1]],
+                });
+            }
+        });
+
+        if (![...columns.values()].some((c) => c.kind === "field")) {
+            throw new Error(
+                "No recognizable columns found in the header row"
+            );
+        }
+
+        const rows: ParsedRow[] = [];
+        worksheet.eachRow((row, rowNumber) => {
+            if (rowNumber === 1) return;
+
+            const fields: ParsedRow["fields"] = {};
+            const translations = new Map<Language, ImportTranslation>();
+            for (const [col, column] of columns) {
+                const value = row.getCell(col).text.trim();
+                if (!value) continue;
+
+                if (column.kind === "field") {
+                    fields[column.field] = value;
+                } else {
+                    const translation = translations.get(column.language) ?? {
+                        language: column.language,
+                    };
+                    translation[column.field] = value;
+                    translations.set(column.language, translation);
+                }
+            }
+
+            if (Object.keys(fields).length === 0 && translations.size === 0) {
+                return;
+            }
+            rows.push({
+                row: rowNumber,
+                fields,
+                translations: [...translations.values()],
+            });
+        });
+
+        return rows;
+    }
+
+    /**
+     * Validasi semua baris sekaligus
+     * (lookup brand, kategori, dan duplikat dalam satu batch query)
+     */
+    private async validateRows(rows: ParsedRow[]): Promise<PreparedProduct[]> {
+        const prepared = rows.map((row) => this.prepareRow(row));
+
+        const slugs = prepared.map((p) => p.slug).filter(Boolean);
+        const skus = prepared
+            .map((p) => p.sku)
+            .filter((sku): sku is string => Boolean(sku));
+        const brandSlugs = rows
+            .map((r) => r.fields.brand)
+            .filter((slug): slug is string => Boolean(slug));
+        const categorySlugs = rows
+            .map((r) => r.fields.category)
+            .filter((slug): slug is string => Boolean(slug));
+
+        const [brands, categories, productSlugs, productSkus, variantSkus] =
+            await Promise.all([
+                this.prisma.brand.findMany({
+                    where: { slug: { in: brandSlugs }, deletedAt: null },
+                    select: { id: true, slug: true, type: true },
+                }),
+                this.prisma.category.findMany({
+                    where: { slug: { in: categorySlugs }, deletedAt: null },
+                    select: { id: true, slug: true },
+                }),
+                this.prisma.product.findMany({
+                    where: { slug: { in: slugs } },
+                    select: { slug: true },
+                }),
+                this.prisma.product.findMany({
+                    where: { sku: { in: skus } },
+                    select: { sku: true },
+                }),
+                this.prisma.productVariant.findMany({
+                    where: { sku: { in: skus } },
+                    select: { sku: true },
+                }),
+            ]);
+
+        // Perbandingan case-insensitive (mengikuti collation MySQL)
+        const brandBySlug = new Map(
+            brands.map((b) => [b.slug.toLowerCase(), b])
+        );
+        const categoryBySlug = new Map(
+            categories.map((c) => [c.slug.toLowerCase(), c])
+        );
+        const usedSlugs = new Set(
+            productSlugs.map((p) => p.slug.toLowerCase())
+        );
+        const usedSkus = new Set(
+            [...productSkus, ...variantSkus].map((p) => p.sku!.toLowerCase())
+        );
+        const fileSlugs = new Map<string, number>();
+        const fileSkus = new Map<string, number>();
+
+        prepared.forEach((item, index) => {
+            const { fields } = rows[index];
+            const errors = item.result.errors;
+
+            if (fields.brand) {
+                const brand = brandBySlug.get(fields.brand.toLowerCase());
+                if (!brand) {
+                    errors.push(`Brand "${fields.brand}" not found`);
+                } else if (brand.type !== "PRODUCT") {
+                    errors.push(
+                        `Brand "${fields.brand}" is not a product brand`
+                    );
+                } else {
+                    item.brandId = brand.id;
+                }
+            }
+
+            if (fields.category) {
+                const category = categoryBySlug.get(
+                    fields.category.toLowerCase()
+                );
+                if (!category) {
+                    errors.push(`Category "${fields.category}" not found`);
+                } else {
+                    item.categoryId = category.id;
+                }
+            }
+
+            if (item.slug) {
+                const key = item.slug.toLowerCase();
+                if (usedSlugs.has(key)) {
+                    errors.push(`Slug "${item.slug}" already exists`);
+                } else if (fileSlugs.has(key)) {
+                    errors.push(
+                        `Slug "${item.slug}" duplicates row ${fileSlugs.get(
+                            key
+                        )}`
+                    );
+                } else {
+                    fileSlugs.set(key, item.result.row);
+                }
+            }
+
+            if (item.sku) {
+                const key = item.sku.toLowerCase();
+                if (usedSkus.has(key)) {
+                    errors.push(`SKU "${item.sku}" already used`);
+                } else if (fileSkus.has(key)) {
+                    errors.push(
+                        `SKU "${item.sku}" duplicates row ${fileSkus.get(key)}`
+                    );
+                } else {
+                    fileSkus.set(key, item.result.row);
+                }
+            }
+        });
+
+        return prepared;
+    }
+
+    /**
+     * Validasi field satu baris yang tidak butuh database
+     */
+    private prepareRow({ row, fields, translations }: ParsedRow) {
+        const errors: string[] = [];
+        const name = fields.name ?? "";
+
+        if (!name) errors.push("Name is required");
+        if (!fields.category) errors.push("Category is required");
+        if (!fields.brand) errors.push("Brand is required");
+
+        let slug = "";
+        try {
+            const source = fields.slug || name;
+            if (source) slug = this.slugService.generate(source);
+        } catch (error) {
+            errors.push(
+                error instanceof Error ? error.message : "Invalid slug"
+            );
+        }
+
+        const sku = fields.sku ?? null;
+        if (sku && sku.length > 50) {
+            errors.push("SKU must be at most 50 characters");
+        }
+        if (name.length > 200) {
+            errors.push("Name must be at most 200 characters");
+        }
+        errors.push(...this.validateTranslations(translations));
+
+        const isActive = this.parseBoolean(fields.isActive, true);
+        const isFeatured = this.parseBoolean(fields.isFeatured, false);
+        if (isActive === null) errors.push("Invalid value for is_active");
+        if (isFeatured === null) errors.push("Invalid value for is_featured");
+
+        const prepared: PreparedProduct = {
+            result: { row, slug: slug || null, name: name || null, errors },
+            slug,
+            sku,
+            name,
+            categoryId: "",
+            brandId: "",
+            isActive: isActive ?? true,
+            isFeatured: isFeatured ?? false,
+            translations,
+        };
+        return prepared;
+    }
+
+    /**
+     * Cek panjang field terjemahan terhadap batas kolom database
+     * agar dry run tidak lolos untuk baris yang akan gagal saat commit
+     */
+    private validateTranslations(translations: ImportTranslation[]) {
+        const errors: string[] = [];
+
+        for (const translation of translations) {
+            const suffix = translation.language.toLowerCase();
+            for (const [column, field] of Object.entries(
+                TRANSLATION_COLUMNS
+            )) {
+                const value = translation[field];
+                if (!value) continue;
+
+                const maxChars = TRANSLATION_MAX_CHARS[field];
+                if (maxChars !== undefined) {
+                    if ([...value].length > maxChars) {
+                        errors.push(
+                            `${column}_${suffix} must be at most ${maxChars} characters`
+                        );
+                    }
+                } else if (
+                    Buffer.byteLength(value, "utf8") >
+                    TRANSLATION_TEXT_MAX_BYTES
+                ) {
+                    errors.push(
+                        `${column}_${suffix} must be at most ${TRANSLATION_TEXT_MAX_BYTES} bytes`
+                    );
+                }
+            }
+        }
+        return errors;
+    }
+
+    /**
+     * "Short Description (EN)" → "short_description_en"
+     */
+    private normalizeHeader(header: string): string {
+        return header
+            .trim()
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, "_")
+            .replace(/^_+|_+$/g, "");
+    }
+
+    /**
+     * @returns Nilai boolean, default jika kosong, null jika tidak dikenali
+     */
+    private parseBoolean(
+        value: string | undefined,
+        fallback: boolean
+    ): boolean | null {
+        if (value === undefined) return fallback;
+
+        const normalized = value.toLowerCase();
+        if (TRUE_VALUES.includes(normalized)) return true;
+        if (FALSE_VALUES.includes(normalized)) return false;
+        return null;
+    }
+}
@@ -0,0 +1,357 @@
+/**
+ * @file ProductRelationService – Relasi antar produk (aksesori, alternatif, pengganti, kompatibel)
+ * @description
+ * Layanan untuk mengelola cross-reference produk:
+ * - Relasi bertipe: ACCESSORY/ACCESSORY_FOR, ALTERNATIVE, REPLACES/REPLACED_BY,
+ *   COMPATIBLE_WITH
+ * - Pemeliharaan dua arah: setiap relasi otomatis dibuat/dihapus beserta
+ *   relasi kebalikannya (e.g. A REPLACES B ⇔ B REPLACED_BY A)
+ * - Urutan (sortOrder) per produk per tipe relasi
+ *
+ * @security
+ * - Validasi produk asal & tujuan (harus ada dan belum dihapus)
+ * - Produk tidak bisa direlasikan ke dirinya sendiri
+ * - Operasi dua arah dalam satu transaksi database
+ *
+ * @usage
+ * await productRelationService.create({
+ *   productId: 'prd_123',
+ *   relatedProductId: 'prd_456',
+ *   type: 'REPLACES',
+ *   createdBy: 'usr_123'
+ * });
+ *
+ * @dependencies
+ * - `@prisma/client`
+ * - `AuditService`, `SortOrderService`
+ */
+
+import { Prisma, PrismaClient, ProductRelationType } from "@prisma/client";
+import { AuditService } from "./audit.service";
+import { SortOrderService } from "./sort-order.service";
+
+export interface CreateProductRelationInput {
+    productId: string;
+    relatedProductId: string;
+    type: ProductRelationType;
+    sortOrder?: number;
+    createdBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface UpdateProductRelationInput {
+    productId: string;
+    relationId: string;
+    sortOrder: number;
+    updatedBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface DeleteProductRelationInput {
+    productId: string;
+    relationId: string;
+    deletedBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+// Tipe relasi kebalikan (dari sisi produk terkait)
+export const INVERSE_RELATION_TYPE: Record<
+    ProductRelationType,
+    ProductRelationType
+> = {
+    ACCESSORY: "ACCESSORY_FOR",
+    ACCESSORY_FOR: "ACCESSORY",
+    ALTERNATIVE: "ALTERNATIVE",
+    REPLACES: "REPLACED_BY",
+    REPLACED_BY: "REPLACES",
+    COMPATIBLE_WITH: "COMPATIBLE_WITH",
+};
+
+// Data produk terkait yang ditampilkan (ringkas, untuk kartu produk)
+export const RELATED_PRODUCT_SELECT = {
+    id: true,
+    slug: true,
+    sku: true,
+    name: true,
+    images: true,
+    isActive: true,
+    brand: { select: { id: true, name: true, slug: true } },
+} satisfies Prisma.ProductSelect;
+
+// Include relasi untuk detail produk (produk terkait terhapus disembunyikan)
+export const PRODUCT_RELATIONS_INCLUDE = {
+    where: { relatedProduct: { deletedAt: null } },
+    include: { relatedProduct: { select: RELATED_PRODUCT_SELECT } },
+    orderBy: [{ type: "asc" }, { sortOrder: "asc" }],
+} satisfies Prisma.Product$relationsArgs;
+
+export class ProductRelationService {
+    constructor(
+        private prisma: PrismaClient,
+        private auditService: AuditService,
+        private sortOrderService: SortOrderService
+    ) {}
+
+    /**
+     * Ambil relasi produk (opsional filter per tipe)
+     */
+    async list(productId: string, type?: ProductRelationType) {
+        await this.getProduct(productId);
+
+        return this.prisma.productRelation.findMany({
+            ...PRODUCT_RELATIONS_INCLUDE,
+            where: {
+                ...PRODUCT_RELATIONS_INCLUDE.where,
+                productId,
+                ...(type ? { type } : {}),
+            },
+        });
+    }
+
+    /**
+     * Buat relasi beserta relasi kebalikannya
+     */
+    async create(input: CreateProductRelationInput) {
+        const {
+            productId,
+            relatedProductId,
+            type,
+            sortOrder,
+            createdBy,
+            ipAddress,
+            userAgent,
+        } = input;
+
+        if (!Object.values(ProductRelationType).includes(type)) {
+            throw new Error("Invalid relation type");
+        }
+        if (productId === relatedProductId) {
+            throw new Error("A product cannot be related to itself");
+        }
+
+        const [product, relatedProduct] = await Promise.all([
+            this.getProduct(productId),
+            this.getProduct(relatedProductId),
+        ]);
+
+        const existing = await this.prisma.productRelation.findUnique({
+            where: {
+                productId_relatedProductId_type: {
+                    productId,
+                    relatedProductId,
+                    type,
+                },
+            },
+        });
+        if (existing) throw new Error("Relation already exists");
+
+        const inverseType = INVERSE_RELATION_TYPE[type];
+
+        // Sort order dihitung di luar transaksi (SortOrderService memakai
+        // client global, koneksi terpisah dari transaksi)
+        const finalSortOrder = await this.sortOrderService.calculate({
+            model: "productRelation",
+            inputSortOrder: sortOrder,
+            baseWhere: { productId, type },
+        });
+        const inverseSortOrder = await this.sortOrderService.calculate({
+            model: "productRelation",
+            baseWhere: { productId: relatedProductId, type: inverseType },
+        });
+
+        // Geser relasi lain jika posisi sudah terisi
+        await this.sortOrderService.resolveConflictOnCreate({
+            model: "productRelation",
+            newSortOrder: finalSortOrder,
+            baseWhere: { productId, type },
+        });
+
+        const relation = await this.prisma.$transaction(async (tx) => {
+            const created = await tx.productRelation.create({
+                data: {
+                    productId,
+                    relatedProductId,
+                    type,
+                    sortOrder: finalSortOrder,
+                },
+                include: {
+                    relatedProduct: { select: RELATED_PRODUCT_SELECT },
+                },
+            });
+
+            // Relasi kebalikan (diletakkan di urutan paling akhir)
+            const inverseExists = await tx.productRelation.findUnique({
+                where: {
+                    productId_relatedProductId_type: {
+                        productId: relatedProductId,
+                        relatedProductId: productId,
+                        type: inverseType,
+                    },
+                },
+            });
+            if (!inverseExists) {
+                await tx.productRelation.create({
+                    data: {
+                        productId: relatedProductId,
+                        relatedProductId: productId,
+                        type: inverseType,
+                        sortOrder: inverseSortOrder,
+                    },
+                });
+            }
+
+            return created;
+        });
+
+        await this.auditService.log({
+            userId: createdBy,
+            action: "CREATE_PRODUCT_RELATION",
+            tableName: "ProductRelation",
+            recordId: relation.id,
+            newValues: {
+                productId,
+                relatedProductId,
+                type,
+                inverseType,
+                sortOrder: relation.sortOrder,
+            },
+            details: `Product "${product.name}" ${type} "${relatedProduct.name}"`,
+            ipAddress,
+            userAgent,
+        });
+
+        return relation;
+    }
+
+    /**
+     * Ubah urutan relasi (tukar posisi dengan relasi di posisi tujuan)
+     */
+    async update(input: UpdateProductRelationInput) {
+        const {
+            productId,
+            relationId,
+            sortOrder,
+            updatedBy,
+            ipAddress,
+            userAgent,
+        } = input;
+
+        const existing = await this.getRelation(productId, relationId);
+        const baseWhere = { productId, type: existing.type };
+
+        let finalSortOrder = existing.sortOrder;
+
+        if (sortOrder !== existing.sortOrder) {
+            const swapped = await this.sortOrderService.swap({
+                model: "productRelation",
+                id1: relationId,
+                newSortOrder: sortOrder,
+                oldSortOrder: existing.sortOrder,
+                baseWhere,
+            });
+
+            finalSortOrder = swapped ? sortOrder : existing.sortOrder;
+        }
+
+        const relation = await this.prisma.productRelation.update({
+            where: { id: relationId },
+            data: { sortOrder: finalSortOrder },
+            include: {
+                relatedProduct: { select: RELATED_PRODUCT_SELECT },
+            },
+        });
+
+        await this.auditService.log({
+            userId: updatedBy,
+            action: "UPDATE_PRODUCT_RELATION",
+            tableName: "ProductRelation",
+            recordId: relationId,
+            oldValues: { sortOrder: existing.sortOrder },
+            newValues: { sortOrder: relation.sortOrder },
+            details: `Product relation ${existing.type} reordered`,
+            ipAddress,
+            userAgent,
+        });
+
+        return relation;
+    }
+
+    /**
+     * Hapus relasi beserta relasi kebalikannya
+     */
+    async delete(input: DeleteProductRelationInput) {
+        const { productId, relationId, deletedBy, ipAddress, userAgent } =
+            input;
+
+        const existing = await this.getRelation(productId, relationId);
+        const inverseType = INVERSE_RELATION_TYPE[existing.type];
+
+        // Hapus kedua arah secara atomik, reorder setelah transaksi commit
+        // (reorder memakai client global → tidak boleh di dalam transaksi)
+        const inverse = await this.prisma.$transaction(async (tx) => {
+            await tx.productRelation.delete({ where: { id: relationId } });
+
+            const inverse = await tx.productRelation.findUnique({
+                where: {
+                    productId_relatedProductId_type: {
+                        productId: existing.relatedProductId,
+                        relatedProductId: productId,
+                        type: inverseType,
+                    },
+                },
+            });
+            if (inverse) {
+                await tx.productRelation.delete({ where: { id: inverse.id } });
+            }
+            return inverse;
+        });
+
+        await this.sortOrderService.reorderAfterDelete({
+            model: "productRelation",
+            deletedSortOrder: existing.sortOrder,
+            baseWhere: { productId, type: existing.type },
+        });
+        if (inverse) {
+            await this.sortOrderService.reorderAfterDelete({
+                model: "productRelation",
+                deletedSortOrder: inverse.sortOrder,
+                baseWhere: {
+                    productId: existing.relatedProductId,
+                    type: inverseType,
+                },
+            });
+        }
+
+        await this.auditService.log({
+            userId: deletedBy,
+            action: "DELETE_PRODUCT_RELATION",
+            tableName: "ProductRelation",
+            recordId: relationId,
+            oldValues: existing,
+            details: `Product relation ${existing.type} deleted`,
+            ipAddress,
+            userAgent,
+        });
+    }
+
+    // Helper methods
+    private async getProduct(id: string) {
+        const product = await this.prisma.product.findUnique({
+            where: { id, deletedAt: null },
+            select: { id: true, name: true },
+        });
+        if (!product) throw new Error("Product not found");
+        return product;
+    }
+
+    private async getRelation(productId: string, relationId: string) {
+        const relation = await this.prisma.productRelation.findFirst({
+            where: { id: relationId, productId },
+        });
+        if (!relation) throw new Error("Relation not found");
+        return relation;
+    }
+}
@@ -0,0 +1,518 @@
+/**
+ * @file ProductRevisionService – Riwayat revisi produk, draft, dan diff
+ * @description
+ * Layanan untuk menyimpan snapshot produk (data utama + terjemahan + gambar):
+ * - Setiap perubahan live (create/update/publish/rollback) dicatat sebagai
+ *   revisi PUBLISHED baru; revisi live sebelumnya menjadi ARCHIVED
+ * - Satu draft per produk yang bisa diedit tanpa menyentuh versi live
+ * - Diff per field antara dua revisi mana pun
+ *
+ * Publish dan rollback menerapkan snapshot ke produk lewat
+ * `ProductService.publishDraft` / `ProductService.rollback`.
+ *
+ * @security
+ * - Revisi selalu divalidasi milik produk yang diminta
+ * - Gambar draft hanya boleh gambar milik produk atau yang baru diupload
+ * - Gambar draft hanya dihapus jika tidak dipakai produk live, varian, atau revisi lain
+ *
+ * @usage
+ * await productRevisionService.saveDraft({
+ *   productId: 'prd_123',
+ *   snapshot,
+ *   savedBy: 'usr_123'
+ * });
+ * const diff = await productRevisionService.diff('prd_123', 'rev_1', 'rev_2');
+ *
+ * @dependencies
+ * - `@prisma/client`
+ * - `AuditService`, `FileService`
+ */
+
+import {
+    Prisma,
+    PrismaClient,
+    ProductRevision,
+    ProductRevisionStatus,
+} from "@prisma/client";
+import { AuditService } from "./audit.service";
+import { FileService } from "./file.service";
+import { TranslationInput } from "./product.service";
+
+export interface ProductSnapshot {
+    slug: string;
+    sku: string | null;
+    name: string;
+    categoryId: string;
+    brandId: string;
+    images: string[];
+    isActive: boolean;
+    isFeatured: boolean;
+    translations: TranslationInput[];
+}
+
+export interface RecordRevisionInput {
+    productId: string;
+    createdBy: string;
+    note?: string | null;
+    revisionId?: string; // Draft yang dipublish (dipromosikan, bukan baru)
+}
+
+export interface SaveDraftInput {
+    productId: string;
+    snapshot: ProductSnapshot;
+    uploadedImages?: string[]; // URL gambar yang diupload di request ini
+    note?: string | null;
+    savedBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface DiscardDraftInput {
+    productId: string;
+    deletedBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface RevisionFieldChange {
+    field: string; // e.g. "name", "images", "translations.EN.shortDescription"
+    before: unknown;
+    after: unknown;
+}
+
+export interface ProductRevisionDiff {
+    base: RevisionSummary;
+    compare: RevisionSummary;
+    changes: RevisionFieldChange[];
+}
+
+type RevisionSummary = Pick<
+    ProductRevision,
+    "id" | "version" | "status" | "createdAt"
+>;
+
+const TRANSLATION_FIELDS = [
+    "shortDescription",
+    "longDescription",
+    "specifications",
+    "features",
+    "metaTitle",
+    "metaDescription",
+    "metaKeywords",
+] as const;
+
+export class ProductRevisionService {
+    constructor(
+        private prisma: PrismaClient,
+        private auditService: AuditService,
+        private fileService: FileService
+    ) {}
+
+    /**
+     * Ambil daftar revisi produk (tanpa snapshot), draft di urutan pertama
+     */
+    async list(productId: string) {
+        const revisions = await this.prisma.productRevision.findMany({
+            where: { productId },
+            select: {
+                id: true,
+                version: true,
+                status: true,
+                note: true,
+                createdBy: true,
+                publishedAt: true,
+                createdAt: true,
+                updatedAt: true,
+            },
+            orderBy: { createdAt: "desc" },
+        });
+
+        return revisions.sort(
+            (a, b) =>
+                Number(b.status === "DRAFT") - Number(a.status === "DRAFT") ||
+                (b.version ?? 0) - (a.version ?? 0)
+        );
+    }
+
+    /**
+     * Ambil detail revisi (termasuk snapshot)
+     */
+    async findById(productId: string, revisionId: string) {
+        return this.prisma.productRevision.findFirst({
+            where: { id: revisionId, productId },
+        });
+    }
+
+    /**
+     * Ambil draft produk (jika ada)
+     */
+    async getDraft(productId: string) {
+        return this.prisma.productRevision.findFirst({
+            where: { productId, status: "DRAFT" },
+        });
+    }
+
+    /**
+     * Simpan draft produk (buat baru atau timpa draft yang ada)
+     */
+    async saveDraft(input: SaveDraftInput) {
+        const {
+            productId,
+            snapshot,
+            uploadedImages = [],
+            note,
+            savedBy,
+            ipAddress,
+            userAgent,
+        } = input;
+
+        const product = await this.prisma.product.findUnique({
+            where: { id: productId, deletedAt: null },
+        });
+        if (!product) throw new Error("Product not found");
+
+        // Gambar produk lain tidak boleh direferensikan (bisa ikut terhapus
+        // saat draft diganti atau dibuang)
+        const owned = await this.getOwnedImages(productId);
+        const foreign = snapshot.images.find(
+            (img) => !owned.has(img) && !uploadedImages.includes(img)
+        );
+        if (foreign) {
+            throw new Error(
+                `Image "${foreign}" does not belong to this product`
+            );
+        }
+
+        const existing = await this.getDraft(productId);
+        const draft = existing
+            ? await this.prisma.productRevision.update({
+                  where: { id: existing.id },
+                  data: {
+                      snapshot: this.toJson(snapshot),
+                      note: note ?? null,
+                      createdBy: savedBy,
+                  },
+              })
+            : await this.prisma.productRevision.create({
+                  data: {
+                      productId,
+                      status: "DRAFT",
+                      snapshot: this.toJson(snapshot),
+                      note: note ?? null,
+                      createdBy: savedBy,
+                  },
+              });
+
+        // Hapus gambar yang diunggah ke draft lama tapi tidak dipakai lagi
+        if (existing) {
+            await this.deleteUnusedImages(
+                productId,
+                this.toSnapshot(existing.snapshot).images
+            );
+        }
+
+        await this.auditService.log({
+            userId: savedBy,
+            action: "SAVE_PRODUCT_DRAFT",
+            tableName: "ProductRevision",
+            recordId: draft.id,
+            oldValues: existing ? { snapshot: existing.snapshot } : null,
+            newValues: { productId, snapshot, note },
+            details: `Draft for product "${product.name}" saved`,
+            ipAddress,
+            userAgent,
+        });
+
+        return draft;
+    }
+
+    /**
+     * Buang draft produk
+     */
+    async discardDraft(input: DiscardDraftInput) {
+        const { productId, deletedBy, ipAddress, userAgent } = input;
+
+        const draft = await this.getDraft(productId);
+        if (!draft) throw new Error("Draft not found");
+
+        await this.prisma.productRevision.delete({ where: { id: draft.id } });
+        await this.deleteUnusedImages(
+            productId,
+            this.toSnapshot(draft.snapshot).images
+        );
+
+        await this.auditService.log({
+            userId: deletedBy,
+            action: "DISCARD_PRODUCT_DRAFT",
+            tableName: "ProductRevision",
+            recordId: draft.id,
+            oldValues: { productId, snapshot: draft.snapshot },
+            details: `Draft for product "${productId}" discarded`,
+            ipAddress,
+            userAgent,
+        });
+    }
+
+    /**
+     * Catat kondisi live produk sebagai revisi PUBLISHED
+     * (dipanggil di dalam transaksi create/update produk)
+     */
+    async record(
+        tx: Prisma.TransactionClient,
+        input: RecordRevisionInput
+    ): Promise<ProductRevision> {
+        const { productId, createdBy, note, revisionId } = input;
+
+        const snapshot = await this.takeSnapshot(tx, productId);
+        const latest = await tx.productRevision.aggregate({
+            where: { productId },
+            _max: { version: true },
+        });
+        const version = (latest._max.version ?? 0) + 1;
+
+        await tx.productRevision.updateMany({
+            where: { productId, status: "PUBLISHED" },
+            data: { status: "ARCHIVED" },
+        });
+
+        const data = {
+            version,
+            status: ProductRevisionStatus.PUBLISHED,
+            snapshot: this.toJson(snapshot),
+            publishedAt: new Date(),
+        };
+
+        return revisionId
+            ? tx.productRevision.update({
+                  where: { id: revisionId },
+                  data: { ...data, ...(note ? { note } : {}) },
+              })
+            : tx.productRevision.create({
+                  data: {
+                      ...data,
+                      productId,
+                      note: note ?? null,
+                      createdBy,
+                  },
+              });
+    }
+
+    /**
+     * Pastikan kondisi live saat ini tersimpan sebagai revisi sebelum diubah
+     * (untuk produk lama yang belum punya riwayat revisi)
+     */
+    async ensureBaseline(
+        tx: Prisma.TransactionClient,
+        productId: string,
+        createdBy: string
+    ): Promise<void> {
+        const count = await tx.productRevision.count({
+            where: { productId, status: { not: "DRAFT" } },
+        });
+        if (count > 0) return;
+
+        await this.record(tx, {
+            productId,
+            createdBy,
+            note: "Initial version",
+        });
+    }
+
+    /**
+     * Ambil semua URL gambar yang direferensikan revisi produk
+     */
+    async getReferencedImages(productId: string): Promise<string[]> {
+        const revisions = await this.prisma.productRevision.findMany({
+            where: { productId },
+            select: { snapshot: true },
+        });
+        return revisions.flatMap((r) => this.toSnapshot(r.snapshot).images);
+    }
+
+    /**
+     * Semua URL gambar milik produk: gambar live, gambar varian,
+     * dan gambar di revisi mana pun (termasuk draft)
+     */
+    async getOwnedImages(productId: string): Promise<Set<string>> {
+        const [product, variants, revisionImages] = await Promise.all([
+            this.prisma.product.findUnique({
+                where: { id: productId },
+                select: { images: true },
+            }),
+            this.prisma.productVariant.findMany({
+                where: { productId },
+                select: { images: true },
+            }),
+            this.getReferencedImages(productId),
+        ]);
+
+        return new Set([
+            ...this.toImageList(product?.images),
+            ...variants.flatMap((v) => this.toImageList(v.images)),
+            ...revisionImages,
+        ]);
+    }
+
+    /**
+     * Bandingkan snapshot dua revisi per field
+     * @returns Field yang berbeda beserta nilai di base dan compare
+     */
+    async diff(
+        productId: string,
+        baseId: string,
+        compareId: string
+    ): Promise<ProductRevisionDiff> {
+        const [base, compare] = await Promise.all([
+            this.findById(productId, baseId),
+            this.findById(productId, compareId),
+        ]);
+        if (!base || !compare) {
+            throw new Error("Revision not found");
+        }
+
+        const before = this.flatten(this.toSnapshot(base.snapshot));
+        const after = this.flatten(this.toSnapshot(compare.snapshot));
+        const fields = [...new Set([...before.keys(), ...after.keys()])];
+
+        return {
+            base: this.summarize(base),
+            compare: this.summarize(compare),
+            changes: fields
+                .filter(
+                    (field) =>
+                        JSON.stringify(before.get(field) ?? null) !==
+                        JSON.stringify(after.get(field) ?? null)
+                )
+                .map((field) => ({
+                    field,
+                    before: before.get(field) ?? null,
+                    after: after.get(field) ?? null,
+                })),
+        };
+    }
+
+    /**
+     * Konversi JSON snapshot revisi ke `ProductSnapshot`
+     */
+    toSnapshot(value: Prisma.JsonValue): ProductSnapshot {
+        const snapshot = (value ?? {}) as unknown as Partial<ProductSnapshot>;
+        return {
+            slug: snapshot.slug ?? "",
+            sku: snapshot.sku ?? null,
+            name: snapshot.name ?? "",
+            categoryId: snapshot.categoryId ?? "",
+            brandId: snapshot.brandId ?? "",
+            images: Array.isArray(snapshot.images) ? snapshot.images : [],
+            isActive: snapshot.isActive ?? true,
+            isFeatured: snapshot.isFeatured ?? false,
+            translations: Array.isArray(snapshot.translations)
+                ? snapshot.translations
+                : [],
+        };
+    }
+
+    // Helper methods
+    private async takeSnapshot(
+        tx: Prisma.TransactionClient,
+        productId: string
+    ): Promise<ProductSnapshot> {
+        const product = await tx.product.findUnique({
+            where: { id: productId },
+            include: { translations: { orderBy: { language: "asc" } } },
+        });
+        if (!product) throw new Error("Product not found");
+
+        return {
+            slug: product.slug,
+            sku: product.sku,
+            name: product.name,
+            categoryId: product.categoryId,
+            brandId: product.brandId,
+            images: this.toImageList(product.images),
+            isActive: product.isActive,
+            isFeatured: product.isFeatured,
+            translations: product.translations.map((t) => ({
+                language: t.language,
+                shortDescription: t.shortDescription,
+                longDescription: t.longDescription,
+                specifications: t.specifications as Record<string, any> | null,
+                features: t.features as string[] | null,
+                metaTitle: t.metaTitle,
+                metaDescription: t.metaDescription,
+                metaKeywords: t.metaKeywords,
+            })),
+        };
+    }
+
+    /**
+     * Ratakan snapshot menjadi map field → nilai
+     * (terjemahan per bahasa: `translations.<LANG>.<field>`)
+     */
+    private flatten(snapshot: ProductSnapshot): Map<string, unknown> {
+        const { translations, ...fields } = snapshot;
+        const flat = new Map<string, unknown>(Object.entries(fields));
+
+        for (const translation of translations) {
+            for (const field of TRANSLATION_FIELDS) {
+                flat.set(
+                    `translations.${translation.language}.${field}`,
+                    translation[field] ?? null
+                );
+            }
+        }
+        return flat;
+    }
+
+    private toImageList(images: unknown): string[] {
+        return Array.isArray(images)
+            ? images.filter((img): img is string => typeof img === "string")
+            : [];
+    }
+
+    private summarize(revision: ProductRevision): RevisionSummary {
+        const { id, version, status, createdAt } = revision;
+        return { id, version, status, createdAt };
+    }
+
+    private toJson(snapshot: ProductSnapshot): Prisma.InputJsonObject {
+        return {
+            slug: snapshot.slug,
+            sku: snapshot.sku,
+            name: snapshot.name,
+            categoryId: snapshot.categoryId,
+            brandId: snapshot.brandId,
+            images: snapshot.images,
+            isActive: snapshot.isActive,
+            isFeatured: snapshot.isFeatured,
+            translations: snapshot.translations.map((t) => ({
+                language: t.language,
+                shortDescription: t.shortDescription ?? null,
+                longDescription: t.longDescription ?? null,
+                specifications: t.specifications ?? null,
+                features: t.features ?? null,
+                metaTitle: t.metaTitle ?? null,
+                metaDescription: t.metaDescription ?? null,
+                metaKeywords: t.metaKeywords ?? null,
+            })),
+        };
+    }
+
+    /**
+     * Hapus file gambar yang tidak dipakai produk live, varian,
+     * maupun revisi mana pun
+     */
+    private async deleteUnusedImages(
+        productId: string,
+        images: string[]
+    ): Promise<void> {
+        if (images.length === 0) return;
+
+        const used = await this.getOwnedImages(productId);
+
+        images
+            .filter(
+                (img) => !used.has(img) && img.startsWith("/uploads/products/")
+            )
+            .forEach((img) => this.fileService.deleteFile(img));
+    }
+}
@@ -3,35 +3,67 @@
  * @description
  * Layanan terpusat untuk operasi produk:
  * - CRUD produk (termasuk soft/hard delete dan restore)
+ * - Filter kategori mencakup seluruh sub-kategori (hierarki kategori)
+ * - Filter, facet, dan sorting berdasarkan atribut spesifikasi (`spec.<key>`)
  * - Manajemen gambar produk (multi-upload)
  * - Manajemen sortOrder dan terjemahan produk
+ * - Varian produk (part number/SKU, spesifikasi, dan gambar per varian)
+ * - Riwayat revisi: setiap perubahan live dicatat, publish draft, dan rollback
+ * - Detail produk menyertakan produk terkait (aksesori, alternatif, dll)
+ *   dan dokumen aktif (datasheet, manual, sertifikat)
  * - Integrasi audit log untuk semua operasi
  *
  * @security
  * - Validasi brand (hanya tipe PRODUCT yang bisa assign ke produk)
  * - Validasi duplikat slug/SKU sebelum create/update
- * - Hapus file gambar lama saat update/hard delete
+ * - SKU unik lintas produk dan varian
+ * - File gambar lama disimpan selama masih dipakai riwayat revisi,
+ *   dihapus saat hard delete
  * - Semua operasi kritis menggunakan transaksi database
  *
  * @usage
- * const productService = new ProductService(prisma, auditService, fileService, sortOrderService);
+ * const productService = new ProductService(prisma, auditService, fileService, sortOrderService, categoryService, specAttributeService, productRevisionService);
  *
  * const product = await productService.create({
  *   name: 'Inverter Solar',
  *   brandId: 'brand_123',
  *   categoryId: 'cat_456',
- *   createdBy: 'usr_123'
+ *   createdBy: 'usr_123',
+ *   variants: [{ sku: 'INV-5K', name: '5 kW', specifications: { power: 5 } }]
+ * });
+ *
+ * const result = await productService.list({
+ *   specs: { voltage: '200..400', ip_class: 'IP65,IP67' },
+ *   sort: '-spec.voltage',
+ *   facets: true
  * });
  *
  * @dependencies
  * - `@prisma/client`
- * - `AuditService`, `FileService`, `SortOrderService`
+ * - `AuditService`, `FileService`, `SortOrderService`, `CategoryService`,
+ *   `SpecAttributeService`, `ProductRevisionService`
  */
 
 import { PrismaClient, Language, Prisma } from "@prisma/client";
 import { AuditService } from "./audit.service";
 import { FileService } from "./file.service";
 import { SortOrderService } from "./sort-order.service";
+import { CategoryService } from "./category.service";
+import {
+    SpecAttributeService,
+    SpecScalar,
+    SpecSort,
+    SpecValuesInput,
+} from "./spec-attribute.service";
+import { PRODUCT_RELATIONS_INCLUDE } from "./product-relation.service";
+import {
+    DOCUMENT_RESPONSE_OMIT,
+    toDocumentResponse,
+} from "./product-document.service";
+import {
+    ProductRevisionService,
+    ProductSnapshot,
+} from "./product-revision.service";
 
 export interface ProductInput {
     slug: string;
@@ -56,9 +88,21 @@ export interface TranslationInput {
     metaKeywords?: string | null;
 }
 
+export interface VariantInput {
+    id?: string; // diisi = update varian lama, kosong = varian baru
+    sku: string;
+    name: string;
+    specifications?: SpecValuesInput | null;
+    images?: string[] | null;
+    isActive?: boolean;
+}
+
 export interface CreateProductInput {
     data: ProductInput;
     translations: TranslationInput[];
+    specs?: SpecValuesInput;
+    variants?: VariantInput[];
+    uploadedImages?: string[]; // URL gambar yang diupload di request ini
     createdBy: string;
     ipAddress?: string;
     userAgent?: string;
@@ -78,11 +122,31 @@ export interface UpdateProductInput {
         sortOrder?: number;
     };
     translations: TranslationInput[];
+    specs?: SpecValuesInput; // undefined = tidak diubah
+    variants?: VariantInput[]; // undefined = tidak diubah
+    uploadedImages?: string[]; // URL gambar yang diupload di request ini
+    revisionId?: string; // Draft yang sedang dipublish
+    revisionNote?: string | null;
     updatedBy: string;
     ipAddress?: string;
     userAgent?: string;
 }
 
+export interface PublishDraftInput {
+    productId: string;
+    publishedBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface RollbackProductInput {
+    productId: string;
+    revisionId: string;
+    rolledBackBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
 export interface DeleteProductInput {
     id: string;
     deletedBy: string;
@@ -90,12 +154,33 @@ export interface DeleteProductInput {
     userAgent?: string;
 }
 
+const PRODUCT_INCLUDE = {
+    category: true,
+    brand: true,
+    translations: true,
+    specValues: { include: { attribute: true } },
+    variants: { orderBy: { sortOrder: "asc" } },
+} satisfies Prisma.ProductInclude;
+
+interface PreparedVariant {
+    id?: string;
+    sku: string;
+    name: string;
+    specifications: Record<string, SpecScalar> | null;
+    images: string[];
+    isActive: boolean;
+    sortOrder: number;
+}
+
 export class ProductService {
     constructor(
         private prisma: PrismaClient,
         private auditService: AuditService,
         private fileService: FileService,
-        private sortOrderService: SortOrderService
+        private sortOrderService: SortOrderService,
+        private categoryService: CategoryService,
+        private specAttributeService: SpecAttributeService,
+        private productRevisionService: ProductRevisionService
     ) {}
 
     /**
@@ -107,6 +192,9 @@ export class ProductService {
         options: {
             brands?: string;
             categories?: string;
+            specs?: Record<string, string>;
+            sort?: string;
+            facets?: boolean;
             deleted?: boolean;
             active?: boolean;
             page?: number;
@@ -117,6 +205,9 @@ export class ProductService {
         const {
             brands,
             categories,
+            specs = {},
+            sort,
+            facets = false,
             deleted = false,
             active = true,
             page = 1,
@@ -134,34 +225,60 @@ export class ProductService {
         }
 
         if (brands) {
-            where.brandId = brands;
+            where.brandId = { in: this.splitIds(brands) };
         }
 
+        // Kategori induk ikut menampilkan produk di seluruh sub-kategorinya
+        let selectedCategoryIds: string[] = [];
+        let categoryIds: string[] | undefined;
         if (categories) {
-            where.categoryId = categories;
+            selectedCategoryIds = this.splitIds(categories);
+            categoryIds = await this.categoryService.getDescendantIds(
+                selectedCategoryIds
+            );
+            where.categoryId = { in: categoryIds };
         }
 
         if (search) {
             where.OR = [
-                { name: { contains: search, mode: "insensitive" } },
-                { slug: { contains: search, mode: "insensitive" } },
+                { name: { contains: search } },
+                { slug: { contains: search } },
+                { sku: { contains: search } },
+                { variants: { some: { sku: { contains: search } } } },
             ];
         }
 
-        const [products, total] = await Promise.all([
-            this.prisma.product.findMany({
-                where,
-                skip,
-                take: limit,
-                orderBy: { sortOrder: "asc" },
-                include: {
-                    category: true,
-                    brand: true,
-                    translations: true,
-                },
-            }),
-            this.prisma.product.count({ where }),
-        ]);
+        // Filter & sorting atribut spesifikasi
+        const specFilters = await this.specAttributeService.parseFilters(specs);
+        const specSort = sort
+            ? await this.specAttributeService.parseSort(sort)
+            : undefined;
+        const filteredWhere = {
+            ...where,
+            AND: this.specAttributeService.buildWhere(specFilters),
+        };
+
+        const { products, total } = specSort
+            ? await this.findPageSortedBySpec(
+                  filteredWhere,
+                  specSort,
+                  skip,
+                  limit
+              )
+            : await this.findPage(filteredWhere, skip, limit);
+
+        // Facet dihitung dari hasil filter saat ini (hanya jika diminta)
+        const specFacets = facets
+            ? await this.specAttributeService.getFacets(
+                  where,
+                  specFilters,
+                  categoryIds &&
+                      (await this.getFacetCategoryIds(
+                          selectedCategoryIds,
+                          categoryIds
+                      ))
+              )
+            : undefined;
 
         return {
             data: products,
@@ -171,7 +288,9 @@ export class ProductService {
                 lastPage: Math.ceil(total / limit),
                 perPage: limit,
                 search: search || null,
+                sort: sort || null,
             },
+            ...(specFacets ? { facets: specFacets } : {}),
         };
     }
 
@@ -181,14 +300,24 @@ export class ProductService {
      * @returns Produk dengan informasi lengkap
      */
     async findById(id: string) {
-        return this.prisma.product.findUnique({
+        const product = await this.prisma.product.findUnique({
             where: { id, deletedAt: null },
             include: {
-                category: true,
-                brand: true,
-                translations: true,
+                ...PRODUCT_INCLUDE,
+                relations: PRODUCT_RELATIONS_INCLUDE,
+                documents: {
+                    where: { isActive: true },
+                    orderBy: [{ type: "asc" }, { language: "asc" }],
+                    omit: DOCUMENT_RESPONSE_OMIT,
+                },
             },
         });
+        if (!product) return null;
+
+        return {
+            ...product,
+            documents: product.documents.map(toDocumentResponse),
+        };
     }
 
     /**
@@ -210,6 +339,9 @@ export class ProductService {
                 sortOrder,
             },
             translations,
+            specs,
+            variants,
+            uploadedImages = [],
             createdBy,
             ipAddress,
             userAgent,
@@ -229,6 +361,15 @@ export class ProductService {
         });
         if (!category) throw new Error("Category not found");
 
+        // Validasi nilai spesifikasi terhadap atribut kategori
+        const specValues = specs
+            ? await this.specAttributeService.resolveValues(categoryId, specs)
+            : undefined;
+        const preparedVariants = await this.prepareVariants(
+            categoryId,
+            variants ?? []
+        );
+
         // Cek duplikat
         const existingBySlug = await this.prisma.product.findFirst({
             where: { slug },
@@ -246,20 +387,33 @@ export class ProductService {
             );
         }
 
+        // SKU produk & varian tidak boleh dipakai produk/varian lain
+        await this.assertSkusAvailable(
+            existing?.id ?? null,
+            sku,
+            preparedVariants
+        );
+
+        // Gambar produk & varian harus milik produk ini atau baru diupload
+        await this.assertImagesOwned(
+            existing?.id ?? null,
+            [
+                ...(images ?? []),
+                ...preparedVariants.flatMap((v) => v.images),
+            ],
+            uploadedImages
+        );
+
         if (existing) {
             // Restore produk
-            return this.prisma.$transaction(async (tx) => {
-                // Hapus file gambar lama
-                if (Array.isArray(existing.images)) {
-                    existing.images.forEach((imgUrl) => {
-                        if (
-                            typeof imgUrl === "string" &&
-                            imgUrl.startsWith("/uploads/products/")
-                        ) {
-                            this.fileService.deleteFile(imgUrl);
-                        }
-                    });
-                }
+            let droppedImages: string[] = [];
+            const restored = await this.prisma.$transaction(async (tx) => {
+                // Gambar lama tidak dihapus: tetap dipakai riwayat revisi
+                await this.productRevisionService.ensureBaseline(
+                    tx,
+                    existing.id,
+                    createdBy
+                );
 
                 // Handle sortOrder
                 let finalSortOrder = existing.sortOrder;
@@ -306,6 +460,34 @@ export class ProductService {
                     });
                 }
 
+                // Update nilai spesifikasi
+                if (specValues) {
+                    await this.specAttributeService.replaceValues(
+                        tx,
+                        existing.id,
+                        specValues
+                    );
+                } else {
+                    await this.specAttributeService.pruneValues(
+                        tx,
+                        existing.id,
+                        categoryId
+                    );
+                }
+
+                // Ganti varian
+                droppedImages = await this.syncVariants(
+                    tx,
+                    existing.id,
+                    preparedVariants
+                );
+
+                await this.productRevisionService.record(tx, {
+                    productId: existing.id,
+                    createdBy,
+                    note: "Product restored",
+                });
+
                 await this.auditService.log({
                     userId: createdBy,
                     action: "RESTORE_PRODUCT",
@@ -319,6 +501,8 @@ export class ProductService {
                         ...input.data,
                         sortOrder: finalSortOrder,
                         translations,
+                        specs,
+                        variants: preparedVariants,
                     },
                     details: `Product "${slug}" restored and updated`,
                     ipAddress,
@@ -327,6 +511,9 @@ export class ProductService {
 
                 return updatedProduct;
             });
+
+            await this.deleteUnusedImages(existing.id, droppedImages);
+            return restored;
         }
 
         // Create produk baru
@@ -363,6 +550,25 @@ export class ProductService {
                 });
             }
 
+            // Simpan nilai spesifikasi
+            if (specValues) {
+                await this.specAttributeService.replaceValues(
+                    tx,
+                    newProduct.id,
+                    specValues
+                );
+            }
+
+            // Simpan varian
+            await this.syncVariants(tx, newProduct.id, preparedVariants);
+
+            // Revisi pertama
+            await this.productRevisionService.record(tx, {
+                productId: newProduct.id,
+                createdBy,
+                note: "Product created",
+            });
+
             await this.auditService.log({
                 userId: createdBy,
                 action: "CREATE_PRODUCT",
@@ -372,6 +578,8 @@ export class ProductService {
                     ...input.data,
                     sortOrder: finalSortOrder,
                     translations,
+                    specs,
+                    variants: preparedVariants,
                 },
                 details: `Product "${slug}" created`,
                 ipAddress,
@@ -402,6 +610,11 @@ export class ProductService {
                 sortOrder,
             },
             translations,
+            specs,
+            variants,
+            uploadedImages = [],
+            revisionId,
+            revisionNote,
             updatedBy,
             ipAddress,
             userAgent,
@@ -426,6 +639,14 @@ export class ProductService {
         });
         if (!category) throw new Error("Invalid category");
 
+        // Validasi nilai spesifikasi terhadap atribut kategori
+        const specValues = specs
+            ? await this.specAttributeService.resolveValues(categoryId, specs)
+            : undefined;
+        const preparedVariants = variants
+            ? await this.prepareVariants(categoryId, variants)
+            : undefined;
+
         // Cek duplikat slug
         if (slug !== existing.slug) {
             const dup = await this.prisma.product.findUnique({
@@ -446,8 +667,37 @@ export class ProductService {
             }
         }
 
+        // SKU produk & varian tidak boleh dipakai produk/varian lain
+        await this.assertSkusAvailable(
+            id,
+            sku ?? null,
+            preparedVariants ??
+                (await this.prisma.productVariant.findMany({
+                    where: { productId: id },
+                    select: { sku: true },
+                }))
+        );
+
+        // Gambar produk & varian harus milik produk ini atau baru diupload
+        await this.assertImagesOwned(
+            id,
+            [
+                ...(images ?? []),
+                ...(preparedVariants ?? []).flatMap((v) => v.images),
+            ],
+            uploadedImages
+        );
+
         // Update produk dalam transaksi
+        let droppedImages: string[] = [];
         const updatedProduct = await this.prisma.$transaction(async (tx) => {
+            // Simpan kondisi sebelum diubah jika belum punya riwayat
+            await this.productRevisionService.ensureBaseline(
+                tx,
+                id,
+                updatedBy
+            );
+
             let finalSortOrder = existing.sortOrder;
 
             // Handle sortOrder
@@ -465,21 +715,8 @@ export class ProductService {
                 }
             }
 
-            // Hapus gambar lama jika diganti
-            if (
-                Array.isArray(existing.images) &&
-                Array.isArray(images) &&
-                JSON.stringify(existing.images) !== JSON.stringify(images)
-            ) {
-                existing.images.forEach((img) => {
-                    if (
-                        typeof img === "string" &&
-                        img.startsWith("/uploads/products/")
-                    ) {
-                        this.fileService.deleteFile(img);
-                    }
-                });
-            }
+            // Gambar lama tidak dihapus: tetap dipakai riwayat revisi
+            // (dibersihkan saat hard delete)
 
             // Update produk
             const updated = await tx.product.update({
@@ -513,9 +750,46 @@ export class ProductService {
                 });
             }
 
+            // Ganti nilai spesifikasi, atau buang yang tidak berlaku
+            // jika kategori berubah
+            if (specValues) {
+                await this.specAttributeService.replaceValues(
+                    tx,
+                    id,
+                    specValues
+                );
+            } else if (categoryId !== existing.categoryId) {
+                await this.specAttributeService.pruneValues(
+                    tx,
+                    id,
+                    categoryId
+                );
+            }
+
+            // Ganti varian (hanya jika dikirim)
+            if (preparedVariants) {
+                droppedImages = await this.syncVariants(
+                    tx,
+                    id,
+                    preparedVariants
+                );
+            }
+
+            // Catat sebagai revisi live baru (atau promosikan draft)
+            await this.productRevisionService.record(tx, {
+                productId: id,
+                createdBy: updatedBy,
+                note: revisionNote,
+                revisionId,
+            });
+
             return updated;
         });
 
+        // File dihapus setelah commit agar rollback tidak meninggalkan
+        // data yang menunjuk ke file yang sudah hilang
+        await this.deleteUnusedImages(id, droppedImages);
+
         // Audit log
         await this.auditService.log({
             userId: updatedBy,
@@ -527,6 +801,8 @@ export class ProductService {
                 ...input.data,
                 sortOrder: updatedProduct.sortOrder,
                 translations,
+                specs,
+                variants: preparedVariants,
             },
             details: `Product "${name}" updated`,
             ipAddress,
@@ -582,20 +858,29 @@ export class ProductService {
     async hardDelete(input: DeleteProductInput) {
         const { id, deletedBy, ipAddress, userAgent } = input;
 
-        const product = await this.prisma.product.findUnique({ where: { id } });
+        const product = await this.prisma.product.findUnique({
+            where: { id },
+            include: { variants: true, documents: true },
+        });
         if (!product) throw new Error("Product not found.");
 
-        // Hapus file gambar
-        if (Array.isArray(product.images)) {
-            product.images.forEach((img) => {
-                if (
-                    typeof img === "string" &&
-                    img.startsWith("/uploads/products/")
-                ) {
-                    this.fileService.deleteFile(img);
-                }
-            });
-        }
+        // Hapus file gambar (produk + varian + riwayat revisi)
+        const revisionImages =
+            await this.productRevisionService.getReferencedImages(id);
+        this.deleteProductImages([
+            ...new Set([
+                ...[
+                    product.images,
+                    ...product.variants.map((v) => v.images),
+                ].flatMap((list) => this.toImageList(list)),
+                ...revisionImages,
+            ]),
+        ]);
+
+        // Hapus file dokumen produk
+        product.documents.forEach((doc) =>
+            this.fileService.deleteDocument(doc.file)
+        );
 
         await this.prisma.$transaction([
             this.prisma.productTranslation.deleteMany({
@@ -625,7 +910,373 @@ export class ProductService {
         return { message: "Product permanently deleted", id };
     }
 
+    /**
+     * Publish draft produk: terapkan snapshot draft ke versi live
+     * @param input - Data publish
+     * @returns Produk yang diupdate
+     */
+    async publishDraft(input: PublishDraftInput) {
+        const { productId, publishedBy, ipAddress, userAgent } = input;
+
+        const draft = await this.productRevisionService.getDraft(productId);
+        if (!draft) throw new Error("Draft not found");
+
+        const product = await this.applySnapshot(
+            productId,
+            this.productRevisionService.toSnapshot(draft.snapshot),
+            {
+                revisionId: draft.id,
+                updatedBy: publishedBy,
+                ipAddress,
+                userAgent,
+            }
+        );
+
+        await this.auditService.log({
+            userId: publishedBy,
+            action: "PUBLISH_PRODUCT_DRAFT",
+            tableName: "Product",
+            recordId: productId,
+            newValues: { revisionId: draft.id },
+            details: `Draft of product "${product.name}" published`,
+            ipAddress,
+            userAgent,
+        });
+
+        return product;
+    }
+
+    /**
+     * Rollback produk ke revisi yang pernah tayang
+     * (dicatat sebagai revisi live baru, riwayat tidak dihapus)
+     * @param input - Data rollback
+     * @returns Produk yang diupdate
+     */
+    async rollback(input: RollbackProductInput) {
+        const { productId, revisionId, rolledBackBy, ipAddress, userAgent } =
+            input;
+
+        const revision = await this.productRevisionService.findById(
+            productId,
+            revisionId
+        );
+        if (!revision) throw new Error("Revision not found");
+        if (revision.status === "DRAFT") {
+            throw new Error("Cannot roll back to a draft, publish it instead");
+        }
+
+        const product = await this.applySnapshot(
+            productId,
+            this.productRevisionService.toSnapshot(revision.snapshot),
+            {
+                revisionNote: `Rollback to version ${revision.version}`,
+                updatedBy: rolledBackBy,
+                ipAddress,
+                userAgent,
+            }
+        );
+
+        await this.auditService.log({
+            userId: rolledBackBy,
+            action: "ROLLBACK_PRODUCT",
+            tableName: "Product",
+            recordId: productId,
+            newValues: { revisionId, version: revision.version },
+            details: `Product "${product.name}" rolled back to version ${revision.version}`,
+            ipAddress,
+            userAgent,
+        });
+
+        return product;
+    }
+
     // Helper methods
+    private applySnapshot(
+        id: string,
+        snapshot: ProductSnapshot,
+        options: Pick<
+            UpdateProductInput,
+            | "revisionId"
+            | "revisionNote"
+            | "updatedBy"
+            | "ipAddress"
+            | "userAgent"
+        >
+    ) {
+        const { translations, ...data } = snapshot;
+        return this.update({ id, data, translations, ...options });
+    }
+
+    /**
+     * Validasi & normalisasi input varian
+     * (spesifikasi dicek terhadap atribut kategori produk)
+     */
+    private async prepareVariants(
+        categoryId: string,
+        variants: VariantInput[]
+    ): Promise<PreparedVariant[]> {
+        return Promise.all(
+            variants.map(async (variant, index) => {
+                const sku = variant.sku?.trim();
+                const name = variant.name?.trim();
+                if (!sku || !name) {
+                    throw new Error("Each variant requires sku and name");
+                }
+
+                return {
+                    id: variant.id,
+                    sku,
+                    name,
+                    specifications: variant.specifications
+                        ? await this.specAttributeService.normalizeValues(
+                              categoryId,
+                              variant.specifications
+                          )
+                        : null,
+                    images: this.toImageList(variant.images),
+                    isActive: variant.isActive ?? true,
+                    sortOrder: index + 1,
+                };
+            })
+        );
+    }
+
+    /**
+     * SKU (produk + varian) harus unik dalam input dan tidak dipakai
+     * produk lain maupun varian produk lain
+     */
+    private async assertSkusAvailable(
+        productId: string | null,
+        sku: string | null,
+        variants: { sku: string }[]
+    ): Promise<void> {
+        const variantSkus = variants.map((v) => v.sku);
+        const skus = sku ? [sku, ...variantSkus] : variantSkus;
+        if (skus.length === 0) return;
+
+        // Perbandingan case-insensitive (mengikuti collation MySQL)
+        const seen = new Set<string>();
+        for (const value of skus) {
+            const normalized = value.toLowerCase();
+            if (seen.has(normalized)) {
+                throw new Error(`SKU "${value}" is used more than once`);
+            }
+            seen.add(normalized);
+        }
+
+        const [productConflict, variantConflict] = await Promise.all([
+            variantSkus.length > 0
+                ? this.prisma.product.findFirst({
+                      where: {
+                          sku: { in: variantSkus },
+                          ...(productId ? { NOT: { id: productId } } : {}),
+                      },
+                      select: { sku: true },
+                  })
+                : null,
+            this.prisma.productVariant.findFirst({
+                where: {
+                    sku: { in: skus },
+                    ...(productId ? { NOT: { productId } } : {}),
+                },
+                select: { sku: true },
+            }),
+        ]);
+
+        if (productConflict) {
+            throw new Error(
+                `SKU "${productConflict.sku}" is already used by another product`
+            );
+        }
+        if (variantConflict) {
+            throw new Error(
+                `SKU "${variantConflict.sku}" is already used by another product variant`
+            );
+        }
+    }
+
+    /**
+     * Sinkronkan varian produk: varian ber-ID diupdate, tanpa ID dibuat,
+     * yang tidak dikirim dihapus
+     * @returns Gambar varian lama yang tidak dipakai varian lagi
+     *          (dihapus pemanggil setelah transaksi commit)
+     */
+    private async syncVariants(
+        tx: Prisma.TransactionClient,
+        productId: string,
+        variants: PreparedVariant[]
+    ): Promise<string[]> {
+        const existing = await tx.productVariant.findMany({
+            where: { productId },
+        });
+        const existingIds = new Set(existing.map((v) => v.id));
+
+        const unknown = variants.find((v) => v.id && !existingIds.has(v.id));
+        if (unknown) {
+            throw new Error(
+                `Variant "${unknown.id}" not found for this product`
+            );
+        }
+
+        const keptIds = variants
+            .map((v) => v.id)
+            .filter((variantId): variantId is string => Boolean(variantId));
+        await tx.productVariant.deleteMany({
+            where: { productId, id: { notIn: keptIds } },
+        });
+
+        for (const { id: variantId, ...data } of variants) {
+            const values = {
+                ...data,
+                specifications: data.specifications ?? Prisma.DbNull,
+            };
+            if (variantId) {
+                await tx.productVariant.update({
+                    where: { id: variantId },
+                    data: values,
+                });
+            } else {
+                await tx.productVariant.create({
+                    data: { ...values, productId },
+                });
+            }
+        }
+
+        const usedImages = new Set(variants.flatMap((v) => v.images));
+        return existing
+            .flatMap((v) => this.toImageList(v.images))
+            .filter((img) => !usedImages.has(img));
+    }
+
+    /**
+     * Gambar hanya boleh berasal dari gambar yang sudah dimiliki produk
+     * (live, varian, revisi) atau yang diupload di request ini, agar
+     * gambar produk lain tidak bisa direferensikan lalu ikut terhapus
+     */
+    private async assertImagesOwned(
+        productId: string | null,
+        images: string[],
+        uploadedImages: string[]
+    ): Promise<void> {
+        if (images.length === 0) return;
+
+        const owned = productId
+            ? await this.productRevisionService.getOwnedImages(productId)
+            : new Set<string>();
+        uploadedImages.forEach((img) => owned.add(img));
+
+        const foreign = images.find((img) => !owned.has(img));
+        if (foreign) {
+            throw new Error(
+                `Image "${foreign}" does not belong to this product`
+            );
+        }
+    }
+
+    /**
+     * Hapus gambar yang sudah tidak dipakai produk (live, varian, revisi)
+     */
+    private async deleteUnusedImages(
+        productId: string,
+        images: string[]
+    ): Promise<void> {
+        if (images.length === 0) return;
+
+        const owned = await this.productRevisionService.getOwnedImages(
+            productId
+        );
+        this.deleteProductImages(images.filter((img) => !owned.has(img)));
+    }
+
+    private toImageList(images: unknown): string[] {
+        return Array.isArray(images)
+            ? images.filter((img): img is string => typeof img === "string")
+            : [];
+    }
+
+    private deleteProductImages(images: string[]): void {
+        images.forEach((img) => {
+            if (img.startsWith("/uploads/products/")) {
+                this.fileService.deleteFile(img);
+            }
+        });
+    }
+
+    private async findPage(
+        where: Prisma.ProductWhereInput,
+        skip: number,
+        limit: number
+    ) {
+        const [products, total] = await Promise.all([
+            this.prisma.product.findMany({
+                where,
+                skip,
+                take: limit,
+                orderBy: { sortOrder: "asc" },
+                include: PRODUCT_INCLUDE,
+            }),
+            this.prisma.product.count({ where }),
+        ]);
+
+        return { products, total };
+    }
+
+    /**
+     * Nilai atribut berada di tabel relasi sehingga urutan dihitung di aplikasi,
+     * lalu hanya produk pada halaman yang diminta yang dimuat lengkap
+     */
+    private async findPageSortedBySpec(
+        where: Prisma.ProductWhereInput,
+        sort: SpecSort,
+        skip: number,
+        limit: number
+    ) {
+        const rows = await this.prisma.product.findMany({
+            where,
+            orderBy: { sortOrder: "asc" },
+            select: { id: true },
+        });
+        const sortedIds = await this.specAttributeService.sortProductIds(
+            rows.map((row) => row.id),
+            sort
+        );
+        const pageIds = sortedIds.slice(skip, skip + limit);
+
+        const pageProducts = await this.prisma.product.findMany({
+            where: { id: { in: pageIds } },
+            include: PRODUCT_INCLUDE,
+        });
+        const byId = new Map(pageProducts.map((p) => [p.id, p]));
+
+        return {
+            products: pageIds
+                .map((id) => byId.get(id))
+                .filter((p): p is NonNullable<typeof p> => Boolean(p)),
+            total: sortedIds.length,
+        };
+    }
+
+    /**
+     * Kategori sumber atribut untuk facet: leluhur kategori yang dipilih
+     * (atribut warisan) + seluruh kategori hasil pencarian
+     */
+    private async getFacetCategoryIds(
+        selectedIds: string[],
+        categoryIds: string[]
+    ): Promise<string[]> {
+        const ancestorIds = await Promise.all(
+            selectedIds.map((id) => this.categoryService.getAncestorIds(id))
+        );
+        return Array.from(new Set([...ancestorIds.flat(), ...categoryIds]));
+    }
+
+    private splitIds(value: string): string[] {
+        return value
+            .split(",")
+            .map((id) => id.trim())
+            .filter(Boolean);
+    }
+
     private fixJson(value: any): any {
         if (value == null || value === "") {
             return Prisma.DbNull;
@@ -0,0 +1,336 @@
+/**
+ * @file DatasheetService – Datasheet PDF produk otomatis (dengan cache)
+ * @description
+ * Layanan untuk menghasilkan datasheet PDF satu produk per bahasa:
+ * - Konten dari `ProductTranslation` (deskripsi, spesifikasi, fitur),
+ *   nilai spesifikasi terstruktur, gambar produk, dan logo brand
+ *   (WebP/AVIF dikonversi ke PNG karena PDFKit hanya mendukung PNG/JPEG)
+ * - QR code menuju halaman produk di website
+ * - Render via `ExportService.renderDatasheet` (branding sama dengan ekspor PDF)
+ * - Cache di disk berdasarkan hash konten: PDF baru dibuat hanya jika
+ *   data produk berubah (hash juga dipakai sebagai ETag)
+ *
+ * @security
+ * - Hanya produk aktif dan belum dihapus
+ * - Path gambar di-resolve lewat `FileService` (hindari path traversal)
+ *
+ * @usage
+ * const datasheet = await datasheetService.getDatasheet('prd_123', 'EN');
+ * if (datasheet) res.send(datasheet.pdf);
+ *
+ * @dependencies
+ * - `qrcode` untuk QR code (PNG)
+ * - `sharp` untuk konversi gambar WebP/AVIF
+ * - `ExportService`, `FileService`
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import QRCode from "qrcode";
+import sharp from "sharp";
+import { Language, PrismaClient } from "@prisma/client";
+import { DatasheetContent, ExportService } from "./export.service";
+import { FileService } from "../file.service";
+
+export interface DatasheetServiceConfig {
+    siteUrl: string; // Base URL website publik (untuk QR code)
+    cacheDir?: string;
+}
+
+export interface DatasheetResult {
+    pdf: Buffer;
+    etag: string;
+    filename: string;
+}
+
+// Lebar maksimal gambar hasil konversi untuk PDF (px)
+const PDF_IMAGE_WIDTH = 800;
+
+// Naikkan jika layout datasheet berubah agar cache lama tidak dipakai
+const DATASHEET_TEMPLATE_VERSION = 1;
+
+const LABELS: Record<
+    Language,
+    DatasheetContent["labels"] & {
+        title: string;
+        qrCaption: string;
+        yes: string;
+        no: string;
+    }
+> = {
+    ID: {
+        title: "Lembar Data Produk",
+        description: "Deskripsi",
+        specifications: "Spesifikasi",
+        features: "Fitur",
+        sku: "Kode Produk",
+        brand: "Merek",
+        category: "Kategori",
+        qrCaption: "Pindai untuk detail produk",
+        yes: "Ya",
+        no: "Tidak",
+    },
+    EN: {
+        title: "Product Datasheet",
+        description: "Description",
+        specifications: "Specifications",
+        features: "Features",
+        sku: "Part Number",
+        brand: "Brand",
+        category: "Category",
+        qrCaption: "Scan for product details",
+        yes: "Yes",
+        no: "No",
+    },
+};
+
+export class DatasheetService {
+    private readonly cacheDir: string;
+
+    constructor(
+        private prisma: PrismaClient,
+        private exportService: ExportService,
+        private fileService: FileService,
+        private config: DatasheetServiceConfig
+    ) {
+        this.cacheDir =
+            config.cacheDir ?? path.join(os.tmpdir(), "enerkomp-datasheets");
+    }
+
+    /**
+     * Ambil datasheet PDF produk (dari cache jika konten tidak berubah)
+     * @returns null jika produk tidak ditemukan / tidak aktif
+     */
+    async getDatasheet(
+        productId: string,
+        language: Language
+    ): Promise<DatasheetResult | null> {
+        const product = await this.prisma.product.findUnique({
+            where: { id: productId, deletedAt: null, isActive: true },
+            include: {
+                brand: true,
+                category: {
+                    include: { translations: { where: { language } } },
+                },
+                translations: true,
+                specValues: {
+                    include: { attribute: true },
+                    orderBy: { attribute: { sortOrder: "asc" } },
+                },
+            },
+        });
+        if (!product) return null;
+
+        const labels = LABELS[language];
+        const translation =
+            product.translations.find((t) => t.language === language) ??
+            product.translations[0];
+
+        // Gambar masih berupa path: hash cukup dari path (nama file unik)
+        const content: Omit<
+            DatasheetContent,
+            "qrCode" | "brandLogo" | "images"
+        > & {
+            brandLogo: string | null;
+            images: string[];
+        } = {
+            title: labels.title,
+            name: product.name,
+            sku: product.sku,
+            brandName: product.brand.name,
+            brandLogo: this.resolveImage(product.brand.logo),
+            categoryName:
+                product.category.translations[0]?.name ||
+                product.category.name,
+            images: (Array.isArray(product.images) ? product.images : [])
+                .map((img) =>
+                    typeof img === "string" ? this.resolveImage(img) : null
+                )
+                .filter((img): img is string => Boolean(img)),
+            shortDescription: this.toPlainText(translation?.shortDescription),
+            longDescription: this.toPlainText(translation?.longDescription),
+            specifications: [
+                ...product.specValues.map((value) => ({
+                    label: value.attribute.label,
+                    value: this.formatSpecValue(
+                        value,
+                        value.attribute.unit,
+                        labels
+                    ),
+                })),
+                ...this.toSpecRows(translation?.specifications),
+            ],
+            features: Array.isArray(translation?.features)
+                ? translation.features.map(String)
+                : [],
+            qrCaption: labels.qrCaption,
+            labels,
+        };
+
+        const lang = language.toLowerCase();
+        const productUrl = `${this.config.siteUrl.replace(
+            /\/+$/,
+            ""
+        )}/products/${product.slug}?lang=${lang}`;
+
+        // Hash konten + URL + versi template = kunci cache
+        const hash = crypto
+            .createHash("sha256")
+            .update(
+                JSON.stringify({
+                    version: DATASHEET_TEMPLATE_VERSION,
+                    content,
+                    productUrl,
+                })
+            )
+            .digest("hex")
+            .slice(0, 32);
+
+        const filename = `${product.slug}-datasheet-${lang}.pdf`;
+        const prefix = `${product.id}-${language}-`;
+        const cachePath = path.join(this.cacheDir, `${prefix}${hash}.pdf`);
+
+        const cached = this.readCache(cachePath);
+        if (cached) return { pdf: cached, etag: hash, filename };
+
+        const images = await Promise.all(
+            content.images.map((image) => this.toPdfImage(image))
+        );
+        const pdf = await this.exportService.renderDatasheet({
+            ...content,
+            brandLogo: content.brandLogo
+                ? await this.toPdfImage(content.brandLogo)
+                : null,
+            images: images.filter((image): image is string | Buffer =>
+                Boolean(image)
+            ),
+            qrCode: await QRCode.toBuffer(productUrl, {
+                type: "png",
+                margin: 1,
+                width: 300,
+            }),
+        });
+        this.writeCache(cachePath, prefix, pdf);
+
+        return { pdf, etag: hash, filename };
+    }
+
+    // Helper methods
+    private resolveImage(url: string | null): string | null {
+        if (!url || !url.startsWith("/uploads/")) return null;
+        try {
+            const filePath = this.fileService.resolvePath(url);
+            return fs.existsSync(filePath) ? filePath : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * PNG/JPEG dipakai langsung, format lain (WebP/AVIF) dikonversi ke PNG
+     * @returns null jika gambar tidak bisa dibaca
+     */
+    private async toPdfImage(
+        filePath: string
+    ): Promise<string | Buffer | null> {
+        if (/\.(png|jpe?g)$/i.test(filePath)) return filePath;
+        try {
+            return await sharp(filePath)
+                .resize({ width: PDF_IMAGE_WIDTH, withoutEnlargement: true })
+                .png()
+                .toBuffer();
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Buang tag HTML dari deskripsi (editor rich text)
+     */
+    private toPlainText(value: string | null | undefined): string | null {
+        if (!value) return null;
+        const text = value
+            .replace(/<br\s*\/?>/gi, "\n")
+            .replace(/<\/(p|div|li|h[1-6])>/gi, "\n")
+            .replace(/<[^>]+>/g, "")
+            .replace(/&nbsp;/g, " ")
+            .replace(/&amp;/g, "&")
+            .replace(/&lt;/g, "<")
+            .replace(/&gt;/g, ">")
+            .replace(/&quot;/g, '"')
+            .replace(/&#39;/g, "'")
+            .replace(/\n{3,}/g, "\n\n")
+            .trim();
+        return text || null;
+    }
+
+    private formatSpecValue(
+        value: {
+            numberValue: number | null;
+            textValue: string | null;
+            booleanValue: boolean | null;
+        },
+        unit: string | null,
+        labels: { yes: string; no: string }
+    ): string {
+        if (value.booleanValue !== null) {
+            return value.booleanValue ? labels.yes : labels.no;
+        }
+        if (value.numberValue !== null) {
+            return unit
+                ? `${value.numberValue} ${unit}`
+                : String(value.numberValue);
+        }
+        return value.textValue ?? "-";
+    }
+
+    /**
+     * Spesifikasi bebas dari terjemahan (objek key → nilai)
+     */
+    private toSpecRows(
+        specifications: unknown
+    ): { label: string; value: string }[] {
+        if (
+            !specifications ||
+            typeof specifications !== "object" ||
+            Array.isArray(specifications)
+        ) {
+            return [];
+        }
+        return Object.entries(specifications).map(([label, value]) => ({
+            label,
+            value:
+                value !== null && typeof value === "object"
+                    ? JSON.stringify(value)
+                    : String(value ?? "-"),
+        }));
+    }
+
+    private readCache(cachePath: string): Buffer | null {
+        try {
+            return fs.readFileSync(cachePath);
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Simpan PDF ke cache dan hapus versi lama produk/bahasa yang sama
+     * (gagal simpan tidak menggagalkan request)
+     */
+    private writeCache(cachePath: string, prefix: string, pdf: Buffer): void {
+        try {
+            fs.mkdirSync(this.cacheDir, { recursive: true });
+            for (const file of fs.readdirSync(this.cacheDir)) {
+                if (file.startsWith(prefix)) {
+                    fs.unlinkSync(path.join(this.cacheDir, file));
+                }
+            }
+            fs.writeFileSync(cachePath, pdf);
+        } catch (error) {
+            console.warn("Failed to cache datasheet:", cachePath, error);
+        }
+    }
+}
@@ -4,6 +4,7 @@
  * Layanan terpusat untuk ekspor data:
  * - Excel (.xlsx) dengan styling profesional dan ringkasan otomatis
  * - PDF dengan header/footer perusahaan dan layout responsif
+ * - Datasheet PDF satu produk (gambar, deskripsi, tabel spesifikasi, QR code)
  *
  * @security
  * - Semua path file divalidasi → hindari path traversal
@@ -15,6 +16,7 @@
  *
  * await exportService.toExcel(sheets, 'users', res);
  * exportService.toPdf(data, 'clients', 'Client Report', res);
+ * const pdf = await exportService.renderDatasheet(content);
  *
  * @dependencies
  * - `exceljs` v4+ untuk Excel export
@@ -36,6 +38,30 @@ export interface ExportServiceConfig {
     logoPath: string;
 }
 
+export interface DatasheetContent {
+    title: string; // Judul pita header, e.g. "Product Datasheet"
+    name: string;
+    sku: string | null;
+    brandName: string;
+    brandLogo: string | Buffer | null; // Path absolut (PNG/JPEG) atau buffer
+    categoryName: string;
+    images: (string | Buffer)[]; // Sama seperti logo, pertama = utama
+    shortDescription: string | null;
+    longDescription: string | null;
+    specifications: { label: string; value: string }[];
+    features: string[];
+    qrCode: Buffer; // PNG
+    qrCaption: string;
+    labels: {
+        description: string;
+        specifications: string;
+        features: string;
+        sku: string;
+        brand: string;
+        category: string;
+    };
+}
+
 export class ExportService {
     private readonly config: ExportServiceConfig;
     private readonly summaryService: SummaryService;
@@ -472,6 +498,248 @@ export class ExportService {
         doc.end();
     }
 
+    /**
+     * Render datasheet PDF satu produk
+     * @param content - Konten datasheet (teks sudah dalam bahasa tujuan)
+     * @returns Buffer PDF
+     */
+    renderDatasheet(content: DatasheetContent): Promise<Buffer> {
+        const doc = new PDFDocument({
+            size: "A4",
+            margin: 40,
+            bufferPages: true,
+            info: {
+                Title: `${content.name} - ${content.title}`,
+                Author: this.config.companyName,
+            },
+        });
+
+        const chunks: Buffer[] = [];
+        const result = new Promise<Buffer>((resolve, reject) => {
+            doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+            doc.on("end", () => resolve(Buffer.concat(chunks)));
+            doc.on("error", reject);
+        });
+
+        const colors = this.getColors();
+        const leftX = 40;
+        const pageWidth =
+            (doc as any).page.width -
+            (doc as any).page.margins.left -
+            (doc as any).page.margins.right;
+        const pageBottom = (doc as any).page.height - 80;
+        const contentTop = 160;
+
+        this.drawPdfHeader(doc, leftX, pageWidth, colors, content.title);
+        (doc as any).on("pageAdded", () => {
+            this.drawPdfHeader(doc, leftX, pageWidth, colors, content.title);
+            doc.y = contentTop;
+        });
+
+        const ensureSpace = (height: number) => {
+            if (doc.y + height > pageBottom) doc.addPage();
+        };
+
+        // Gambar utama (kiri) + identitas produk & QR code (kanan)
+        const imageSize = 200;
+        const [mainImage, ...otherImages] = content.images;
+        if (!this.drawPdfImage(doc, mainImage, leftX, contentTop, imageSize)) {
+            doc.rect(leftX, contentTop, imageSize, imageSize).fillAndStroke(
+                colors.Card,
+                "#e0e0e0"
+            );
+        }
+
+        const infoX = leftX + imageSize + 20;
+        const qrSize = 90;
+        const infoWidth = pageWidth - imageSize - 20 - qrSize - 10;
+
+        doc.fillColor(colors.Primary)
+            .font("Helvetica-Bold")
+            .fontSize(18)
+            .text(content.name, infoX, contentTop, { width: infoWidth });
+
+        const infoRows = [
+            [content.labels.sku, content.sku || "-"],
+            [content.labels.brand, content.brandName],
+            [content.labels.category, content.categoryName],
+        ];
+        doc.moveDown(0.5).fontSize(10);
+        for (const [label, value] of infoRows) {
+            doc.fillColor(colors.Secondary)
+                .font("Helvetica-Bold")
+                .text(`${label}: `, infoX, doc.y, {
+                    width: infoWidth,
+                    continued: true,
+                })
+                .fillColor(colors.Black)
+                .font("Helvetica")
+                .text(value);
+        }
+
+        if (content.brandLogo) {
+            this.drawPdfImage(
+                doc,
+                content.brandLogo,
+                infoX,
+                doc.y + 10,
+                100,
+                40
+            );
+        }
+
+        const qrX = leftX + pageWidth - qrSize;
+        doc.image(content.qrCode, qrX, contentTop, {
+            width: qrSize,
+            height: qrSize,
+        });
+        doc.fillColor(colors.Secondary)
+            .font("Helvetica")
+            .fontSize(7)
+            .text(content.qrCaption, qrX, contentTop + qrSize + 4, {
+                width: qrSize,
+                align: "center",
+            });
+
+        // Thumbnail gambar lain (maks. 3)
+        let cursorY = contentTop + imageSize + 10;
+        const thumbSize = 60;
+        otherImages.slice(0, 3).forEach((image, index) => {
+            this.drawPdfImage(
+                doc,
+                image,
+                leftX + index * (thumbSize + 10),
+                cursorY,
+                thumbSize
+            );
+        });
+        if (otherImages.length > 0) cursorY += thumbSize + 10;
+
+        doc.x = leftX;
+        doc.y = cursorY + 10;
+
+        const drawSectionTitle = (title: string) => {
+            ensureSpace(60);
+            doc.moveDown(0.5)
+                .fillColor(colors.Primary)
+                .font("Helvetica-Bold")
+                .fontSize(12)
+                .text(title, leftX, doc.y, { width: pageWidth });
+            doc.strokeColor(colors.Third)
+                .lineWidth(1)
+                .moveTo(leftX, doc.y + 2)
+                .lineTo(leftX + pageWidth, doc.y + 2)
+                .stroke();
+            doc.moveDown(0.5);
+        };
+
+        // Deskripsi
+        if (content.shortDescription || content.longDescription) {
+            drawSectionTitle(content.labels.description);
+            if (content.shortDescription) {
+                doc.fillColor(colors.Black)
+                    .font("Helvetica-Bold")
+                    .fontSize(10)
+                    .text(content.shortDescription, leftX, doc.y, {
+                        width: pageWidth,
+                    })
+                    .moveDown(0.5);
+            }
+            if (content.longDescription) {
+                doc.fillColor(colors.Black)
+                    .font("Helvetica")
+                    .fontSize(10)
+                    .text(content.longDescription, leftX, doc.y, {
+                        width: pageWidth,
+                        align: "justify",
+                    });
+            }
+        }
+
+        // Tabel spesifikasi (label | nilai)
+        if (content.specifications.length > 0) {
+            drawSectionTitle(content.labels.specifications);
+            const labelWidth = Math.floor(pageWidth * 0.4);
+            const rowHeight = 20;
+
+            content.specifications.forEach((spec, index) => {
+                ensureSpace(rowHeight);
+                const rowY = doc.y;
+                const bg = index % 2 === 0 ? colors.Card : colors.White;
+                doc.rect(leftX, rowY, pageWidth, rowHeight).fillAndStroke(
+                    bg,
+                    "#e9e9e9"
+                );
+                doc.fillColor(colors.Primary)
+                    .font("Helvetica-Bold")
+                    .fontSize(9)
+                    .text(spec.label, leftX + 6, rowY + 6, {
+                        width: labelWidth - 12,
+                        ellipsis: true,
+                        lineBreak: false,
+                    });
+                doc.fillColor(colors.Black)
+                    .font("Helvetica")
+                    .text(spec.value, leftX + labelWidth, rowY + 6, {
+                        width: pageWidth - labelWidth - 6,
+                        ellipsis: true,
+                        lineBreak: false,
+                    });
+                doc.y = rowY + rowHeight;
+            });
+        }
+
+        // Fitur (bullet list)
+        if (content.features.length > 0) {
+            drawSectionTitle(content.labels.features);
+            doc.fillColor(colors.Black).font("Helvetica").fontSize(10);
+            for (const feature of content.features) {
+                ensureSpace(16);
+                doc.text(`\u2022  ${feature}`, leftX + 6, doc.y, {
+                    width: pageWidth - 6,
+                });
+            }
+        }
+
+        // Footer di setiap halaman
+        const range = doc.bufferedPageRange();
+        for (let i = range.start; i < range.start + range.count; i++) {
+            doc.switchToPage(i);
+            this.drawPdfFooter(doc, leftX, pageWidth, colors, i + 1);
+        }
+
+        doc.end();
+        return result;
+    }
+
+    /**
+     * Gambar image dari path (hanya PNG/JPEG yang didukung pdfkit)
+     * @returns false jika file tidak ada / format tidak didukung
+     */
+    private drawPdfImage(
+        doc: typeof PDFDocument,
+        image: string | Buffer | undefined,
+        x: number,
+        y: number,
+        width: number,
+        height: number = width
+    ): boolean {
+        if (!image) return false;
+        if (typeof image === "string" && !/\.(png|jpe?g)$/i.test(image)) {
+            return false;
+        }
+        try {
+            doc.image(image, x, y, {
+                fit: [width, height],
+                align: "center",
+                valign: "center",
+            });
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
     private drawPdfHeader(
         doc: typeof PDFDocument,
         leftX: number,
@@ -3,42 +3,77 @@
  * @description
  * Layanan untuk mengelola role dalam sistem:
  * - CRUD role (termasuk soft/hard delete dan restore)
- * - Manajemen permission (action + resource)
+ * - Manajemen permission (action + resource), divalidasi terhadap registry permission
+ * - Katalog permission dan permission efektif (untuk UI dashboard)
+ * - Template role bawaan (Admin, Editor, Sales, Viewer), clone role, dan diff permission
+ * - Pengecekan permission lewat `PermissionCacheService` (tanpa query DB per request)
+ * - Kewajiban 2FA per role (`requireTwoFactor`), ditujukan untuk role dengan permission manage
  * - Integrasi audit log untuk semua operasi
  *
  * @security
- * - Role sistem tidak bisa diubah/dihapus
+ * - Role sistem tidak bisa diubah/dihapus, tetapi bisa di-clone (hasil clone bukan role sistem)
  * - Role dengan user aktif tidak bisa dihapus
  * - Validasi duplikat nama sebelum create/update
+ * - Permission yang tidak terdaftar di `config/permissions.config.ts` ditolak
+ *   (permission lama milik role tetap boleh dipertahankan saat update)
+ * - Cache permission role diinvalidasi setiap kali role/permission berubah
  * - Soft delete default, hard delete opsional dan dilindungi
  *
  * @usage
- * const roleService = new RoleService(prisma, auditService);
+ * const roleService = new RoleService(prisma, auditService, permissionCacheService);
  *
  * const role = await roleService.create({
  *   name: 'Manager',
  *   description: 'Operational manager',
- *   permissions: [{ action: 'read', resource: 'product' }],
+ *   permissions: [{ action: 'manage', resource: 'product' }],
  *   createdBy: 'usr_123'
  * });
  *
  * @dependencies
  * - `@prisma/client`
  * - `AuditService` (dari `src/services/audit.service.ts`)
+ * - `PermissionCacheService` (dari `src/services/permission-cache.service.ts`)
  */
 
 import { PrismaClient } from "@prisma/client";
 import { AuditService } from "./audit.service";
+import {
+    PermissionCacheMetrics,
+    PermissionCacheService,
+} from "./permission-cache.service";
+import {
+    ROLE_TEMPLATES,
+    RoleTemplate,
+    findRoleTemplate,
+} from "../config/role-templates.config";
+import {
+    MANAGE_ACTION,
+    PERMISSION_REGISTRY,
+    PermissionResource,
+    getRegisteredActions,
+    isRegisteredPermission,
+    toOwnAction,
+} from "../config/permissions.config";
 
 export type PermissionInput = {
     action: string;
     resource: string;
 };
 
+export interface PermissionCatalogEntry {
+    resource: string;
+    description: string;
+    actions: string[];
+}
+
+// Permission efektif dikelompokkan per resource, misal: { user: ['read', 'create'] }
+export type EffectivePermissions = Record<string, string[]>;
+
 export interface CreateRoleInput {
     name: string;
     description: string | null;
     permissions: PermissionInput[];
+    requireTwoFactor?: boolean;
     createdBy: string;
     ipAddress?: string;
     userAgent?: string;
@@ -49,6 +84,7 @@ export interface UpdateRoleInput {
     name: string;
     description: string | null;
     permissions: PermissionInput[];
+    requireTwoFactor?: boolean;
     updatedBy: string;
     ipAddress?: string;
     userAgent?: string;
@@ -61,15 +97,42 @@ export interface DeleteRoleInput {
     userAgent?: string;
 }
 
+export interface CloneRoleInput {
+    id: string;
+    name: string;
+    description?: string | null;
+    createdBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface CreateRoleFromTemplateInput {
+    templateKey: string;
+    name?: string;
+    description?: string | null;
+    createdBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface RolePermissionDiff {
+    base: { id: string; name: string };
+    compare: { id: string; name: string };
+    onlyInBase: PermissionInput[];
+    onlyInCompare: PermissionInput[];
+    common: PermissionInput[];
+}
+
 export class RoleService {
     constructor(
         private prisma: PrismaClient,
-        private auditService: AuditService
+        private auditService: AuditService,
+        private permissionCacheService: PermissionCacheService
     ) {}
 
     // Tambahkan di dalam class RoleService
     /**
-     * Periksa apakah role memiliki permission tertentu
+     * Periksa apakah role memiliki permission tertentu (dari cache permission)
      * @param roleId - ID role
      * @param resource - Nama resource
      * @param action - Aksi yang diminta
@@ -80,14 +143,72 @@ export class RoleService {
         resource: string,
         action: string
     ): Promise<boolean> {
-        const permission = await this.prisma.permission.findFirst({
-            where: {
-                roleId,
+        return this.permissionCacheService.has(roleId, resource, action);
+    }
+
+    /**
+     * Ambil katalog permission yang valid, dikelompokkan per resource
+     * @returns Daftar resource beserta action yang tersedia
+     */
+    getPermissionCatalog(): PermissionCatalogEntry[] {
+        return (Object.keys(PERMISSION_REGISTRY) as PermissionResource[]).map(
+            (resource) => ({
                 resource,
-                action,
-            },
-        });
-        return permission !== null;
+                description: PERMISSION_REGISTRY[resource].description,
+                actions: [...PERMISSION_REGISTRY[resource].actions],
+            })
+        );
+    }
+
+    /**
+     * Ambil metrik cache permission (hit/miss, jumlah load dan invalidasi)
+     * @returns Metrik cache
+     */
+    getPermissionCacheMetrics(): PermissionCacheMetrics {
+        return this.permissionCacheService.getMetrics();
+    }
+
+    /**
+     * Hitung permission efektif sebuah role ("manage" diekspansi ke semua action)
+     * @param roleId - ID role
+     * @param scopes - Scope API key (opsional, hasil = irisan role & scope)
+     * @returns Action yang diizinkan per resource
+     */
+    async getEffectivePermissions(
+        roleId: string,
+        scopes?: PermissionInput[]
+    ): Promise<EffectivePermissions> {
+        const permissions =
+            await this.permissionCacheService.getPermissions(roleId);
+
+        const grouped = new Map<string, Set<string>>();
+        for (const key of permissions) {
+            // Split di ":" pertama saja agar "blog:update:own" tetap "update:own"
+            const separator = key.indexOf(":");
+            const resource = key.slice(0, separator);
+            const action = key.slice(separator + 1);
+            // "manage" mencakup semua action, action "any" mencakup varian ":own"
+            const actions =
+                action === MANAGE_ACTION
+                    ? [MANAGE_ACTION, ...getRegisteredActions(resource)]
+                    : isRegisteredPermission(resource, toOwnAction(action))
+                    ? [action, toOwnAction(action)]
+                    : [action];
+
+            const set = grouped.get(resource) ?? new Set<string>();
+            for (const allowed of actions) {
+                if (!scopes || this.scopeAllows(scopes, resource, allowed)) {
+                    set.add(allowed);
+                }
+            }
+            if (set.size > 0) grouped.set(resource, set);
+        }
+
+        const result: EffectivePermissions = {};
+        for (const resource of [...grouped.keys()].sort()) {
+            result[resource] = [...grouped.get(resource)!];
+        }
+        return result;
     }
 
     /**
@@ -112,8 +233,8 @@ export class RoleService {
 
         if (search) {
             where.OR = [
-                { name: { contains: search, mode: "insensitive" } },
-                { description: { contains: search, mode: "insensitive" } },
+                { name: { contains: search } },
+                { description: { contains: search } },
             ];
         }
 
@@ -167,11 +288,12 @@ export class RoleService {
         const {
             name,
             description,
-            permissions,
+            requireTwoFactor = false,
             createdBy,
             ipAddress,
             userAgent,
         } = input;
+        const permissions = this.normalizePermissions(input.permissions);
 
         // Cek duplikat (aktif atau soft-deleted)
         const existing = await this.prisma.role.findFirst({
@@ -192,6 +314,7 @@ export class RoleService {
                 data: {
                     description,
                     isSystem: false,
+                    requireTwoFactor,
                     deletedAt: null,
                     updatedAt: new Date(),
                     permissions: {
@@ -204,6 +327,7 @@ export class RoleService {
                 },
                 include: { permissions: true },
             });
+            this.permissionCacheService.invalidate(existing.id);
 
             await this.auditService.log({
                 userId: createdBy,
@@ -214,7 +338,12 @@ export class RoleService {
                     deletedAt: existing.deletedAt,
                     description: existing.description,
                 },
-                newValues: { deletedAt: null, description, permissions },
+                newValues: {
+                    deletedAt: null,
+                    description,
+                    requireTwoFactor,
+                    permissions,
+                },
                 details: `Role "${name}" restored and updated`,
                 ipAddress,
                 userAgent,
@@ -229,6 +358,7 @@ export class RoleService {
                 name,
                 description,
                 isSystem: false,
+                requireTwoFactor,
                 permissions: {
                     create: permissions.map((p) => ({
                         action: p.action,
@@ -244,7 +374,7 @@ export class RoleService {
             action: "CREATE_ROLE",
             tableName: "Role",
             recordId: role.id,
-            newValues: { name, description, permissions },
+            newValues: { name, description, requireTwoFactor, permissions },
             details: `Role "${name}" created`,
             ipAddress,
             userAgent,
@@ -263,7 +393,7 @@ export class RoleService {
             id,
             name,
             description,
-            permissions,
+            requireTwoFactor,
             updatedBy,
             ipAddress,
             userAgent,
@@ -278,6 +408,13 @@ export class RoleService {
             throw new Error("Role not found");
         }
 
+        // Permission lama yang sudah tidak ada di registry tetap boleh
+        // dipertahankan; hanya permission baru yang divalidasi
+        const permissions = this.normalizePermissions(
+            input.permissions,
+            existingRole.permissions
+        );
+
         if (existingRole.isSystem) {
             throw new Error("Cannot modify system role");
         }
@@ -293,13 +430,14 @@ export class RoleService {
         const oldValues = {
             name: existingRole.name,
             description: existingRole.description,
+            requireTwoFactor: existingRole.requireTwoFactor,
             permissions: existingRole.permissions,
         };
 
         // Update role
         const updatedRole = await this.prisma.role.update({
             where: { id },
-            data: { name, description },
+            data: { name, description, requireTwoFactor },
         });
 
         // Ganti permission
@@ -313,6 +451,7 @@ export class RoleService {
                 })),
             });
         }
+        this.permissionCacheService.invalidate(id);
 
         await this.auditService.log({
             userId: updatedBy,
@@ -320,7 +459,7 @@ export class RoleService {
             tableName: "Role",
             recordId: id,
             oldValues,
-            newValues: { name, description, permissions },
+            newValues: { name, description, requireTwoFactor, permissions },
             details: `Role "${name}" updated`,
             ipAddress,
             userAgent,
@@ -329,6 +468,117 @@ export class RoleService {
         return updatedRole;
     }
 
+    /**
+     * Ambil daftar template role bawaan
+     * @returns Template role beserta permission-nya
+     */
+    getTemplates(): readonly RoleTemplate[] {
+        return ROLE_TEMPLATES;
+    }
+
+    /**
+     * Buat role baru dari template bawaan
+     * @param input - Key template dan nama/deskripsi opsional
+     * @returns Role yang dibuat
+     */
+    async createFromTemplate(input: CreateRoleFromTemplateInput) {
+        const { templateKey, createdBy, ipAddress, userAgent } = input;
+
+        const template = findRoleTemplate(templateKey);
+        if (!template) {
+            throw new Error("Role template not found");
+        }
+
+        return this.create({
+            name: input.name?.trim() || template.name,
+            description: input.description ?? template.description,
+            permissions: template.permissions,
+            requireTwoFactor: template.requireTwoFactor,
+            createdBy,
+            ipAddress,
+            userAgent,
+        });
+    }
+
+    /**
+     * Clone role (termasuk role sistem) beserta permission dan kewajiban 2FA
+     * @param input - ID role sumber dan nama role baru
+     * @returns Role hasil clone
+     */
+    async clone(input: CloneRoleInput) {
+        const { id, name, description, createdBy, ipAddress, userAgent } =
+            input;
+
+        const source = await this.prisma.role.findUnique({
+            where: { id, deletedAt: null },
+            include: { permissions: true },
+        });
+        if (!source) {
+            throw new Error("Role not found");
+        }
+
+        // Permission di luar registry tidak dipakai route mana pun → tidak di-clone
+        const permissions = source.permissions
+            .filter((p) => isRegisteredPermission(p.resource, p.action))
+            .map(({ resource, action }) => ({ resource, action }));
+
+        return this.create({
+            name,
+            description:
+                description !== undefined ? description : source.description,
+            permissions,
+            requireTwoFactor: source.requireTwoFactor,
+            createdBy,
+            ipAddress,
+            userAgent,
+        });
+    }
+
+    /**
+     * Bandingkan permission dua role
+     * @param baseId - ID role pembanding pertama
+     * @param compareId - ID role pembanding kedua
+     * @returns Permission yang hanya ada di salah satu role dan yang sama
+     */
+    async diff(baseId: string, compareId: string): Promise<RolePermissionDiff> {
+        const [base, compare] = await Promise.all([
+            this.prisma.role.findUnique({
+                where: { id: baseId },
+                include: { permissions: true },
+            }),
+            this.prisma.role.findUnique({
+                where: { id: compareId },
+                include: { permissions: true },
+            }),
+        ]);
+        if (!base || !compare) {
+            throw new Error("Role not found");
+        }
+
+        const toKey = (p: PermissionInput) => `${p.resource}:${p.action}`;
+        const sortPermissions = (permissions: PermissionInput[]) =>
+            permissions
+                .map(({ resource, action }) => ({ resource, action }))
+                .sort((a, b) => toKey(a).localeCompare(toKey(b)));
+
+        const baseKeys = new Set(base.permissions.map(toKey));
+        const compareKeys = new Set(compare.permissions.map(toKey));
+
+        return {
+            base: { id: base.id, name: base.name },
+            compare: { id: compare.id, name: compare.name },
+            onlyInBase: sortPermissions(
+                base.permissions.filter((p) => !compareKeys.has(toKey(p)))
+            ),
+            onlyInCompare: sortPermissions(
+                compare.permissions.filter((p) => !baseKeys.has(toKey(p)))
+            ),
+            common: sortPermissions(
+                base.permissions.filter((p) => compareKeys.has(toKey(p)))
+            ),
+        };
+    }
+
     /**
      * Soft delete role
      * @param input - Data delete
@@ -357,6 +607,7 @@ export class RoleService {
             where: { id },
             data: { deletedAt: new Date() },
         });
+        this.permissionCacheService.invalidate(id);
 
         await this.auditService.log({
             userId: deletedBy,
@@ -397,6 +648,7 @@ export class RoleService {
         }
 
         await this.prisma.role.delete({ where: { id } });
+        this.permissionCacheService.invalidate(id);
 
         await this.auditService.log({
             userId: deletedBy,
@@ -409,4 +661,68 @@ export class RoleService {
             userAgent,
         });
     }
+
+    // Helper methods
+    /**
+     * Validasi & deduplikasi permission terhadap registry
+     * @param permissions - Permission dari input
+     * @param existing - Permission milik role (lolos tanpa cek registry)
+     */
+    private normalizePermissions(
+        permissions: PermissionInput[],
+        existing: PermissionInput[] = []
+    ): PermissionInput[] {
+        if (!Array.isArray(permissions)) {
+            throw new Error("Permissions must be an array");
+        }
+
+        const normalized = new Map<string, PermissionInput>();
+        const unknown: string[] = [];
+        const existingKeys = new Set(
+            existing.map((p) => `${p.resource}:${p.action}`)
+        );
+
+        for (const permission of permissions) {
+            if (
+                !permission ||
+                typeof permission.resource !== "string" ||
+                typeof permission.action !== "string"
+            ) {
+                throw new Error(
+                    "Each permission must have a resource and action"
+                );
+            }
+
+            const resource = permission.resource.trim();
+            const action = permission.action.trim();
+            if (
+                !isRegisteredPermission(resource, action) &&
+                !existingKeys.has(`${resource}:${action}`)
+            ) {
+                unknown.push(`${resource}:${action}`);
+                continue;
+            }
+            normalized.set(`${resource}:${action}`, { resource, action });
+        }
+
+        if (unknown.length > 0) {
+            throw new Error(`Unknown permissions: ${unknown.join(", ")}`);
+        }
+
+        return Array.from(normalized.values());
+    }
+
+    private scopeAllows(
+        scopes: PermissionInput[],
+        resource: string,
+        action: string
+    ): boolean {
+        return scopes.some(
+            (scope) =>
+                scope.resource === resource &&
+                (scope.action === action ||
+                    scope.action === MANAGE_ACTION ||
+                    toOwnAction(scope.action) === action)
+        );
+    }
 }
@@ -0,0 +1,648 @@
+/**
+ * @file SearchService – Pencarian full-text terpadu (produk, blog, brand)
+ * @description
+ * Layanan pencarian lintas konten untuk `GET /api/search`:
+ * - Produk: nama + terjemahan (deskripsi, meta keywords) sesuai bahasa
+ * - Blog: judul, excerpt, dan konten terjemahan sesuai bahasa (hanya yang terbit)
+ * - Brand: nama brand aktif
+ *
+ * Mekanisme:
+ * - MySQL FULLTEXT (`MATCH ... AGAINST` BOOLEAN MODE, prefix match `kata*`)
+ * - Skor dinormalisasi per tipe lalu digabung; judul yang memuat seluruh query diberi bonus
+ * - Fallback trigram (toleransi typo) untuk tipe tanpa hasil full-text;
+ *   hasil fuzzy selalu diurutkan setelah hasil full-text
+ * - Kandidat fuzzy disaring dulu di SQL (`LIKE` per trigram query) dan
+ *   dibatasi `FUZZY_CANDIDATE_LIMIT` baris per tipe
+ * - `meta.counts` berisi total kecocokan per tipe (bukan jumlah yang dikembalikan)
+ * - Snippet dengan highlight `<mark>` (teks di-escape sebelum di-highlight)
+ *
+ * @security
+ * - Query pengguna selalu dikirim sebagai parameter (`$queryRaw` tagged template)
+ * - Operator BOOLEAN MODE dibuang dari input sebelum dipakai
+ * - Panjang query tidak valid dilempar sebagai `SearchQueryError`
+ * - Hanya konten publik (aktif, terbit, tidak terhapus) yang dikembalikan
+ *
+ * @usage
+ * const searchService = new SearchService(prisma);
+ *
+ * const result = await searchService.search({
+ *   q: 'inverter',
+ *   lang: 'EN',
+ *   types: ['product', 'blog']
+ * });
+ *
+ * @dependencies
+ * - `@prisma/client`
+ */
+
+import { Language, PrismaClient } from "@prisma/client";
+
+export const SEARCH_TYPES = ["product", "blog", "brand"] as const;
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+export interface SearchOptions {
+    q: string;
+    lang?: Language;
+    types?: SearchType[];
+    limit?: number;
+}
+
+export interface SearchResultItem {
+    type: SearchType;
+    id: string;
+    slug: string;
+    title: string;
+    image: string | null;
+    score: number;
+    matchType: "fulltext" | "fuzzy";
+    highlight: {
+        title: string;
+        snippet: string | null;
+    };
+}
+
+export interface SearchResult {
+    data: SearchResultItem[];
+    meta: {
+        q: string;
+        lang: Language;
+        types: SearchType[];
+        total: number;
+        counts: Record<SearchType, number>;
+    };
+}
+
+interface TypeSearchResult {
+    items: SearchResultItem[];
+    total: number;
+}
+
+interface SearchCandidate {
+    id: string;
+    slug: string;
+    title: string;
+    image: string | null;
+    text: string | null;
+    score: number;
+}
+
+export const SEARCH_QUERY_MIN_LENGTH = 2;
+export const SEARCH_QUERY_MAX_LENGTH = 100;
+export const SEARCH_MAX_LIMIT = 50;
+
+/**
+ * Error khusus agar controller dapat merespons 400 untuk query yang tidak
+ * valid (error lain, misal database/index FULLTEXT, tetap 500)
+ */
+export class SearchQueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SearchQueryError";
+    }
+}
+
+const TRIGRAM_THRESHOLD = 0.3;
+const FUZZY_SCORE_WEIGHT = 0.5;
+const TITLE_MATCH_BONUS = 0.5;
+const SNIPPET_LENGTH = 160;
+const FUZZY_CANDIDATE_LIMIT = 200;
+const FUZZY_PATTERN_LIMIT = 12;
+
+export class SearchService {
+    constructor(private prisma: PrismaClient) {}
+
+    /**
+     * Cari konten lintas tipe dan urutkan berdasarkan relevansi
+     * @param options - Query, bahasa, tipe, dan batas hasil
+     * @returns Hasil terurut beserta total kecocokan per tipe
+     */
+    async search(options: SearchOptions): Promise<SearchResult> {
+        const q = options.q.trim().replace(/\s+/g, " ");
+        const lang = options.lang ?? Language.ID;
+        const types = options.types?.length ? options.types : [...SEARCH_TYPES];
+        const limit = Math.min(
+            Math.max(options.limit ?? 20, 1),
+            SEARCH_MAX_LIMIT
+        );
+
+        if (q.length < SEARCH_QUERY_MIN_LENGTH) {
+            throw new SearchQueryError(
+                `Search query must be at least ${SEARCH_QUERY_MIN_LENGTH} characters`
+            );
+        }
+        if (q.length > SEARCH_QUERY_MAX_LENGTH) {
+            throw new SearchQueryError(
+                `Search query must be at most ${SEARCH_QUERY_MAX_LENGTH} characters`
+            );
+        }
+
+        const terms = this.extractTerms(q);
+        const booleanQuery = terms.map((term) => `${term}*`).join(" ");
+
+        const perType = await Promise.all(
+            types.map((type) =>
+                this.searchType(type, q, terms, booleanQuery, lang, limit)
+            )
+        );
+
+        const counts = { product: 0, blog: 0, brand: 0 };
+        perType.forEach((result, index) => {
+            counts[types[index]] = result.total;
+        });
+
+        const data = perType
+            .flatMap((result) => result.items)
+            .sort((a, b) => {
+                if (a.matchType !== b.matchType) {
+                    return a.matchType === "fulltext" ? -1 : 1;
+                }
+                return b.score - a.score;
+            })
+            .slice(0, limit);
+
+        return {
+            data,
+            meta: { q, lang, types, total: data.length, counts },
+        };
+    }
+
+    // Helper methods
+    private async searchType(
+        type: SearchType,
+        q: string,
+        terms: string[],
+        booleanQuery: string,
+        lang: Language,
+        limit: number
+    ): Promise<TypeSearchResult> {
+        // Query tanpa kata yang bisa dipakai full-text → langsung fuzzy
+        const [candidates, total] = booleanQuery
+            ? await Promise.all([
+                  this.fullTextCandidates(type, booleanQuery, lang, limit),
+                  this.fullTextCount(type, booleanQuery, lang),
+              ])
+            : [[], 0];
+
+        if (candidates.length > 0) {
+            const maxScore = Math.max(...candidates.map((c) => c.score));
+            const items = candidates.map((candidate) => {
+                const titleBonus = candidate.title
+                    .toLowerCase()
+                    .includes(q.toLowerCase())
+                    ? TITLE_MATCH_BONUS
+                    : 0;
+                return this.toResultItem(
+                    type,
+                    candidate,
+                    (maxScore > 0 ? candidate.score / maxScore : 0) +
+                        titleBonus,
+                    "fulltext",
+                    terms
+                );
+            });
+            return { items, total };
+        }
+
+        // Fallback trigram untuk salah ketik
+        const fuzzy = await this.fuzzyCandidates(type, q, lang);
+        const items = fuzzy
+            .slice(0, limit)
+            .map((candidate) =>
+                this.toResultItem(
+                    type,
+                    candidate,
+                    candidate.score * FUZZY_SCORE_WEIGHT,
+                    "fuzzy",
+                    []
+                )
+            );
+        return { items, total: fuzzy.length };
+    }
+
+    private async fullTextCandidates(
+        type: SearchType,
+        booleanQuery: string,
+        lang: Language,
+        limit: number
+    ): Promise<SearchCandidate[]> {
+        switch (type) {
+            case "product": {
+                const rows = await this.prisma.$queryRaw<
+                    {
+                        id: string;
+                        slug: string;
+                        name: string;
+                        images: unknown;
+                        shortDescription: string | null;
+                        longDescription: string | null;
+                        score: number;
+                    }[]
+                >`
+                    SELECT p.id, p.slug, p.name, p.images,
+                        t.shortDescription, t.longDescription,
+                        (MATCH(p.name) AGAINST (${booleanQuery} IN BOOLEAN MODE) * 2
+                            + COALESCE(MATCH(t.shortDescription, t.longDescription, t.metaKeywords)
+                                AGAINST (${booleanQuery} IN BOOLEAN MODE), 0)) AS score
+                    FROM products p
+                    LEFT JOIN product_translations t
+                        ON t.productId = p.id AND t.language = ${lang}
+                    WHERE p.deletedAt IS NULL
+                        AND p.isActive = TRUE
+                        AND (MATCH(p.name) AGAINST (${booleanQuery} IN BOOLEAN MODE)
+                            OR MATCH(t.shortDescription, t.longDescription, t.metaKeywords)
+                                AGAINST (${booleanQuery} IN BOOLEAN MODE))
+                    ORDER BY score DESC
+                    LIMIT ${limit}
+                `;
+                return rows.map((row) => ({
+                    id: row.id,
+                    slug: row.slug,
+                    title: row.name,
+                    image: this.firstImage(row.images),
+                    text: row.shortDescription || row.longDescription,
+                    score: Number(row.score),
+                }));
+            }
+            case "blog": {
+                const rows = await this.prisma.$queryRaw<
+                    {
+                        id: string;
+                        slug: string;
+                        image: string | null;
+                        title: string;
+                        excerpt: string | null;
+                        content: string;
+                        score: number;
+                    }[]
+                >`
+                    SELECT b.id, b.slug, b.image, t.title, t.excerpt, t.content,
+                        MATCH(t.title, t.excerpt, t.content)
+                            AGAINST (${booleanQuery} IN BOOLEAN MODE) AS score
+                    FROM blogs b
+                    INNER JOIN blog_translations t
+                        ON t.blogId = b.id AND t.language = ${lang}
+                    WHERE b.deletedAt IS NULL
+                        AND b.isPublished = TRUE
+                        AND MATCH(t.title, t.excerpt, t.content)
+                            AGAINST (${booleanQuery} IN BOOLEAN MODE)
+                    ORDER BY score DESC
+                    LIMIT ${limit}
+                `;
+                return rows.map((row) => ({
+                    id: row.id,
+                    slug: row.slug,
+                    title: row.title,
+                    image: row.image,
+                    text: `${row.excerpt ?? ""} ${row.content}`,
+                    score: Number(row.score),
+                }));
+            }
+            case "brand": {
+                const rows = await this.prisma.$queryRaw<
+                    {
+                        id: string;
+                        slug: string;
+                        name: string;
+                        logo: string | null;
+                        score: number;
+                    }[]
+                >`
+                    SELECT id, slug, name, logo,
+                        MATCH(name) AGAINST (${booleanQuery} IN BOOLEAN MODE) AS score
+                    FROM brands
+                    WHERE deletedAt IS NULL
+                        AND isActive = TRUE
+                        AND MATCH(name) AGAINST (${booleanQuery} IN BOOLEAN MODE)
+                    ORDER BY score DESC
+                    LIMIT ${limit}
+                `;
+                return rows.map((row) => ({
+                    id: row.id,
+                    slug: row.slug,
+                    title: row.name,
+                    image: row.logo,
+                    text: null,
+                    score: Number(row.score),
+                }));
+            }
+        }
+    }
+
+    /**
+     * Hitung seluruh kecocokan full-text (tanpa batas `limit`)
+     */
+    private async fullTextCount(
+        type: SearchType,
+        booleanQuery: string,
+        lang: Language
+    ): Promise<number> {
+        let rows: { total: bigint }[];
+
+        switch (type) {
+            case "product":
+                rows = await this.prisma.$queryRaw<{ total: bigint }[]>`
+                    SELECT COUNT(*) AS total
+                    FROM products p
+                    LEFT JOIN product_translations t
+                        ON t.productId = p.id AND t.language = ${lang}
+                    WHERE p.deletedAt IS NULL
+                        AND p.isActive = TRUE
+                        AND (MATCH(p.name) AGAINST (${booleanQuery} IN BOOLEAN MODE)
+                            OR MATCH(t.shortDescription, t.longDescription, t.metaKeywords)
+                                AGAINST (${booleanQuery} IN BOOLEAN MODE))
+                `;
+                break;
+            case "blog":
+                rows = await this.prisma.$queryRaw<{ total: bigint }[]>`
+                    SELECT COUNT(*) AS total
+                    FROM blogs b
+                    INNER JOIN blog_translations t
+                        ON t.blogId = b.id AND t.language = ${lang}
+                    WHERE b.deletedAt IS NULL
+                        AND b.isPublished = TRUE
+                        AND MATCH(t.title, t.excerpt, t.content)
+                            AGAINST (${booleanQuery} IN BOOLEAN MODE)
+                `;
+                break;
+            case "brand":
+                rows = await this.prisma.$queryRaw<{ total: bigint }[]>`
+                    SELECT COUNT(*) AS total
+                    FROM brands
+                    WHERE deletedAt IS NULL
+                        AND isActive = TRUE
+                        AND MATCH(name) AGAINST (${booleanQuery} IN BOOLEAN MODE)
+                `;
+                break;
+        }
+
+        return Number(rows[0]?.total ?? 0);
+    }
+
+    /**
+     * Kandidat fuzzy: bandingkan trigram query dengan judul konten publik.
+     * Judul disaring dulu di SQL (memuat minimal satu trigram query) dan
+     * dibatasi `FUZZY_CANDIDATE_LIMIT` baris, jadi total fuzzy dihitung
+     * dari kumpulan kandidat tersebut
+     * @returns Seluruh kandidat di atas ambang, terurut dari skor tertinggi
+     */
+    private async fuzzyCandidates(
+        type: SearchType,
+        q: string,
+        lang: Language
+    ): Promise<SearchCandidate[]> {
+        const patterns = this.fuzzyPatterns(q);
+        if (patterns.length === 0) return [];
+
+        let candidates: Omit<SearchCandidate, "score">[];
+
+        switch (type) {
+            case "product": {
+                const products = await this.prisma.product.findMany({
+                    where: {
+                        deletedAt: null,
+                        isActive: true,
+                        OR: patterns.map((pattern) => ({
+                            name: { contains: pattern },
+                        })),
+                    },
+                    select: {
+                        id: true,
+                        slug: true,
+                        name: true,
+                        images: true,
+                        translations: {
+                            where: { language: lang },
+                            select: { shortDescription: true },
+                        },
+                    },
+                    orderBy: { name: "asc" },
+                    take: FUZZY_CANDIDATE_LIMIT,
+                });
+                candidates = products.map((p) => ({
+                    id: p.id,
+                    slug: p.slug,
+                    title: p.name,
+                    image: this.firstImage(p.images),
+                    text: p.translations[0]?.shortDescription ?? null,
+                }));
+                break;
+            }
+            case "blog": {
+                const translations = await this.prisma.blogTranslation.findMany(
+                    {
+                        where: {
+                            language: lang,
+                            blog: { deletedAt: null, isPublished: true },
+                            OR: patterns.map((pattern) => ({
+                                title: { contains: pattern },
+                            })),
+                        },
+                        select: {
+                            title: true,
+                            excerpt: true,
+                            blog: {
+                                select: { id: true, slug: true, image: true },
+                            },
+                        },
+                        orderBy: { title: "asc" },
+                        take: FUZZY_CANDIDATE_LIMIT,
+                    }
+                );
+                candidates = translations.map((t) => ({
+                    id: t.blog.id,
+                    slug: t.blog.slug,
+                    title: t.title,
+                    image: t.blog.image,
+                    text: t.excerpt,
+                }));
+                break;
+            }
+            case "brand": {
+                const brands = await this.prisma.brand.findMany({
+                    where: {
+                        deletedAt: null,
+                        isActive: true,
+                        OR: patterns.map((pattern) => ({
+                            name: { contains: pattern },
+                        })),
+                    },
+                    select: { id: true, slug: true, name: true, logo: true },
+                    orderBy: { name: "asc" },
+                    take: FUZZY_CANDIDATE_LIMIT,
+                });
+                candidates = brands.map((b) => ({
+                    id: b.id,
+                    slug: b.slug,
+                    title: b.name,
+                    image: b.logo,
+                    text: null,
+                }));
+                break;
+            }
+        }
+
+        return candidates
+            .map((candidate) => ({
+                ...candidate,
+                score: this.trigramSimilarity(q, candidate.title),
+            }))
+            .filter((candidate) => candidate.score >= TRIGRAM_THRESHOLD)
+            .sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Pola `LIKE` untuk pra-saring fuzzy: trigram tiap kata query (kata
+     * pendek dipakai utuh), dibatasi `FUZZY_PATTERN_LIMIT` pola
+     */
+    private fuzzyPatterns(q: string): string[] {
+        const patterns = new Set<string>();
+        const words = q
+            .toLowerCase()
+            .replace(/[^\p{L}\p{N}]+/gu, " ")
+            .split(" ")
+            .filter(Boolean);
+
+        for (const word of words) {
+            if (word.length <= 3) {
+                patterns.add(word);
+                continue;
+            }
+            for (let i = 0; i <= word.length - 3; i++) {
+                patterns.add(word.slice(i, i + 3));
+            }
+        }
+        return Array.from(patterns).slice(0, FUZZY_PATTERN_LIMIT);
+    }
+
+    private toResultItem(
+        type: SearchType,
+        candidate: SearchCandidate,
+        score: number,
+        matchType: SearchResultItem["matchType"],
+        terms: string[]
+    ): SearchResultItem {
+        return {
+            type,
+            id: candidate.id,
+            slug: candidate.slug,
+            title: candidate.title,
+            image: candidate.image,
+            score: Math.round(score * 1000) / 1000,
+            matchType,
+            highlight: {
+                title: this.highlight(this.escapeHtml(candidate.title), terms),
+                snippet: candidate.text
+                    ? this.buildSnippet(candidate.text, terms)
+                    : null,
+            },
+        };
+    }
+
+    /**
+     * Pecah query menjadi kata yang aman untuk BOOLEAN MODE
+     * (operator `+-<>()~*"@` dan kata < 2 karakter dibuang)
+     */
+    private extractTerms(q: string): string[] {
+        const terms = q
+            .toLowerCase()
+            .replace(/[+\-<>()~*"@]/g, " ")
+            .split(/\s+/)
+            .filter((term) => term.length >= 2);
+        return Array.from(new Set(terms));
+    }
+
+    /**
+     * Potong teks di sekitar kata pertama yang cocok lalu beri highlight
+     */
+    private buildSnippet(text: string, terms: string[]): string {
+        const plain = text
+            .replace(/<[^>]*>/g, " ")
+            .replace(/\s+/g, " ")
+            .trim();
+        const lower = plain.toLowerCase();
+
+        const positions = terms
+            .map((term) => lower.indexOf(term))
+            .filter((index) => index >= 0);
+        const firstMatch = positions.length > 0 ? Math.min(...positions) : 0;
+
+        const start = Math.max(0, firstMatch - SNIPPET_LENGTH / 4);
+        const end = Math.min(plain.length, start + SNIPPET_LENGTH);
+        const snippet =
+            (start > 0 ? "…" : "") +
+            this.escapeHtml(plain.slice(start, end)) +
+            (end < plain.length ? "…" : "");
+
+        return this.highlight(snippet, terms);
+    }
+
+    private highlight(escapedText: string, terms: string[]): string {
+        if (terms.length === 0) return escapedText;
+
+        const pattern = terms
+            .map((term) =>
+                this.escapeHtml(term).replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+            )
+            .sort((a, b) => b.length - a.length)
+            .join("|");
+
+        return escapedText.replace(
+            new RegExp(`(${pattern})`, "gi"),
+            "<mark>$1</mark>"
+        );
+    }
+
+    /**
+     * Kemiripan trigram (gaya pg_trgm): query dibandingkan dengan seluruh judul
+     * dan dengan tiap kata judul, diambil nilai tertinggi
+     */
+    private trigramSimilarity(query: string, title: string): number {
+        const queryTrigrams = this.trigrams(query);
+        const candidates = [title, ...title.split(/\s+/)];
+
+        return Math.max(
+            ...candidates.map((candidate) => {
+                const candidateTrigrams = this.trigrams(candidate);
+                let shared = 0;
+                for (const trigram of queryTrigrams) {
+                    if (candidateTrigrams.has(trigram)) shared++;
+                }
+                const union =
+                    queryTrigrams.size + candidateTrigrams.size - shared;
+                return union > 0 ? shared / union : 0;
+            })
+        );
+    }
+
+    private trigrams(value: string): Set<string> {
+        const result = new Set<string>();
+        const words = value
+            .toLowerCase()
+            .replace(/[^\p{L}\p{N}]+/gu, " ")
+            .split(" ")
+            .filter(Boolean);
+
+        for (const word of words) {
+            const padded = `  ${word} `;
+            for (let i = 0; i < padded.length - 2; i++) {
+                result.add(padded.slice(i, i + 3));
+            }
+        }
+        return result;
+    }
+
+    private firstImage(images: unknown): string | null {
+        return Array.isArray(images) && typeof images[0] === "string"
+            ? images[0]
+            : null;
+    }
+
+    private escapeHtml(value: string): string {
+        return value
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;")
+            .replace(/'/g, "&#39;");
+    }
+}
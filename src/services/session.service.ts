@@ -0,0 +1,275 @@
+/**
+ * @file SessionService – Manajemen sesi perangkat pengguna
+ * @description
+ * Layanan untuk mengelola sesi login per perangkat:
+ * - Membuat sesi baru saat login (satu sesi per perangkat/browser)
+ * - Daftar sesi aktif milik pengguna
+ * - Revoke satu sesi atau semua sesi lain selain sesi saat ini
+ *
+ * @security
+ * - Refresh token tidak disimpan mentah di tabel sesi, hanya keyed hash (HMAC)
+ * - Hash diperbarui setiap rotasi refresh token
+ * - Revoke sesi juga me-revoke semua token yang terikat ke sesi tersebut
+ * - Pengguna hanya dapat melihat & me-revoke sesi miliknya sendiri
+ *
+ * @usage
+ * const sessionService = new SessionService(prisma, auditService, tokenService);
+ *
+ * const sessions = await sessionService.listActive(userId, currentSessionId);
+ * await sessionService.revoke(userId, sessionId, ip, ua);
+ *
+ * @dependencies
+ * - `@prisma/client`
+ * - `AuditService`, `TokenService`
+ */
+
+import { Prisma, PrismaClient } from "@prisma/client";
+import { AuditService } from "./audit.service";
+import { TokenService } from "./token.service";
+
+export interface CreateSessionInput {
+    userId: string;
+    refreshToken: string;
+    expiresAt: Date;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface SessionInfo {
+    id: string;
+    ipAddress: string | null;
+    userAgent: string | null;
+    createdAt: Date;
+    lastActiveAt: Date;
+    expiresAt: Date;
+    isCurrent: boolean;
+}
+
+type PrismaTx = PrismaClient | Prisma.TransactionClient;
+
+export class SessionService {
+    constructor(
+        private prisma: PrismaClient,
+        private auditService: AuditService,
+        private tokenService: TokenService
+    ) {}
+
+    /**
+     * Buat sesi baru untuk perangkat yang login
+     * @param input - Data sesi
+     * @param tx - Prisma client/transaksi (opsional)
+     * @returns Sesi yang dibuat
+     */
+    async create(input: CreateSessionInput, tx: PrismaTx = this.prisma) {
+        return tx.session.create({
+            data: {
+                userId: input.userId,
+                tokenHash: this.tokenService.hash(input.refreshToken),
+                ipAddress: input.ipAddress || null,
+                userAgent: input.userAgent || null,
+                expiresAt: input.expiresAt,
+            },
+        });
+    }
+
+    /**
+     * Ambil sesi aktif (belum direvoke & belum kadaluarsa)
+     * @param sessionId - ID sesi
+     * @returns Sesi atau null jika tidak aktif
+     */
+    async findActive(sessionId: string) {
+        return this.prisma.session.findFirst({
+            where: {
+                id: sessionId,
+                revokedAt: null,
+                expiresAt: { gt: new Date() },
+            },
+        });
+    }
+
+    /**
+     * Tandai aktivitas terakhir sesi (dipanggil saat refresh token)
+     * @param sessionId - ID sesi
+     * @param ipAddress - IP terbaru perangkat
+     * @param userAgent - User agent terbaru perangkat
+     */
+    async touch(
+        sessionId: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        await this.prisma.session.update({
+            where: { id: sessionId },
+            data: {
+                lastActiveAt: new Date(),
+                ...(ipAddress ? { ipAddress } : {}),
+                ...(userAgent ? { userAgent } : {}),
+            },
+        });
+    }
+
+    /**
+     * Ganti hash refresh token sesi setelah rotasi
+     * @param sessionId - ID sesi
+     * @param refreshToken - Refresh token baru
+     * @param expiresAt - Waktu kadaluarsa baru
+     * @param tx - Prisma client/transaksi (opsional)
+     */
+    async rotate(
+        sessionId: string,
+        refreshToken: string,
+        expiresAt: Date,
+        tx: PrismaTx = this.prisma
+    ): Promise<void> {
+        await tx.session.update({
+            where: { id: sessionId },
+            data: {
+                tokenHash: this.tokenService.hash(refreshToken),
+                expiresAt,
+            },
+        });
+    }
+
+    /**
+     * Revoke sesi tanpa audit (dipakai internal, misal saat deteksi token reuse)
+     * @param sessionId - ID sesi
+     */
+    async invalidate(sessionId: string): Promise<void> {
+        await this.revokeMany([sessionId]);
+    }
+
+    /**
+     * Daftar sesi aktif milik pengguna
+     * @param userId - ID pengguna
+     * @param currentSessionId - ID sesi dari request saat ini (untuk flag `isCurrent`)
+     * @returns Daftar sesi, terbaru lebih dulu
+     */
+    async listActive(
+        userId: string,
+        currentSessionId?: string
+    ): Promise<SessionInfo[]> {
+        const sessions = await this.prisma.session.findMany({
+            where: {
+                userId,
+                revokedAt: null,
+                expiresAt: { gt: new Date() },
+            },
+            orderBy: { lastActiveAt: "desc" },
+        });
+
+        return sessions.map((session) => ({
+            id: session.id,
+            ipAddress: session.ipAddress,
+            userAgent: session.userAgent,
+            createdAt: session.createdAt,
+            lastActiveAt: session.lastActiveAt,
+            expiresAt: session.expiresAt,
+            isCurrent: session.id === currentSessionId,
+        }));
+    }
+
+    /**
+     * Revoke satu sesi milik pengguna
+     * @param userId - ID pengguna pemilik sesi
+     * @param sessionId - ID sesi yang akan direvoke
+     * @param ipAddress - IP address untuk audit
+     * @param userAgent - User agent untuk audit
+     */
+    async revoke(
+        userId: string,
+        sessionId: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        const session = await this.prisma.session.findFirst({
+            where: { id: sessionId, userId, revokedAt: null },
+        });
+
+        if (!session) {
+            throw new Error("Session not found");
+        }
+
+        await this.revokeMany([session.id]);
+
+        await this.auditService.log({
+            userId,
+            action: "REVOKE_SESSION",
+            tableName: "Session",
+            recordId: session.id,
+            oldValues: {
+                ipAddress: session.ipAddress,
+                userAgent: session.userAgent,
+            },
+            details: "User session revoked",
+            ipAddress,
+            userAgent,
+        });
+    }
+
+    /**
+     * Revoke semua sesi pengguna kecuali sesi saat ini
+     * @param userId - ID pengguna
+     * @param currentSessionId - ID sesi yang dipertahankan
+     * @param ipAddress - IP address untuk audit
+     * @param userAgent - User agent untuk audit
+     * @returns Jumlah sesi yang direvoke
+     */
+    async revokeOthers(
+        userId: string,
+        currentSessionId: string | undefined,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<number> {
+        const sessions = await this.prisma.session.findMany({
+            where: {
+                userId,
+                revokedAt: null,
+                ...(currentSessionId ? { NOT: { id: currentSessionId } } : {}),
+            },
+            select: { id: true },
+        });
+
+        const ids = sessions.map((s) => s.id);
+        if (ids.length === 0) return 0;
+
+        await this.revokeMany(ids);
+
+        await this.auditService.log({
+            userId,
+            action: "REVOKE_OTHER_SESSIONS",
+            tableName: "Session",
+            recordId: currentSessionId,
+            newValues: { revokedSessionIds: ids },
+            details: `${ids.length} other session(s) revoked`,
+            ipAddress,
+            userAgent,
+        });
+
+        return ids.length;
+    }
+
+    /**
+     * Revoke semua sesi pengguna (dipakai saat logout global / reset password)
+     * @param userId - ID pengguna
+     */
+    async revokeAll(userId: string): Promise<void> {
+        await this.prisma.session.updateMany({
+            where: { userId, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+    }
+
+    // Helper methods
+    private async revokeMany(sessionIds: string[]): Promise<void> {
+        await this.prisma.$transaction([
+            this.prisma.session.updateMany({
+                where: { id: { in: sessionIds } },
+                data: { revokedAt: new Date() },
+            }),
+            this.prisma.token.updateMany({
+                where: { sessionId: { in: sessionIds }, isRevoked: false },
+                data: { isRevoked: true },
+            }),
+        ]);
+    }
+}
@@ -2,7 +2,7 @@
  * @file SortOrderService – Manajemen sortOrder untuk entitas berurut
  * @description
  * Layanan untuk mengelola logika pengurutan (sortOrder) pada entitas seperti:
- * - Brand, Product, Category, Blog
+ * - Brand, Product, Category, Blog, ProductRelation
  *
  * Mendukung:
  * - Perhitungan sortOrder otomatis (auto-increment)
@@ -33,7 +33,12 @@ import { Prisma, PrismaClient } from "@prisma/client";
 
 type PrismaExecutor = PrismaClient | Prisma.TransactionClient;
 
-export type SortOrderModel = "brand" | "product" | "category" | "blog";
+export type SortOrderModel =
+    | "brand"
+    | "product"
+    | "category"
+    | "blog"
+    | "productRelation";
 
 interface CalculateOptions {
     model: SortOrderModel;
@@ -58,6 +63,7 @@ export class SortOrderService {
             brand: prisma.brand,
             category: prisma.category,
             blog: prisma.blog,
+            productRelation: prisma.productRelation,
         };
     }
 
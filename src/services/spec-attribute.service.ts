@@ -0,0 +1,808 @@
+/**
+ * @file SpecAttributeService – Atribut spesifikasi produk bertipe per kategori
+ * @description
+ * Layanan untuk spesifikasi terstruktur produk (misal: tegangan, rating, kelas IP):
+ * - CRUD definisi atribut per kategori (tipe NUMBER/TEXT/BOOLEAN, satuan, pilihan nilai)
+ * - Atribut kategori induk berlaku juga untuk produk di sub-kategorinya
+ * - Validasi & penyimpanan nilai spesifikasi produk
+ * - Filter produk (`spec.<key>=...`), facet count, dan sorting berdasarkan atribut
+ *
+ * Format filter (query `GET /api/products`):
+ * - `spec.ip_class=IP65,IP67`  → salah satu nilai (TEXT/NUMBER/BOOLEAN)
+ * - `spec.voltage=200..400`    → rentang NUMBER (batas boleh kosong: `200..`, `..400`)
+ * - `sort=spec.voltage` / `sort=-spec.voltage` → urut naik/turun
+ *
+ * @security
+ * - Key atribut unik dalam satu rantai kategori (leluhur/turunan) dan bertipe konsisten
+ * - Key & tipe tidak bisa diubah setelah dibuat (nilai produk bergantung padanya)
+ * - Filter/sort yang tidak valid dilempar sebagai `SpecQueryError`
+ * - Semua operasi definisi atribut tercatat di audit log
+ *
+ * @usage
+ * const specAttributeService = new SpecAttributeService(prisma, auditService, categoryService);
+ *
+ * await specAttributeService.create({
+ *   categoryId: 'cat_123',
+ *   key: 'voltage',
+ *   label: 'Voltage',
+ *   type: 'NUMBER',
+ *   unit: 'V',
+ *   createdBy: 'usr_123'
+ * });
+ *
+ * const filters = await specAttributeService.parseFilters({ voltage: '200..400' });
+ *
+ * @dependencies
+ * - `@prisma/client`
+ * - `AuditService`, `CategoryService`
+ */
+
+import {
+    Prisma,
+    PrismaClient,
+    SpecAttribute,
+    SpecAttributeType,
+} from "@prisma/client";
+import { AuditService } from "./audit.service";
+import { CategoryService } from "./category.service";
+
+type PrismaExecutor = PrismaClient | Prisma.TransactionClient;
+
+type SpecValueColumn = "numberValue" | "textValue" | "booleanValue";
+
+export type SpecScalar = number | string | boolean;
+
+export const SPEC_QUERY_PREFIX = "spec.";
+
+export interface CreateSpecAttributeInput {
+    categoryId: string;
+    key: string;
+    label: string;
+    type: SpecAttributeType;
+    unit?: string | null;
+    options?: string[] | null;
+    isFilterable?: boolean;
+    sortOrder?: number;
+    createdBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface UpdateSpecAttributeInput {
+    id: string;
+    label: string;
+    unit?: string | null;
+    options?: string[] | null;
+    isFilterable?: boolean;
+    sortOrder?: number;
+    updatedBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+export interface DeleteSpecAttributeInput {
+    id: string;
+    deletedBy: string;
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+/** Nilai spesifikasi produk: key atribut → nilai (null = hapus) */
+export type SpecValuesInput = Record<string, unknown>;
+
+export interface ResolvedSpecValue {
+    attributeId: string;
+    numberValue: number | null;
+    textValue: string | null;
+    booleanValue: boolean | null;
+}
+
+export interface SpecFilter {
+    key: string;
+    type: SpecAttributeType;
+    values?: SpecScalar[];
+    min?: number;
+    max?: number;
+}
+
+export interface SpecSort {
+    key: string;
+    direction: "asc" | "desc";
+}
+
+export interface SpecFacet {
+    key: string;
+    label: string;
+    type: SpecAttributeType;
+    unit: string | null;
+    values: { value: SpecScalar; count: number }[];
+    min?: number;
+    max?: number;
+}
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]{0,49}$/;
+
+const VALUE_COLUMNS: Record<SpecAttributeType, SpecValueColumn> = {
+    NUMBER: "numberValue",
+    TEXT: "textValue",
+    BOOLEAN: "booleanValue",
+};
+
+/**
+ * Error khusus agar controller dapat merespons 400 untuk filter/sort
+ * spesifikasi yang tidak valid (error lain tetap 500)
+ */
+export class SpecQueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "SpecQueryError";
+    }
+}
+
+export class SpecAttributeService {
+    constructor(
+        private prisma: PrismaClient,
+        private auditService: AuditService,
+        private categoryService: CategoryService
+    ) {}
+
+    /**
+     * Ambil daftar atribut spesifikasi
+     * @param options - `categoryId`: filter kategori, `inherited`: sertakan atribut kategori induk
+     * @returns Daftar atribut terurut berdasarkan sortOrder
+     */
+    async list(
+        options: { categoryId?: string; inherited?: boolean } = {}
+    ): Promise<SpecAttribute[]> {
+        const { categoryId, inherited = false } = options;
+
+        const where: Prisma.SpecAttributeWhereInput = {};
+        if (categoryId) {
+            where.categoryId = inherited
+                ? { in: await this.categoryService.getAncestorIds(categoryId) }
+                : categoryId;
+        }
+
+        return this.prisma.specAttribute.findMany({
+            where,
+            orderBy: [{ sortOrder: "asc" }, { label: "asc" }],
+        });
+    }
+
+    /**
+     * Ambil atribut berdasarkan ID
+     * @param id - ID atribut
+     * @returns Atribut
+     */
+    async findById(id: string) {
+        return this.prisma.specAttribute.findUnique({ where: { id } });
+    }
+
+    /**
+     * Buat atribut spesifikasi baru untuk kategori
+     * @param input - Data atribut
+     * @returns Atribut yang dibuat
+     */
+    async create(input: CreateSpecAttributeInput) {
+        const {
+            categoryId,
+            key,
+            label,
+            type,
+            unit = null,
+            options = null,
+            isFilterable = true,
+            sortOrder = 0,
+            createdBy,
+            ipAddress,
+            userAgent,
+        } = input;
+
+        if (!KEY_PATTERN.test(key)) {
+            throw new Error(
+                "Attribute key must start with a letter and contain only lowercase letters, digits and underscores"
+            );
+        }
+        if (!Object.values(SpecAttributeType).includes(type)) {
+            throw new Error("Invalid attribute type");
+        }
+
+        const category = await this.prisma.category.findUnique({
+            where: { id: categoryId, deletedAt: null },
+        });
+        if (!category) {
+            throw new Error("Category not found");
+        }
+
+        await this.assertKeyAvailable(categoryId, key, type);
+
+        const attribute = await this.prisma.specAttribute.create({
+            data: {
+                categoryId,
+                key,
+                label,
+                type,
+                unit,
+                options: this.normalizeOptions(type, options),
+                isFilterable,
+                sortOrder,
+            },
+        });
+
+        await this.auditService.log({
+            userId: createdBy,
+            action: "CREATE_SPEC_ATTRIBUTE",
+            tableName: "SpecAttribute",
+            recordId: attribute.id,
+            newValues: attribute,
+            details: `Specification attribute "${key}" created for category "${category.name}"`,
+            ipAddress,
+            userAgent,
+        });
+
+        return attribute;
+    }
+
+    /**
+     * Update atribut spesifikasi (key & tipe tidak bisa diubah)
+     * @param input - Data update
+     * @returns Atribut yang diupdate
+     */
+    async update(input: UpdateSpecAttributeInput) {
+        const {
+            id,
+            label,
+            unit,
+            options,
+            isFilterable,
+            sortOrder,
+            updatedBy,
+            ipAddress,
+            userAgent,
+        } = input;
+
+        const existing = await this.prisma.specAttribute.findUnique({
+            where: { id },
+        });
+        if (!existing) {
+            throw new Error("Specification attribute not found");
+        }
+
+        const normalizedOptions =
+            options === undefined
+                ? undefined
+                : this.normalizeOptions(existing.type, options);
+
+        // Pilihan baru harus tetap mencakup nilai yang sudah dipakai produk
+        if (Array.isArray(normalizedOptions)) {
+            const used = await this.prisma.productSpecValue.findFirst({
+                where: {
+                    attributeId: id,
+                    textValue: { notIn: normalizedOptions as string[] },
+                },
+            });
+            if (used) {
+                throw new Error(
+                    `Option "${used.textValue}" is still used by products`
+                );
+            }
+        }
+
+        const attribute = await this.prisma.specAttribute.update({
+            where: { id },
+            data: {
+                label,
+                unit,
+                options: normalizedOptions,
+                isFilterable,
+                sortOrder,
+            },
+        });
+
+        await this.auditService.log({
+            userId: updatedBy,
+            action: "UPDATE_SPEC_ATTRIBUTE",
+            tableName: "SpecAttribute",
+            recordId: id,
+            oldValues: existing,
+            newValues: attribute,
+            details: `Specification attribute "${existing.key}" updated`,
+            ipAddress,
+            userAgent,
+        });
+
+        return attribute;
+    }
+
+    /**
+     * Hapus atribut spesifikasi (permanen, termasuk nilai pada produk)
+     * @param input - Data delete
+     */
+    async delete(input: DeleteSpecAttributeInput) {
+        const { id, deletedBy, ipAddress, userAgent } = input;
+
+        const attribute = await this.prisma.specAttribute.findUnique({
+            where: { id },
+        });
+        if (!attribute) {
+            throw new Error("Specification attribute not found");
+        }
+
+        await this.prisma.specAttribute.delete({ where: { id } });
+
+        await this.auditService.log({
+            userId: deletedBy,
+            action: "DELETE_SPEC_ATTRIBUTE",
+            tableName: "SpecAttribute",
+            recordId: id,
+            oldValues: attribute,
+            details: `Specification attribute "${attribute.key}" deleted`,
+            ipAddress,
+            userAgent,
+        });
+
+        return { message: "Specification attribute deleted", id };
+    }
+
+    /**
+     * Validasi nilai spesifikasi produk terhadap atribut kategorinya
+     * @param categoryId - Kategori produk
+     * @param values - Nilai per key atribut (null/"" diabaikan)
+     * @returns Baris nilai siap simpan
+     */
+    async resolveValues(
+        categoryId: string,
+        values: SpecValuesInput
+    ): Promise<ResolvedSpecValue[]> {
+        const entries = await this.validateValues(categoryId, values);
+        return entries.map(({ attribute, value }) => ({
+            attributeId: attribute.id,
+            numberValue: typeof value === "number" ? value : null,
+            textValue: typeof value === "string" ? value : null,
+            booleanValue: typeof value === "boolean" ? value : null,
+        }));
+    }
+
+    /**
+     * Validasi nilai spesifikasi menjadi objek key → nilai bertipe
+     * (dipakai untuk spesifikasi varian yang disimpan sebagai JSON)
+     * @param categoryId - Kategori produk
+     * @param values - Nilai per key atribut (null/"" diabaikan)
+     * @returns Nilai ternormalisasi per key
+     */
+    async normalizeValues(
+        categoryId: string,
+        values: SpecValuesInput
+    ): Promise<Record<string, SpecScalar>> {
+        const entries = await this.validateValues(categoryId, values);
+        return Object.fromEntries(
+            entries.map(({ attribute, value }) => [attribute.key, value])
+        );
+    }
+
+    /**
+     * Ganti seluruh nilai spesifikasi produk
+     * @param tx - Prisma client / transaksi
+     * @param productId - ID produk
+     * @param values - Hasil `resolveValues`
+     */
+    async replaceValues(
+        tx: PrismaExecutor,
+        productId: string,
+        values: ResolvedSpecValue[]
+    ): Promise<void> {
+        await tx.productSpecValue.deleteMany({ where: { productId } });
+        if (values.length > 0) {
+            await tx.productSpecValue.createMany({
+                data: values.map((value) => ({ ...value, productId })),
+            });
+        }
+    }
+
+    /**
+     * Hapus nilai spesifikasi yang tidak berlaku lagi (setelah produk pindah kategori)
+     * @param tx - Prisma client / transaksi
+     * @param productId - ID produk
+     * @param categoryId - Kategori baru produk
+     */
+    async pruneValues(
+        tx: PrismaExecutor,
+        productId: string,
+        categoryId: string
+    ): Promise<void> {
+        const attributes = await this.list({ categoryId, inherited: true });
+        await tx.productSpecValue.deleteMany({
+            where: {
+                productId,
+                attributeId: { notIn: attributes.map((a) => a.id) },
+            },
+        });
+    }
+
+    /**
+     * Parse filter spesifikasi dari query (`spec.<key>` tanpa prefix)
+     * @param query - Key atribut → nilai filter mentah
+     * @returns Daftar filter bertipe
+     */
+    async parseFilters(query: Record<string, string>): Promise<SpecFilter[]> {
+        const keys = Object.keys(query);
+        if (keys.length === 0) return [];
+
+        const types = await this.getTypesByKey(keys);
+        const filters: SpecFilter[] = [];
+
+        for (const key of keys) {
+            const type = types.get(key);
+            if (!type) {
+                throw new SpecQueryError(
+                    `Unknown specification filter "${key}"`
+                );
+            }
+
+            const raw = query[key].trim();
+            if (!raw) continue;
+
+            // Rentang NUMBER: "min..max"
+            if (type === "NUMBER" && raw.includes("..")) {
+                const [minRaw, maxRaw] = raw.split("..");
+                const min = minRaw.trim() ? Number(minRaw) : undefined;
+                const max = maxRaw.trim() ? Number(maxRaw) : undefined;
+                if (
+                    (min !== undefined && !Number.isFinite(min)) ||
+                    (max !== undefined && !Number.isFinite(max))
+                ) {
+                    throw new SpecQueryError(
+                        `Invalid range for filter "${key}"`
+                    );
+                }
+                filters.push({ key, type, min, max });
+                continue;
+            }
+
+            const values = raw
+                .split(",")
+                .map((part) => part.trim())
+                .filter(Boolean)
+                .map((part) => this.parseScalar(type, part));
+            if (values.some((value) => value === null)) {
+                throw new SpecQueryError(`Invalid value for filter "${key}"`);
+            }
+            filters.push({ key, type, values: values as SpecScalar[] });
+        }
+
+        return filters;
+    }
+
+    /**
+     * Parse parameter sort atribut (`spec.<key>` atau `-spec.<key>`)
+     * @param sort - Nilai query `sort`
+     * @returns Sort atribut
+     */
+    async parseSort(sort: string): Promise<SpecSort> {
+        const direction = sort.startsWith("-") ? "desc" : "asc";
+        const field = sort.replace(/^-/, "");
+
+        if (!field.startsWith(SPEC_QUERY_PREFIX)) {
+            throw new SpecQueryError(`Unsupported sort field "${field}"`);
+        }
+
+        const key = field.slice(SPEC_QUERY_PREFIX.length);
+        const types = await this.getTypesByKey([key]);
+        if (!types.has(key)) {
+            throw new SpecQueryError(`Unknown specification sort "${key}"`);
+        }
+
+        return { key, direction };
+    }
+
+    /**
+     * Bangun kondisi where produk dari filter spesifikasi
+     * @param filters - Hasil `parseFilters`
+     * @returns Kondisi yang digabung dengan AND
+     */
+    buildWhere(filters: SpecFilter[]): Prisma.ProductWhereInput[] {
+        return filters.map((filter) => ({
+            specValues: {
+                some: {
+                    attribute: { key: filter.key },
+                    ...this.buildValueWhere(filter),
+                },
+            },
+        }));
+    }
+
+    /**
+     * Hitung facet spesifikasi untuk hasil pencarian saat ini
+     * - Tiap facet dihitung dengan semua filter kecuali filter miliknya sendiri,
+     *   sehingga pilihan lain pada atribut yang sama tetap terlihat
+     * - Facet tanpa nilai tidak dikembalikan
+     * @param productWhere - Filter produk selain spesifikasi
+     * @param filters - Filter spesifikasi aktif
+     * @param categoryIds - Kategori hasil pencarian (undefined = semua kategori)
+     * @returns Daftar facet
+     */
+    async getFacets(
+        productWhere: Prisma.ProductWhereInput,
+        filters: SpecFilter[],
+        categoryIds?: string[]
+    ): Promise<SpecFacet[]> {
+        const attributes = await this.prisma.specAttribute.findMany({
+            where: {
+                isFilterable: true,
+                ...(categoryIds ? { categoryId: { in: categoryIds } } : {}),
+            },
+            orderBy: [{ sortOrder: "asc" }, { label: "asc" }],
+        });
+
+        // Atribut ber-key sama di kategori berbeda digabung menjadi satu facet
+        const byKey = new Map<string, SpecAttribute>();
+        for (const attribute of attributes) {
+            if (!byKey.has(attribute.key)) byKey.set(attribute.key, attribute);
+        }
+
+        const facets = await Promise.all(
+            Array.from(byKey.values()).map((attribute) =>
+                this.buildFacet(attribute, productWhere, filters)
+            )
+        );
+
+        return facets.filter((facet) => facet.values.length > 0);
+    }
+
+    /**
+     * Urutkan ID produk berdasarkan nilai atribut (produk tanpa nilai di akhir)
+     * @param productIds - ID produk dalam urutan default
+     * @param sort - Hasil `parseSort`
+     * @returns ID produk terurut
+     */
+    async sortProductIds(
+        productIds: string[],
+        sort: SpecSort
+    ): Promise<string[]> {
+        const rows = await this.prisma.productSpecValue.findMany({
+            where: {
+                productId: { in: productIds },
+                attribute: { key: sort.key },
+            },
+            select: {
+                productId: true,
+                numberValue: true,
+                textValue: true,
+                booleanValue: true,
+            },
+        });
+
+        const valueByProduct = new Map<string, SpecScalar>();
+        for (const row of rows) {
+            const value = row.numberValue ?? row.textValue ?? row.booleanValue;
+            if (value !== null) valueByProduct.set(row.productId, value);
+        }
+
+        const position = new Map(productIds.map((id, index) => [id, index]));
+        const factor = sort.direction === "asc" ? 1 : -1;
+
+        return [...productIds].sort((a, b) => {
+            const valueA = valueByProduct.get(a);
+            const valueB = valueByProduct.get(b);
+
+            if (valueA === undefined || valueB === undefined) {
+                if (valueA !== valueB) return valueA === undefined ? 1 : -1;
+                return position.get(a)! - position.get(b)!;
+            }
+
+            const compared = this.compareValues(valueA, valueB);
+            return compared !== 0
+                ? compared * factor
+                : position.get(a)! - position.get(b)!;
+        });
+    }
+
+    // Helper methods
+    /**
+     * Kondisi nilai per kolom sesuai tipe atribut
+     * (kolom Boolean hanya mendukung `equals`/`not`, bukan `in`)
+     */
+    private buildValueWhere(
+        filter: SpecFilter
+    ): Prisma.ProductSpecValueWhereInput {
+        switch (filter.type) {
+            case "NUMBER":
+                return {
+                    numberValue: filter.values
+                        ? { in: filter.values as number[] }
+                        : { gte: filter.min, lte: filter.max },
+                };
+            case "TEXT":
+                return { textValue: { in: filter.values as string[] } };
+            case "BOOLEAN": {
+                const values = Array.from(
+                    new Set(filter.values as boolean[])
+                );
+                if (values.length === 1) {
+                    return { booleanValue: { equals: values[0] } };
+                }
+                return {
+                    OR: values.map((value) => ({
+                        booleanValue: { equals: value },
+                    })),
+                };
+            }
+        }
+    }
+
+    private async validateValues(
+        categoryId: string,
+        values: SpecValuesInput
+    ): Promise<{ attribute: SpecAttribute; value: SpecScalar }[]> {
+        const attributes = await this.list({ categoryId, inherited: true });
+        const byKey = new Map(attributes.map((a) => [a.key, a]));
+
+        const entries: { attribute: SpecAttribute; value: SpecScalar }[] = [];
+        for (const [key, raw] of Object.entries(values)) {
+            const attribute = byKey.get(key);
+            if (!attribute) {
+                throw new Error(
+                    `Unknown specification attribute "${key}" for this category`
+                );
+            }
+            if (raw === null || raw === undefined || raw === "") continue;
+
+            const value = this.parseValue(attribute, raw);
+            if (value === null) {
+                throw new Error(
+                    `Invalid value for specification attribute "${key}"`
+                );
+            }
+
+            entries.push({ attribute, value });
+        }
+
+        return entries;
+    }
+
+    private async buildFacet(
+        attribute: SpecAttribute,
+        productWhere: Prisma.ProductWhereInput,
+        filters: SpecFilter[]
+    ): Promise<SpecFacet> {
+        const column = VALUE_COLUMNS[attribute.type];
+        const otherFilters = filters.filter((f) => f.key !== attribute.key);
+
+        const groups = await this.prisma.productSpecValue.groupBy({
+            by: [column],
+            where: {
+                attribute: { key: attribute.key },
+                product: {
+                    AND: [productWhere, ...this.buildWhere(otherFilters)],
+                },
+            },
+            _count: { _all: true },
+        });
+
+        const values = groups
+            .filter((group) => group[column] !== null)
+            .map((group) => ({
+                value: group[column] as SpecScalar,
+                count: group._count._all,
+            }))
+            .sort((a, b) => this.compareValues(a.value, b.value));
+
+        const facet: SpecFacet = {
+            key: attribute.key,
+            label: attribute.label,
+            type: attribute.type,
+            unit: attribute.unit,
+            values,
+        };
+
+        if (attribute.type === "NUMBER" && values.length > 0) {
+            facet.min = values[0].value as number;
+            facet.max = values[values.length - 1].value as number;
+        }
+
+        return facet;
+    }
+
+    private async assertKeyAvailable(
+        categoryId: string,
+        key: string,
+        type: SpecAttributeType
+    ): Promise<void> {
+        const sameKey = await this.prisma.specAttribute.findMany({
+            where: { key },
+            select: { categoryId: true, type: true },
+        });
+        if (sameKey.length === 0) return;
+
+        // Key sama di kategori lain harus bertipe sama (filter & facet per key)
+        const conflictingType = sameKey.find((a) => a.type !== type);
+        if (conflictingType) {
+            throw new Error(
+                `Attribute key "${key}" is already used with type ${conflictingType.type}`
+            );
+        }
+
+        // Satu produk hanya boleh mewarisi satu atribut per key
+        const [ancestorIds, descendantIds] = await Promise.all([
+            this.categoryService.getAncestorIds(categoryId),
+            this.categoryService.getDescendantIds(categoryId),
+        ]);
+        const chain = new Set([...ancestorIds, ...descendantIds]);
+        if (sameKey.some((a) => chain.has(a.categoryId))) {
+            throw new Error(
+                `Attribute key "${key}" is already defined in this category, its parents or its sub-categories`
+            );
+        }
+    }
+
+    private async getTypesByKey(
+        keys: string[]
+    ): Promise<Map<string, SpecAttributeType>> {
+        const attributes = await this.prisma.specAttribute.findMany({
+            where: { key: { in: keys } },
+            select: { key: true, type: true },
+            distinct: ["key"],
+        });
+        return new Map(attributes.map((a) => [a.key, a.type]));
+    }
+
+    private normalizeOptions(
+        type: SpecAttributeType,
+        options: string[] | null
+    ): Prisma.InputJsonValue | typeof Prisma.DbNull {
+        if (!options || options.length === 0) return Prisma.DbNull;
+        if (type !== "TEXT") {
+            throw new Error("Options are only supported for TEXT attributes");
+        }
+        return Array.from(
+            new Set(options.map((option) => String(option).trim()))
+        ).filter(Boolean);
+    }
+
+    private parseValue(
+        attribute: SpecAttribute,
+        raw: unknown
+    ): SpecScalar | null {
+        if (!["string", "number", "boolean"].includes(typeof raw)) {
+            return null;
+        }
+
+        const value = this.parseScalar(attribute.type, String(raw).trim());
+        if (value === null) return null;
+
+        if (
+            attribute.type === "TEXT" &&
+            Array.isArray(attribute.options) &&
+            !attribute.options.includes(value)
+        ) {
+            return null;
+        }
+
+        return value;
+    }
+
+    private parseScalar(
+        type: SpecAttributeType,
+        raw: string
+    ): SpecScalar | null {
+        switch (type) {
+            case "NUMBER": {
+                const num = Number(raw);
+                return raw !== "" && Number.isFinite(num) ? num : null;
+            }
+            case "BOOLEAN":
+                if (raw === "true" || raw === "1") return true;
+                if (raw === "false" || raw === "0") return false;
+                return null;
+            default:
+                return raw.length > 0 && raw.length <= 191 ? raw : null;
+        }
+    }
+
+    private compareValues(a: SpecScalar, b: SpecScalar): number {
+        if (typeof a === "number" && typeof b === "number") return a - b;
+        return String(a).localeCompare(String(b), undefined, {
+            numeric: true,
+        });
+    }
+}
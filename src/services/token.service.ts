@@ -6,44 +6,77 @@
  * - Generate refresh token (long-lived)
  * - Verifikasi & decode token
  * - Custom payload validation
+ * - Setiap token memiliki `jti` unik (token hasil rotasi tidak pernah identik)
+ * - Signing key dari `JwtKeyringService`: header `kid` menentukan key verifikasi,
+ *   sehingga rotasi key tidak me-logout pengguna
+ * - Algoritma HS256, RS256, dan EdDSA (EdDSA di-sign manual karena belum didukung `jsonwebtoken`)
+ * - Keyed hash (HMAC-SHA256) untuk token yang disimpan di database
  *
  * @security
- * - Secret key wajib dari environment (tidak hardcoded)
+ * - Secret key wajib dari environment/keyring (tidak hardcoded)
+ * - Algoritma verifikasi dikunci sesuai key (tidak mempercayai header `alg`)
+ * - Key access dan refresh terpisah → access token tidak bisa dipakai sebagai refresh token
  * - Access token default 15 menit, refresh token 1 hari (dapat dikonfigurasi)
  * - Hindari menyimpan sensitive data di payload
+ * - Database hanya menyimpan hash token → dump DB tidak berisi kredensial aktif
  * - Error handling jelas untuk expired/invalid token
  *
  * @usage
  * const tokenService = new TokenService({
- *   accessTokenSecret: process.env.JWT_SECRET!,
- *   refreshTokenSecret: process.env.JWT_REFRESH_SECRET!,
+ *   keyring: jwtKeyringService,
+ *   tokenHashSecret: process.env.TOKEN_HASH_SECRET!,
  *   accessTokenExpiresIn: '15m',
  *   refreshTokenExpiresIn: '7d'
  * });
  *
  * const accessToken = tokenService.generateAccessToken({ id: '123' });
  * const refreshToken = tokenService.generateRefreshToken({ id: '123' });
+ * const stored = tokenService.hash(refreshToken);
  *
  * @dependencies
  * - `jsonwebtoken` v9+ (dukungan ES modules & type safety)
  */
 
+import crypto from "crypto";
 import jwt, { JwtPayload, SignOptions } from "jsonwebtoken";
+import { parseTime } from "../utils/parseTime";
+import { JwtKey, JwtKeyringService, JwtKeyUse } from "./jwt-keyring.service";
 
 export interface TokenServiceConfig {
-    accessTokenSecret: string;
-    refreshTokenSecret: string;
+    keyring: JwtKeyringService;
+    tokenHashSecret: string;
     accessTokenExpiresIn: number;
     refreshTokenExpiresIn: number;
 }
 
 export class TokenService {
     constructor(private config: TokenServiceConfig) {
-        if (!config.accessTokenSecret || !config.refreshTokenSecret) {
-            throw new Error("JWT secrets must be provided");
+        if (!config.tokenHashSecret) {
+            throw new Error("Token hash secret must be provided");
         }
     }
 
+    /**
+     * Hash token (JWT, UUID reset password, dll) untuk disimpan/dicari di database
+     * @param token - Token mentah
+     * @returns HMAC-SHA256 dalam format hex (64 karakter)
+     */
+    hash(token: string): string {
+        return crypto
+            .createHmac("sha256", this.config.tokenHashSecret)
+            .update(token)
+            .digest("hex");
+    }
+
+    /**
+     * Cek apakah nilai sudah berupa hash token (bukan token mentah)
+     * @param value - Nilai kolom token di database
+     * @returns true jika sudah berbentuk hash
+     */
+    isHash(value: string): boolean {
+        return /^[a-f0-9]{64}$/.test(value);
+    }
+
     /**
      * Generate access token (short-lived)
      * @param payload - Data yang disisipkan (minimal: { id, role })
@@ -51,8 +84,9 @@ export class TokenService {
      * @returns Signed JWT string
      */
     generateAccessToken(payload: object, options: SignOptions = {}): string {
-        return jwt.sign(payload, this.config.accessTokenSecret, {
+        return this.sign("access", payload, {
             expiresIn: this.config.accessTokenExpiresIn,
+            jwtid: crypto.randomUUID(),
             ...options,
         });
     }
@@ -64,8 +98,9 @@ export class TokenService {
      * @returns Signed JWT string
      */
     generateRefreshToken(payload: object, options: SignOptions = {}): string {
-        return jwt.sign(payload, this.config.refreshTokenSecret, {
+        return this.sign("refresh", payload, {
             expiresIn: this.config.refreshTokenExpiresIn,
+            jwtid: crypto.randomUUID(),
             ...options,
         });
     }
@@ -73,7 +108,7 @@ export class TokenService {
     /**
      * Verifikasi dan decode token
      * @param token - JWT string
-     * @param isRefresh - Jika true, verifikasi dengan refresh secret
+     * @param isRefresh - Jika true, verifikasi dengan keyring refresh token
      * @returns Payload terverifikasi
      * @throws TokenExpiredError, JsonWebTokenError, dll
      */
@@ -81,10 +116,107 @@ export class TokenService {
         token: string,
         isRefresh: boolean = false
     ): T {
-        const secret = isRefresh
-            ? this.config.refreshTokenSecret
-            : this.config.accessTokenSecret;
+        const use: JwtKeyUse = isRefresh ? "refresh" : "access";
+        const decoded = jwt.decode(token, { complete: true });
+        if (!decoded) {
+            throw new jwt.JsonWebTokenError("jwt malformed");
+        }
+
+        const key = this.config.keyring.getVerificationKey(
+            use,
+            decoded.header.kid
+        );
+        if (!key) {
+            throw new jwt.JsonWebTokenError("unknown signing key");
+        }
+        if (decoded.header.alg !== key.alg) {
+            throw new jwt.JsonWebTokenError("invalid algorithm");
+        }
+
+        if (key.alg === "EdDSA") {
+            return this.verifyEdDsa(token, key) as T;
+        }
+        return jwt.verify(token, key.verificationKey, {
+            algorithms: [key.alg],
+        }) as T;
+    }
+
+    // Helper methods
+    private sign(
+        use: JwtKeyUse,
+        payload: object,
+        options: SignOptions
+    ): string {
+        const key = this.config.keyring.getSigningKey(use);
+
+        if (key.alg === "EdDSA") {
+            return this.signEdDsa(payload, key, options);
+        }
+        return jwt.sign(payload, key.signingKey!, {
+            ...options,
+            algorithm: key.alg,
+            keyid: key.kid,
+        });
+    }
+
+    private signEdDsa(
+        payload: object,
+        key: JwtKey,
+        options: SignOptions
+    ): string {
+        const iat = Math.floor(Date.now() / 1000);
+        const claims: Record<string, unknown> = { ...payload, iat };
+
+        if (options.expiresIn !== undefined) {
+            // Angka = detik (sama seperti jsonwebtoken), string = format "15m"
+            claims.exp =
+                iat +
+                (typeof options.expiresIn === "number"
+                    ? options.expiresIn
+                    : Math.floor(parseTime(options.expiresIn, 0) / 1000));
+        }
+        if (options.jwtid) claims.jti = options.jwtid;
+
+        const header = { alg: key.alg, typ: "JWT", kid: key.kid };
+        const signingInput = [header, claims]
+            .map((part) =>
+                Buffer.from(JSON.stringify(part)).toString("base64url")
+            )
+            .join(".");
+        const signature = crypto.sign(
+            null,
+            Buffer.from(signingInput),
+            key.signingKey as crypto.KeyObject
+        );
+
+        return `${signingInput}.${signature.toString("base64url")}`;
+    }
+
+    private verifyEdDsa(token: string, key: JwtKey): JwtPayload {
+        const [header, payload, signature] = token.split(".");
+        const valid = crypto.verify(
+            null,
+            Buffer.from(`${header}.${payload}`),
+            key.verificationKey as crypto.KeyObject,
+            Buffer.from(signature ?? "", "base64url")
+        );
+        if (!valid) {
+            throw new jwt.JsonWebTokenError("invalid signature");
+        }
+
+        const claims = JSON.parse(
+            Buffer.from(payload, "base64url").toString("utf8")
+        ) as JwtPayload;
+        if (
+            typeof claims.exp === "number" &&
+            Math.floor(Date.now() / 1000) >= claims.exp
+        ) {
+            throw new jwt.TokenExpiredError(
+                "jwt expired",
+                new Date(claims.exp * 1000)
+            );
+        }
 
-        return jwt.verify(token, secret) as T;
+        return claims;
     }
 }
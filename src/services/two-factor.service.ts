@@ -0,0 +1,487 @@
+/**
+ * @file TwoFactorService – Manajemen two-factor authentication (TOTP) pengguna
+ * @description
+ * Layanan untuk siklus hidup 2FA pengguna dashboard:
+ * - Enrollment: generate secret + otpauth URI, konfirmasi dengan kode pertama
+ * - Recovery codes (sekali pakai) untuk kehilangan perangkat authenticator
+ * - Challenge token untuk login dua langkah
+ * - Disable 2FA (ditolak jika role mewajibkan 2FA)
+ *
+ * @security
+ * - Secret disimpan terenkripsi, recovery code & challenge token hanya sebagai hash
+ * - Kode TOTP yang sama tidak bisa dipakai dua kali (replay protection via time-step)
+ * - Challenge token berumur pendek, sekali pakai, dan dicabut setelah
+ *   `twoFactorChallengeMaxAttempts` kode salah
+ * - Semua perubahan status 2FA tercatat di audit log
+ *
+ * @usage
+ * const twoFactorService = new TwoFactorService(prisma, totpService, tokenService, auditService);
+ *
+ * const { secret, otpauthUri } = await twoFactorService.beginEnrollment(userId);
+ * const { recoveryCodes } = await twoFactorService.confirmEnrollment(userId, '123456');
+ *
+ * @dependencies
+ * - `@prisma/client`
+ * - `TotpService`, `TokenService`, `AuditService`
+ */
+
+import crypto from "crypto";
+import { PrismaClient } from "@prisma/client";
+import { securityConfig } from "../config/security.config";
+import { TotpService } from "./totp.service";
+import { TokenService } from "./token.service";
+import { AuditService } from "./audit.service";
+
+export interface TwoFactorStatus {
+    enabled: boolean;
+    required: boolean;
+    enabledAt: Date | null;
+    recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+    secret: string;
+    otpauthUri: string;
+}
+
+export class TwoFactorService {
+    constructor(
+        private prisma: PrismaClient,
+        private totpService: TotpService,
+        private tokenService: TokenService,
+        private auditService: AuditService
+    ) {}
+
+    /**
+     * Ambil status 2FA pengguna
+     * @param userId - ID pengguna
+     * @returns Status 2FA
+     */
+    async getStatus(userId: string): Promise<TwoFactorStatus> {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
+            select: {
+                twoFactorEnabled: true,
+                twoFactorEnabledAt: true,
+                role: { select: { requireTwoFactor: true } },
+            },
+        });
+        if (!user) throw new Error("User not found");
+
+        const recoveryCodesRemaining =
+            await this.prisma.twoFactorRecoveryCode.count({
+                where: { userId, usedAt: null },
+            });
+
+        return {
+            enabled: user.twoFactorEnabled,
+            required: user.role.requireTwoFactor,
+            enabledAt: user.twoFactorEnabledAt,
+            recoveryCodesRemaining,
+        };
+    }
+
+    /**
+     * Lanjutkan enrollment yang belum dikonfirmasi dengan secret yang sama
+     * (QR code yang sudah dipindai tetap berlaku), atau mulai baru jika
+     * belum ada. Dipakai saat login dengan enrollment paksa.
+     * @param userId - ID pengguna
+     * @returns Secret dan otpauth URI untuk QR code
+     */
+    async resumeEnrollment(userId: string): Promise<TwoFactorEnrollment> {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId, deletedAt: null },
+        });
+        if (user && !user.twoFactorEnabled && user.twoFactorSecret) {
+            const secret = this.totpService.decryptSecret(user.twoFactorSecret);
+            return {
+                secret,
+                otpauthUri: this.totpService.buildOtpAuthUri(
+                    user.email,
+                    secret
+                ),
+            };
+        }
+
+        return this.beginEnrollment(userId);
+    }
+
+    /**
+     * Mulai enrollment: generate secret baru (belum aktif sampai dikonfirmasi)
+     * @param userId - ID pengguna
+     * @returns Secret dan otpauth URI untuk QR code
+     */
+    async beginEnrollment(userId: string): Promise<TwoFactorEnrollment> {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId, deletedAt: null },
+        });
+        if (!user) throw new Error("User not found");
+        if (user.twoFactorEnabled) {
+            throw new Error("Two-factor authentication is already enabled");
+        }
+
+        const secret = this.totpService.generateSecret();
+
+        await this.prisma.user.update({
+            where: { id: userId },
+            data: {
+                twoFactorSecret: this.totpService.encryptSecret(secret),
+                twoFactorLastStep: null,
+            },
+        });
+
+        return {
+            secret,
+            otpauthUri: this.totpService.buildOtpAuthUri(user.email, secret),
+        };
+    }
+
+    /**
+     * Konfirmasi enrollment dengan kode TOTP pertama, lalu aktifkan 2FA
+     * @param userId - ID pengguna
+     * @param code - Kode TOTP dari aplikasi authenticator
+     * @param ipAddress - IP address untuk audit
+     * @param userAgent - User agent untuk audit
+     * @returns Recovery codes (hanya ditampilkan sekali)
+     */
+    async confirmEnrollment(
+        userId: string,
+        code: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<{ recoveryCodes: string[] }> {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId, deletedAt: null },
+        });
+        if (!user) throw new Error("User not found");
+        if (user.twoFactorEnabled) {
+            throw new Error("Two-factor authentication is already enabled");
+        }
+        if (!user.twoFactorSecret) {
+            throw new Error("Two-factor setup has not been started");
+        }
+
+        const step = this.totpService.verify(
+            this.totpService.decryptSecret(user.twoFactorSecret),
+            code
+        );
+        if (step === null) {
+            throw new Error("Invalid two-factor code");
+        }
+
+        await this.prisma.user.update({
+            where: { id: userId },
+            data: {
+                twoFactorEnabled: true,
+                twoFactorEnabledAt: new Date(),
+                twoFactorLastStep: step,
+            },
+        });
+
+        const recoveryCodes = await this.replaceRecoveryCodes(userId);
+
+        await this.auditService.log({
+            userId,
+            action: "ENABLE_2FA",
+            tableName: "User",
+            recordId: userId,
+            details: "Two-factor authentication enabled",
+            ipAddress,
+            userAgent,
+        });
+
+        return { recoveryCodes };
+    }
+
+    /**
+     * Verifikasi kode TOTP atau recovery code untuk pengguna yang sudah enroll
+     * @param userId - ID pengguna
+     * @param code - Kode TOTP 6 digit atau recovery code
+     * @returns true jika valid (recovery code otomatis ditandai terpakai)
+     */
+    async verifyCode(userId: string, code: string): Promise<boolean> {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
+            select: { twoFactorSecret: true, twoFactorLastStep: true },
+        });
+        if (!user?.twoFactorSecret || !code) return false;
+
+        const step = this.totpService.verify(
+            this.totpService.decryptSecret(user.twoFactorSecret),
+            code
+        );
+
+        if (step !== null) {
+            // Tolak kode yang sama/lebih lama dari yang terakhir dipakai (replay)
+            if (
+                user.twoFactorLastStep !== null &&
+                step <= user.twoFactorLastStep
+            ) {
+                return false;
+            }
+
+            const updated = await this.prisma.user.updateMany({
+                where: {
+                    id: userId,
+                    OR: [
+                        { twoFactorLastStep: null },
+                        { twoFactorLastStep: { lt: step } },
+                    ],
+                },
+                data: { twoFactorLastStep: step },
+            });
+            return updated.count === 1;
+        }
+
+        return this.consumeRecoveryCode(userId, code);
+    }
+
+    /**
+     * Generate ulang recovery codes (kode lama tidak berlaku)
+     * @param userId - ID pengguna
+     * @param code - Kode TOTP untuk konfirmasi
+     * @param ipAddress - IP address untuk audit
+     * @param userAgent - User agent untuk audit
+     * @returns Recovery codes baru
+     */
+    async regenerateRecoveryCodes(
+        userId: string,
+        code: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<{ recoveryCodes: string[] }> {
+        await this.assertEnabledAndVerify(userId, code);
+
+        const recoveryCodes = await this.replaceRecoveryCodes(userId);
+
+        await this.auditService.log({
+            userId,
+            action: "REGENERATE_2FA_RECOVERY_CODES",
+            tableName: "User",
+            recordId: userId,
+            details: "Two-factor recovery codes regenerated",
+            ipAddress,
+            userAgent,
+        });
+
+        return { recoveryCodes };
+    }
+
+    /**
+     * Nonaktifkan 2FA
+     * @param userId - ID pengguna
+     * @param code - Kode TOTP atau recovery code untuk konfirmasi
+     * @param ipAddress - IP address untuk audit
+     * @param userAgent - User agent untuk audit
+     * @throws Error jika role pengguna mewajibkan 2FA
+     */
+    async disable(
+        userId: string,
+        code: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<void> {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
+            include: { role: true },
+        });
+        if (!user) throw new Error("User not found");
+        if (user.role.requireTwoFactor) {
+            throw new Error(
+                "Two-factor authentication is required for your role"
+            );
+        }
+
+        await this.assertEnabledAndVerify(userId, code);
+
+        await this.prisma.$transaction([
+            this.prisma.user.update({
+                where: { id: userId },
+                data: {
+                    twoFactorEnabled: false,
+                    twoFactorSecret: null,
+                    twoFactorEnabledAt: null,
+                    twoFactorLastStep: null,
+                },
+            }),
+            this.prisma.twoFactorRecoveryCode.deleteMany({
+                where: { userId },
+            }),
+        ]);
+
+        await this.auditService.log({
+            userId,
+            action: "DISABLE_2FA",
+            tableName: "User",
+            recordId: userId,
+            details: "Two-factor authentication disabled",
+            ipAddress,
+            userAgent,
+        });
+    }
+
+    /**
+     * Buat challenge token untuk langkah kedua login
+     * @param userId - ID pengguna yang lolos verifikasi password
+     * @param ipAddress - IP address perangkat
+     * @param userAgent - User agent perangkat
+     * @returns Challenge token mentah (hanya hash yang disimpan)
+     */
+    async createChallenge(
+        userId: string,
+        ipAddress?: string,
+        userAgent?: string
+    ): Promise<string> {
+        const challengeToken = crypto.randomBytes(32).toString("hex");
+
+        await this.prisma.token.create({
+            data: {
+                tokenHash: this.tokenService.hash(challengeToken),
+                type: "two_factor_challenge",
+                userId,
+                expiresAt: new Date(
+                    Date.now() + securityConfig.twoFactorChallengeExpiresIn
+                ),
+                isRevoked: false,
+                ipAddress: ipAddress || null,
+                userAgent: userAgent || null,
+            },
+        });
+
+        return challengeToken;
+    }
+
+    /**
+     * Ambil ID pengguna dari challenge token tanpa memakainya
+     * (challenge baru dipakai setelah kode terverifikasi)
+     * @param challengeToken - Challenge token dari langkah pertama login
+     * @returns ID pengguna
+     * @throws Error jika challenge tidak valid/kadaluarsa/sudah dipakai
+     */
+    async resolveChallenge(challengeToken: string): Promise<string> {
+        const record = await this.findChallenge(challengeToken);
+        if (!record) {
+            throw new Error("Invalid or expired two-factor challenge");
+        }
+        return record.userId;
+    }
+
+    /**
+     * Tukar challenge token (sekali pakai) menjadi ID pengguna
+     * @param challengeToken - Challenge token dari langkah pertama login
+     * @returns ID pengguna
+     * @throws Error jika challenge tidak valid/kadaluarsa/sudah dipakai
+     */
+    async consumeChallenge(challengeToken: string): Promise<string> {
+        const record = await this.findChallenge(challengeToken);
+        if (!record) {
+            throw new Error("Invalid or expired two-factor challenge");
+        }
+
+        const claimed = await this.prisma.token.updateMany({
+            where: { id: record.id, usedAt: null },
+            data: { usedAt: new Date(), isRevoked: true },
+        });
+        if (claimed.count === 0) {
+            throw new Error("Invalid or expired two-factor challenge");
+        }
+
+        return record.userId;
+    }
+
+    /**
+     * Cabut challenge jika kode salah sejak challenge dibuat mencapai batas
+     * (dihitung dari login gagal user tersebut di tabel `LoginAttempt`)
+     * @param challengeToken - Challenge token dari langkah pertama login
+     * @returns true jika challenge dicabut
+     */
+    async revokeChallengeIfExhausted(challengeToken: string): Promise<boolean> {
+        const record = await this.findChallenge(challengeToken);
+        if (!record) return false;
+
+        const failures = await this.prisma.loginAttempt.count({
+            where: {
+                userId: record.userId,
+                success: false,
+                createdAt: { gte: record.createdAt },
+            },
+        });
+        if (failures < securityConfig.twoFactorChallengeMaxAttempts) {
+            return false;
+        }
+
+        await this.prisma.token.update({
+            where: { id: record.id },
+            data: { isRevoked: true },
+        });
+        return true;
+    }
+
+    // Helper methods
+    private async findChallenge(challengeToken: string) {
+        return this.prisma.token.findFirst({
+            where: {
+                tokenHash: this.tokenService.hash(challengeToken),
+                type: "two_factor_challenge",
+                isRevoked: false,
+                usedAt: null,
+                expiresAt: { gt: new Date() },
+            },
+        });
+    }
+
+    private async assertEnabledAndVerify(
+        userId: string,
+        code: string
+    ): Promise<void> {
+        const user = await this.prisma.user.findUnique({
+            where: { id: userId },
+            select: { twoFactorEnabled: true },
+        });
+        if (!user) throw new Error("User not found");
+        if (!user.twoFactorEnabled) {
+            throw new Error("Two-factor authentication is not enabled");
+        }
+        if (!(await this.verifyCode(userId, code))) {
+            throw new Error("Invalid two-factor code");
+        }
+    }
+
+    private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+        const codes = Array.from(
+            { length: securityConfig.twoFactorRecoveryCodeCount },
+            () => {
+                const raw = crypto.randomBytes(5).toString("hex");
+                return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+            }
+        );
+
+        await this.prisma.$transaction([
+            this.prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+            this.prisma.twoFactorRecoveryCode.createMany({
+                data: codes.map((code) => ({
+                    userId,
+                    codeHash: this.tokenService.hash(code),
+                })),
+            }),
+        ]);
+
+        return codes;
+    }
+
+    private async consumeRecoveryCode(
+        userId: string,
+        code: string
+    ): Promise<boolean> {
+        const normalized = code.trim().toLowerCase();
+        const result = await this.prisma.twoFactorRecoveryCode.updateMany({
+            where: {
+                userId,
+                codeHash: this.tokenService.hash(normalized),
+                usedAt: null,
+            },
+            data: { usedAt: new Date() },
+        });
+        return result.count === 1;
+    }
+}
@@ -8,12 +8,13 @@
  *
  * @security
  * - Validasi duplikat email sebelum create/update
+ * - Password wajib lolos kebijakan password (panjang, kelas karakter, blocklist, riwayat)
  * - Hanya role yang valid yang bisa diassign
  * - Avatar default otomatis jika tidak ada
  * - Hapus file avatar lama saat update/hard delete
  *
  * @usage
- * const userService = new UserService(prisma, passwordService, fileService, auditService);
+ * const userService = new UserService(prisma, passwordService, passwordPolicyService, fileService, auditService);
  *
  * const user = await userService.create({
  *   name: 'John Doe',
@@ -25,11 +26,12 @@
  *
  * @dependencies
  * - `@prisma/client`
- * - `PasswordService`, `FileService`, `AuditService`
+ * - `PasswordService`, `PasswordPolicyService`, `FileService`, `AuditService`
  */
 
 import { PrismaClient, UserStatus } from "@prisma/client";
 import { PasswordService } from "./password.service";
+import { PasswordPolicyService } from "./password-policy.service";
 import { FileService } from "./file.service";
 import { AuditService } from "./audit.service";
 import { appConfig } from "../config/app.config";
@@ -73,6 +75,7 @@ export class UserService {
     constructor(
         private prisma: PrismaClient,
         private passwordService: PasswordService,
+        private passwordPolicyService: PasswordPolicyService,
         private fileService: FileService,
         private auditService: AuditService
     ) {}
@@ -99,9 +102,9 @@ export class UserService {
 
         if (search) {
             where.OR = [
-                { name: { contains: search, mode: "insensitive" } },
-                { email: { contains: search, mode: "insensitive" } },
-                { role: { name: { contains: search, mode: "insensitive" } } },
+                { name: { contains: search } },
+                { email: { contains: search } },
+                { role: { name: { contains: search } } },
             ];
         }
 
@@ -161,12 +164,19 @@ export class UserService {
 
         const existing = await this.prisma.user.findFirst({ where: { email } });
 
+        if (existing && existing.deletedAt === null) {
+            throw new Error(`User with email "${email}" already exists.`);
+        }
+
+        this.passwordPolicyService.assertValid(password, { name, email });
+
         if (existing) {
-            if (existing.deletedAt === null) {
-                throw new Error(`User with email "${email}" already exists.`);
-            }
+            // Restore user (password lama tidak boleh dipakai ulang)
+            await this.passwordPolicyService.assertNotReused(
+                existing.id,
+                password
+            );
 
-            // Restore user
             const hashedPassword = await this.passwordService.hash(password);
             const avatarUrl = avatarFile
                 ? `/uploads/avatars/${avatarFile.filename}`
@@ -185,6 +195,10 @@ export class UserService {
                     updatedAt: new Date(),
                 },
             });
+            await this.passwordPolicyService.remember(
+                existing.id,
+                hashedPassword
+            );
 
             await this.auditService.log({
                 userId: createdBy,
@@ -218,6 +232,7 @@ export class UserService {
                 avatar: avatarUrl,
             },
         });
+        await this.passwordPolicyService.remember(user.id, hashedPassword);
 
         await this.auditService.log({
             userId: createdBy,
@@ -308,9 +323,25 @@ export class UserService {
             avatar: existingUser.avatar,
         };
 
+        // Perubahan status oleh admin mengambil alih lockout otomatis
+        const lockoutReset =
+            status === UserStatus.ACTIVE
+                ? { lockedUntil: null, failedLoginAttempts: 0 }
+                : status !== existingUser.status
+                ? { lockedUntil: null }
+                : {};
+
         const updatedUser = await this.prisma.user.update({
             where: { id },
-            data: { name, email, phone, roleId, status, avatar: avatarUrl },
+            data: {
+                name,
+                email,
+                phone,
+                roleId,
+                status,
+                avatar: avatarUrl,
+                ...lockoutReset,
+            },
             include: { role: true },
         });
 
@@ -1,4 +1,5 @@
 import { User } from "@prisma/client";
+import { ImageVariantFiles } from "../services/image-processing.service";
 
 declare global {
     namespace Express {
@@ -10,9 +11,19 @@ declare global {
                 role?: {
                     name: string;
                 };
+                sessionId?: string;
+                apiKeyId?: string;
+                apiKeyScopes?: { resource: string; action: string }[];
+                impersonator?: { id: string; email: string };
             };
 
             _permissionCache?: Map<string, boolean>;
         }
+
+        namespace Multer {
+            interface File {
+                variants?: ImageVariantFiles; // diisi setelah pemrosesan gambar
+            }
+        }
     }
 }
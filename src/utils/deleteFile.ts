@@ -14,7 +14,9 @@ import { FileService } from "../services/file.service";
 
 const fileService = new FileService({
     uploadDir: appConfig.uploadDir,
+    documentDir: appConfig.documentDir,
     maxFileSize: appConfig.maxFileSize,
+    imageProcessing: appConfig.imageProcessing,
 });
 
 export const deleteFile = (filePath: string): void => {
@@ -11,11 +11,21 @@
 
 import { jwtConfig } from "../config/jwt.config";
 import { TokenService } from "../services/token.service";
+import { JwtKeyringService } from "../services/jwt-keyring.service";
 
 // Ambil konfigurasi dari environment (sesuai struktur lama)
+const jwtKeyringService = new JwtKeyringService({
+    keyringPath: jwtConfig.keyringPath,
+    legacyAccessSecret: jwtConfig.accessTokenSecret,
+    legacyRefreshSecret: jwtConfig.refreshTokenSecret,
+    retention: {
+        access: jwtConfig.accessTokenExpiresIn,
+        refresh: jwtConfig.refreshTokenExpiresIn,
+    },
+});
 const tokenService = new TokenService({
-    accessTokenSecret: jwtConfig.accessTokenSecret,
-    refreshTokenSecret: jwtConfig.refreshTokenSecret,
+    keyring: jwtKeyringService,
+    tokenHashSecret: jwtConfig.tokenHashSecret,
     accessTokenExpiresIn: jwtConfig.accessTokenExpiresIn,
     refreshTokenExpiresIn: jwtConfig.refreshTokenExpiresIn,
 });
@@ -0,0 +1,37 @@
+/**
+ * @file Request Context – Konteks per-request berbasis AsyncLocalStorage
+ * @description
+ * Menyimpan data yang perlu tersedia di seluruh rantai async satu request
+ * tanpa harus diteruskan lewat parameter (misal: ID admin yang sedang impersonate,
+ * agar `AuditService.log` bisa mencatat kedua identitas di semua aksi).
+ *
+ * @usage
+ * import { runWithRequestContext, getRequestContext } from '@/utils/request-context';
+ * runWithRequestContext({ impersonatorId }, () => next());
+ * const impersonatorId = getRequestContext()?.impersonatorId;
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+
+export interface RequestContext {
+    impersonatorId?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Jalankan callback di dalam konteks request
+ */
+export const runWithRequestContext = <T>(
+    context: RequestContext,
+    callback: () => T
+): T => {
+    return storage.run(context, callback);
+};
+
+/**
+ * Ambil konteks request aktif (undefined jika di luar request, misal cron job)
+ */
+export const getRequestContext = (): RequestContext | undefined => {
+    return storage.getStore();
+};
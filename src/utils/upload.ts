@@ -20,7 +20,9 @@ import { FileService } from "../services/file.service";
 
 const fileService = new FileService({
     uploadDir: appConfig.uploadDir,
+    documentDir: appConfig.documentDir,
     maxFileSize: appConfig.maxFileSize,
+    imageProcessing: appConfig.imageProcessing,
 });
 
 export const uploadUserAvatar = fileService.createMulterMiddleware({
@@ -33,6 +35,11 @@ export const uploadBrandLogo = fileService.createMulterMiddleware({
     fieldName: "logo",
 });
 
+export const uploadCategoryImage = fileService.createMulterMiddleware({
+    type: "category",
+    fieldName: "image",
+});
+
 export const uploadBlogImage = fileService.createMulterMiddleware({
     type: "blog",
     fieldName: "image",
@@ -50,12 +57,30 @@ export const uploadGalleryImage = fileService.createMulterMiddleware({
     maxSize: 5 * 1024 * 1024,
 });
 
+export const uploadProductDocument = fileService.createMulterMiddleware({
+    type: "document",
+    fieldName: "file",
+    maxSize: 20 * 1024 * 1024,
+});
+
+export const uploadProductImportFile = fileService.createMemoryMiddleware({
+    fieldName: "file",
+    extensions: [".xlsx", ".csv"],
+    maxSize: 5 * 1024 * 1024,
+});
+
 export const deleteUploadedFile = (
     filePath: string | null | undefined
 ): void => {
     fileService.deleteFile(filePath);
 };
 
+export const deleteUploadedDocument = (
+    fileName: string | null | undefined
+): void => {
+    fileService.deleteDocument(fileName);
+};
+
 export const getPublicUrl = (filePath: string): string => {
     return fileService.getPublicUrl(filePath);
 };